@@ -0,0 +1,368 @@
+import type { AuthGuardConfig } from './types';
+const path = require('path');
+const fs = require('fs');
+const ts = require('typescript');
+const { readSource } = require('./source-reader');
+const { createResolver } = require('./module-graph');
+const { ruleText } = require('./i18n');
+
+const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+// supabase.auth.getUser() / getSession() / getClaims()
+const SUPABASE_GUARDS = ['getUser', 'getSession', 'getClaims'];
+// NextAuth, Clerk ve yaygın proje içi yardımcılar; config.authGuard.guards ile genişletilir
+const DEFAULT_GUARDS = ['getServerSession', 'auth', 'currentUser', 'requireUser', 'requireAuth', 'withAuth', 'verifyToken'];
+// Veri erişimi: Supabase, pg / ORM ham sorguları ve harici API çağrıları
+const DATA_METHODS = ['from', 'rpc', 'query', 'execute', '$queryRaw', '$executeRaw', '$queryRawUnsafe', '$executeRawUnsafe'];
+const DATA_FUNCTIONS = ['fetch', 'axios', 'got', 'sql'];
+const MIDDLEWARE_FILES = ['middleware.ts', 'middleware.js', 'src/middleware.ts', 'src/middleware.js'];
+
+const ROUTE_FILE = /(?:^|\/)app\/(.*\/)?route\.[jt]sx?$/;
+const PAGES_API_FILE = /(?:^|\/)pages\/(api\/.*)\.[jt]sx?$/;
+
+// ─── Helpers ───
+function scriptKindFor(fileName) {
+    if (fileName.endsWith('.tsx')) return ts.ScriptKind.TSX;
+    if (fileName.endsWith('.jsx')) return ts.ScriptKind.JSX;
+    if (/\.[mc]?js$/.test(fileName)) return ts.ScriptKind.JS;
+    return ts.ScriptKind.TS;
+}
+
+function hasDirective(statements, directive) {
+    for (const statement of statements || []) {
+        if (!ts.isExpressionStatement(statement) || !ts.isStringLiteral(statement.expression)) break;
+        if (statement.expression.text === directive) return true;
+    }
+    return false;
+}
+
+function isExported(node) {
+    return (ts.getCombinedModifierFlags(node) & ts.ModifierFlags.Export) !== 0;
+}
+
+function calleeName(call) {
+    const expr = call.expression;
+    if (ts.isIdentifier(expr)) return expr.text;
+    if (ts.isPropertyAccessExpression(expr)) return expr.name.text;
+    return '';
+}
+
+function isFunctionLike(node) {
+    return node && (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node));
+}
+
+// app/(shop)/api/users/[id]/route.ts → /api/users/[id]
+function routePath(rel) {
+    const route = ROUTE_FILE.exec(rel);
+    const segments = route ? (route[1] || '').split('/') : PAGES_API_FILE.exec(rel)[1].split('/');
+    const visible = segments.filter(s => s && !/^\(.*\)$/.test(s) && !s.startsWith('@'));
+    if (!route && visible[visible.length - 1] === 'index') visible.pop();
+    return '/' + visible.join('/');
+}
+
+// Middleware matcher'ı ile karşılaştırmak için dinamik segmentlere örnek değer verilir
+function samplePath(route) {
+    return route
+        .replace(/\/\[\[\.\.\.[^\]]+\]\]/g, '')
+        .replace(/\[\.\.\.([^\]]+)\]/g, '$1')
+        .replace(/\[([^\]]+)\]/g, '$1') || '/';
+}
+
+// ─── Middleware ───
+// Next.js matcher söz dizimi (path-to-regexp): /dashboard/:path*, /api/:slug+, /((?!_next|favicon.ico).*)
+function matcherToRegExp(source) {
+    const re = source
+        .replace(/\/:\w+\*/g, '(?:/.*)?')
+        .replace(/\/:\w+\+/g, '/.+')
+        .replace(/\/:\w+\?/g, '(?:/[^/]+)?')
+        .replace(/:\w+(\([^)]*\))?/g, (_, group) => group || '[^/]+');
+    try {
+        return new RegExp(`^${re}/?$`);
+    } catch {
+        return null;
+    }
+}
+
+function readMatchers(sf) {
+    for (const statement of sf.statements) {
+        if (!ts.isVariableStatement(statement) || !isExported(statement)) continue;
+        for (const decl of statement.declarationList.declarations) {
+            if (!ts.isIdentifier(decl.name) || decl.name.text !== 'config' || !decl.initializer || !ts.isObjectLiteralExpression(decl.initializer)) continue;
+            const prop = decl.initializer.properties.find(p => ts.isPropertyAssignment(p) && p.name.getText(sf) === 'matcher');
+            if (!prop) return null;
+            const value = prop.initializer;
+            const items = ts.isArrayLiteralExpression(value) ? [...value.elements] : [value];
+            return items.map(item => {
+                if (ts.isStringLiteralLike(item)) return item.text;
+                // { source: '/api/:path*', has: [...] }
+                if (ts.isObjectLiteralExpression(item)) {
+                    const source = item.properties.find(p => ts.isPropertyAssignment(p) && p.name.getText(sf) === 'source');
+                    if (source && ts.isStringLiteralLike(source.initializer)) return source.initializer.text;
+                }
+                return null;
+            }).filter(Boolean);
+        }
+    }
+    return null;
+}
+
+/**
+ * middleware.ts: matcher kalıpları ve dosyada (veya doğrudan import ettiği yerel modüllerde) kimlik doğrulama
+ * yapılıp yapılmadığı. Matcher yoksa middleware tüm route'larda çalışır.
+ * Dönüş: { file, matchers: string[] | null, guarded, covers(route) } | null
+ */
+function loadMiddleware(projectRoot, files, guards) {
+    const rel = MIDDLEWARE_FILES.find(f => fs.existsSync(path.join(projectRoot, f)));
+    if (!rel) return null;
+    const filePath = path.join(projectRoot, rel);
+    const content = readSource(filePath);
+    const sf = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKindFor(filePath));
+    const matchers = readMatchers(sf);
+
+    // Supabase şablonu: middleware.ts → updateSession() → utils/supabase/middleware.ts içinde getUser()
+    const resolve = createResolver(projectRoot, [...files, filePath]);
+    const sources = [sf];
+    for (const statement of sf.statements) {
+        if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+        const target = resolve(statement.moduleSpecifier.text, filePath);
+        if (!target) continue;
+        try {
+            sources.push(ts.createSourceFile(target, readSource(target), ts.ScriptTarget.Latest, true, scriptKindFor(target)));
+        } catch { }
+    }
+    const guarded = sources.some(source => findCalls(source).some(call => isGuardCall(call, guards)));
+
+    const patterns = (matchers || []).map(matcherToRegExp).filter(Boolean);
+    return {
+        file: rel,
+        matchers,
+        guarded,
+        covers: (route) => matchers === null || patterns.some(re => re.test(samplePath(route))),
+    };
+}
+
+// ─── Guard / Data Access Detection ───
+function findCalls(node) {
+    const calls = [];
+    const visit = (child) => {
+        if (ts.isCallExpression(child) || ts.isTaggedTemplateExpression(child)) calls.push(child);
+        ts.forEachChild(child, visit);
+    };
+    visit(node);
+    return calls;
+}
+
+function isGuardCall(call, guards) {
+    if (!ts.isCallExpression(call)) return false;
+    const name = calleeName(call);
+    if (SUPABASE_GUARDS.includes(name) && ts.isPropertyAccessExpression(call.expression) && /\.auth$/.test(call.expression.expression.getText())) return true;
+    return guards.includes(name);
+}
+
+function isDataCall(call) {
+    // sql`SELECT ...` (postgres.js, @vercel/postgres)
+    if (ts.isTaggedTemplateExpression(call)) return /(?:^|\.)sql$/.test(call.tag.getText());
+    const name = calleeName(call);
+    if (ts.isIdentifier(call.expression)) return DATA_FUNCTIONS.includes(name);
+    // axios.get(), supabase.from(), client.query(), supabase.storage.from()
+    const owner = call.expression.expression ? call.expression.expression.getText() : '';
+    if (['Array', 'Object', 'Buffer', 'Promise'].includes(owner)) return false;
+    return DATA_METHODS.includes(name) || DATA_FUNCTIONS.includes(owner);
+}
+
+// Dosyadaki yerel fonksiyonlar: ad → gövde (handler'dan çağrılan yardımcıların bir seviye takibi için)
+function localFunctions(sf) {
+    const fns = new Map();
+    for (const statement of sf.statements) {
+        if (ts.isFunctionDeclaration(statement) && statement.name && statement.body) fns.set(statement.name.text, statement);
+        if (ts.isVariableStatement(statement)) {
+            for (const decl of statement.declarationList.declarations) {
+                if (ts.isIdentifier(decl.name) && isFunctionLike(decl.initializer)) fns.set(decl.name.text, decl.initializer);
+            }
+        }
+    }
+    return fns;
+}
+
+/**
+ * Handler gövdesindeki ilk guard ve ilk veri erişimi (kaynak sırasına göre).
+ * Dönüş: { guard: { name, line } | null, access: { name, line } | null }
+ */
+function analyzeHandler(fn, sf, locals, guards) {
+    const lineOf = (node) => sf.getLineAndCharacterOfPosition(node.getStart(sf)).line + 1;
+    let guard = null;
+    let access = null;
+
+    for (const call of findCalls(fn)) {
+        let kind = null;
+        if (isGuardCall(call, guards)) kind = 'guard';
+        else if (isDataCall(call)) kind = 'access';
+        else if (ts.isCallExpression(call) && ts.isIdentifier(call.expression) && locals.has(call.expression.text) && locals.get(call.expression.text) !== fn) {
+            const helperCalls = findCalls(locals.get(call.expression.text));
+            if (helperCalls.some(c => isGuardCall(c, guards))) kind = 'guard';
+            else if (helperCalls.some(isDataCall)) kind = 'access';
+        }
+        const name = ts.isTaggedTemplateExpression(call) ? call.tag.getText(sf) : calleeName(call);
+        if (kind === 'guard' && !guard) guard = { name, line: lineOf(call) };
+        if (kind === 'access' && !access) access = { name, line: lineOf(call) };
+    }
+    return { guard, access };
+}
+
+// ─── Handler Discovery ───
+// export const GET = withAuth(async (req) => ...) → sarmalayıcı adı + içteki fonksiyon
+function unwrapHandler(node, locals) {
+    if (isFunctionLike(node)) return { fn: node, wrapper: null };
+    if (node && ts.isIdentifier(node) && locals.has(node.text)) return { fn: locals.get(node.text), wrapper: null };
+    if (node && ts.isCallExpression(node)) {
+        const inner = node.arguments.map(arg => unwrapHandler(arg, locals)).find(h => h.fn);
+        return { fn: inner ? inner.fn : null, wrapper: calleeName(node) };
+    }
+    return { fn: null, wrapper: null };
+}
+
+function exportedHandlers(sf, locals) {
+    const handlers = [];
+    for (const statement of sf.statements) {
+        if (ts.isFunctionDeclaration(statement) && isExported(statement)) {
+            const isDefault = (ts.getCombinedModifierFlags(statement) & ts.ModifierFlags.Default) !== 0;
+            handlers.push({ name: isDefault ? 'default' : statement.name?.text, node: statement, fn: statement, wrapper: null });
+        } else if (ts.isVariableStatement(statement) && isExported(statement)) {
+            for (const decl of statement.declarationList.declarations) {
+                if (!ts.isIdentifier(decl.name)) continue;
+                handlers.push({ name: decl.name.text, node: decl, ...unwrapHandler(decl.initializer, locals) });
+            }
+        } else if (ts.isExportAssignment(statement)) {
+            handlers.push({ name: 'default', node: statement, ...unwrapHandler(statement.expression, locals) });
+        }
+    }
+    return handlers.filter(h => h.fn || h.wrapper);
+}
+
+// "use server" fonksiyon gövdesi direktifi olan satır içi Server Action'lar
+function inlineActions(sf) {
+    const actions = [];
+    const visit = (node) => {
+        if (isFunctionLike(node) && node.body && ts.isBlock(node.body) && hasDirective(node.body.statements, 'use server')) {
+            const name = node.name ? node.name.text
+                : ts.isVariableDeclaration(node.parent) && ts.isIdentifier(node.parent.name) ? node.parent.name.text : '(anonim)';
+            actions.push({ name, node, fn: node, wrapper: null });
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sf);
+    return actions;
+}
+
+function discoverEndpoints(filePath, rel, content) {
+    const isRoute = ROUTE_FILE.test(rel);
+    const isPagesApi = PAGES_API_FILE.test(rel);
+    const serverFile = /['"]use server['"]/.test(content);
+    if (!isRoute && !isPagesApi && !serverFile) return null;
+
+    const sf = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKindFor(filePath));
+    const locals = localFunctions(sf);
+    const endpoints = [];
+
+    if (isRoute) {
+        for (const h of exportedHandlers(sf, locals).filter(h => HTTP_METHODS.includes(h.name))) {
+            endpoints.push({ ...h, kind: 'route', method: h.name, route: routePath(rel) });
+        }
+    } else if (isPagesApi) {
+        for (const h of exportedHandlers(sf, locals).filter(h => h.name === 'default')) {
+            endpoints.push({ ...h, kind: 'pages-api', method: '*', route: routePath(rel) });
+        }
+    }
+
+    if (serverFile && hasDirective(sf.statements, 'use server')) {
+        for (const h of exportedHandlers(sf, locals)) {
+            endpoints.push({ ...h, kind: 'action', method: 'POST', route: `action:${h.name}` });
+        }
+    } else if (serverFile) {
+        for (const h of inlineActions(sf)) {
+            endpoints.push({ ...h, kind: 'action', method: 'POST', route: `action:${h.name}` });
+        }
+    }
+    return { sf, locals, endpoints };
+}
+
+function globToRegExp(glob) {
+    return new RegExp('^' + glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*\*/g, '\u0000').replace(/\*/g, '[^/]*').replace(/\u0000/g, '.*') + '$');
+}
+
+// ─── Scanner ───
+/**
+ * files: walkDir çıktısı (mutlak yollar)
+ * options: { guards: string[], publicRoutes: glob[] } — config.authGuard
+ * Dönüş: { issues, routes: [{ kind, method, route, file, line, status, guard }], middleware }
+ *   status: 'guarded' | 'middleware' | 'public' | 'no-data' | 'unguarded'
+ */
+function scanAuthGuards(files, projectRoot, options: AuthGuardConfig = {}) {
+    const guards = [...DEFAULT_GUARDS, ...(options.guards || [])];
+    const publicRoutes = (options.publicRoutes || []).map(globToRegExp);
+    const middleware = loadMiddleware(projectRoot, files, guards);
+    const routes = [];
+    const issues = [];
+
+    for (const filePath of files) {
+        const rel = path.relative(projectRoot, filePath).replace(/\\/g, '/');
+        let discovered;
+        try {
+            discovered = discoverEndpoints(filePath, rel, readSource(filePath));
+        } catch {
+            continue;
+        }
+        if (!discovered) continue;
+        const { sf, locals, endpoints } = discovered;
+
+        for (const endpoint of endpoints) {
+            const line = sf.getLineAndCharacterOfPosition(endpoint.node.getStart(sf)).line + 1;
+            const { guard, access } = endpoint.fn ? analyzeHandler(endpoint.fn, sf, locals, guards) : { guard: null, access: null };
+            const wrapped = endpoint.wrapper && guards.includes(endpoint.wrapper);
+            const coveredByMiddleware = endpoint.kind !== 'action' && middleware && middleware.guarded && middleware.covers(endpoint.route);
+
+            let status;
+            if (wrapped || (guard && (!access || guard.line <= access.line))) status = 'guarded';
+            else if (publicRoutes.some(re => re.test(endpoint.route))) status = 'public';
+            else if (coveredByMiddleware) status = 'middleware';
+            else if (!access) status = 'no-data';
+            else status = 'unguarded';
+
+            routes.push({
+                kind: endpoint.kind, method: endpoint.method, route: endpoint.route, file: rel, line, status,
+                guard: wrapped ? endpoint.wrapper : status === 'middleware' ? middleware.file : guard?.name,
+            });
+            if (status !== 'unguarded') continue;
+
+            const late = guard && access && guard.line > access.line;
+            const label = endpoint.kind === 'action' ? `Server Action '${endpoint.route.substring('action:'.length)}'` : `${endpoint.method === '*' ? '' : endpoint.method + ' '}${endpoint.route}`;
+            const severity = endpoint.kind === 'action' || endpoint.method === '*' || MUTATING_METHODS.includes(endpoint.method) ? 'critical' : 'warning';
+            const ruleId = late ? 'auth-guard/guard-after-access' : endpoint.kind === 'action' ? 'auth-guard/unguarded-action' : 'auth-guard/unguarded-handler';
+            issues.push({
+                severity, category: 'auth-guard', ruleId,
+                ...ruleText(ruleId, {
+                    label,
+                    action: endpoint.kind === 'action',
+                    access: access.name, accessLine: access.line,
+                    guard: guard?.name, guardLine: guard?.line,
+                    guards: guards.slice(0, 4).join(', '),
+                    middleware: middleware && middleware.guarded && endpoint.kind !== 'action' ? middleware.file : null,
+                }),
+                file: rel, line: access.line,
+                route: endpoint.route,
+                stableContext: `${endpoint.method} ${endpoint.route}`,
+            });
+        }
+    }
+
+    return { issues, routes, middleware };
+}
+
+module.exports = {
+    MIDDLEWARE_FILES,
+    ROUTE_FILE,
+    PAGES_API_FILE,
+    matcherToRegExp,
+    routePath,
+    scanAuthGuards,
+};
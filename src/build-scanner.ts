@@ -0,0 +1,251 @@
+const path = require('path');
+const fs = require('fs');
+const { SIGNATURES, classifyValue, maskSecret, secretDigest } = require('./secret-detector');
+const { t, ruleText } = require('./i18n');
+const { fingerprintIssue } = require('./suppressions');
+
+const STATIC_DIR = path.join('.next', 'static');
+const MIN_SECRET_LENGTH = 8;
+const MAX_HITS_PER_FILE = 20;
+const JWT_IN_TEXT = /eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]+/g;
+const B64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// ─── Source Map (v3) ───
+function decodeVLQ(segment) {
+    const values = [];
+    let value = 0;
+    let shift = 0;
+    for (const ch of segment) {
+        const digit = B64.indexOf(ch);
+        if (digit === -1) break;
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+            shift += 5;
+        } else {
+            values.push(value & 1 ? -(value >> 1) : value >> 1);
+            value = 0;
+            shift = 0;
+        }
+    }
+    return values;
+}
+
+// Dönüş: satır başına [genCol, sourceIndex, origLine, origCol] segmentleri
+function decodeMappings(mappings) {
+    const lines = [];
+    let sourceIndex = 0, origLine = 0, origCol = 0;
+    for (const lineText of mappings.split(';')) {
+        const segments = [];
+        let genCol = 0;
+        for (const raw of lineText.split(',')) {
+            if (!raw) continue;
+            const v = decodeVLQ(raw);
+            genCol += v[0];
+            if (v.length >= 4) {
+                sourceIndex += v[1];
+                origLine += v[2];
+                origCol += v[3];
+                segments.push([genCol, sourceIndex, origLine, origCol]);
+            }
+        }
+        lines.push(segments);
+    }
+    return lines;
+}
+
+// webpack://_N_E/./src/lib/shared.ts?1a2b → src/lib/shared.ts
+function normalizeSourcePath(source) {
+    return String(source)
+        .replace(/^webpack:\/\/[^/]*\//, '')
+        .replace(/^(?:\.\/)+/, '')
+        .replace(/\?.*$/, '');
+}
+
+function loadSourceMap(jsPath, content) {
+    const ref = /\/\/[#@]\s*sourceMappingURL=([^\s]+)\s*$/.exec(content);
+    const candidates = [];
+    if (ref && !ref[1].startsWith('data:')) candidates.push(path.join(path.dirname(jsPath), ref[1]));
+    candidates.push(`${jsPath}.map`);
+    for (const candidate of candidates) {
+        try {
+            const map = JSON.parse(fs.readFileSync(candidate, 'utf-8'));
+            if (map && map.mappings !== undefined) return { map, lines: null };
+        } catch { }
+    }
+    return null;
+}
+
+function originalPosition(sourceMap, line, column) {
+    if (!sourceMap.lines) sourceMap.lines = decodeMappings(sourceMap.map.mappings || '');
+    const segments = sourceMap.lines[line - 1] || [];
+    let best = null;
+    for (const seg of segments) {
+        if (seg[0] > column) break;
+        best = seg;
+    }
+    if (!best) return null;
+    return { source: normalizeSourcePath(sourceMap.map.sources[best[1]]), line: best[2] + 1 };
+}
+
+// ─── Helpers ───
+function lineStarts(text) {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) if (text[i] === '\n') starts.push(i + 1);
+    return starts;
+}
+
+function positionAt(starts, index) {
+    let lo = 0, hi = starts.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (starts[mid] <= index) lo = mid; else hi = mid - 1;
+    }
+    return { line: lo + 1, column: index - starts[lo] };
+}
+
+function walkFiles(dir, predicate) {
+    const results = [];
+    try {
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            const full = path.join(dir, entry.name);
+            if (entry.isDirectory()) results.push(...walkFiles(full, predicate));
+            else if (entry.isFile() && predicate(entry.name)) results.push(full);
+        }
+    } catch { }
+    return results;
+}
+
+// ─── Needles ───
+// Sunucu tarafı env değerleri; aynı değer bir NEXT_PUBLIC_ değişkeninde de varsa kasıtlı paylaşılmıştır
+function collectEnvNeedles(envEntries) {
+    const publicValues = new Set(envEntries.filter(e => e.key.startsWith('NEXT_PUBLIC_')).map(e => e.value));
+    const needles = new Map();
+    for (const entry of envEntries) {
+        if (entry.key.startsWith('NEXT_PUBLIC_')) continue;
+        const value = entry.value;
+        if (!value || value.length < MIN_SECRET_LENGTH || publicValues.has(value)) continue;
+        if (/^(true|false|\d+|development|production|test|localhost)$/i.test(value)) continue;
+        if (!needles.has(value)) needles.set(value, entry);
+    }
+    return needles;
+}
+
+function findAll(text, needle, limit) {
+    const hits = [];
+    let idx = text.indexOf(needle);
+    while (idx !== -1 && hits.length < limit) {
+        hits.push(idx);
+        idx = text.indexOf(needle, idx + needle.length);
+    }
+    return hits;
+}
+
+// Dönüş: [{ index, value, ruleId, label, key? }]
+function findSecrets(text, needles) {
+    const hits = [];
+    for (const [value, entry] of needles) {
+        for (const index of findAll(text, value, MAX_HITS_PER_FILE)) {
+            hits.push({ index, value, ruleId: 'build-leak/env-value', label: t('build.envValue', { key: entry.key }), key: entry.key });
+        }
+    }
+    // Env değeri olarak zaten bulunan konumları imza eşleşmeleri tekrar raporlamaz
+    const covered = new Set(hits.map(h => h.index));
+    for (const sig of SIGNATURES) {
+        const re = new RegExp(sig.regex.source, 'g');
+        let m;
+        while ((m = re.exec(text)) !== null && hits.length < MAX_HITS_PER_FILE * 4) {
+            if (sig.severity !== 'critical' || covered.has(m.index)) continue;
+            hits.push({ index: m.index, value: m[0], ruleId: `build-leak/${sig.id}`, label: sig.provider });
+        }
+    }
+    let m;
+    const jwtRe = new RegExp(JWT_IN_TEXT.source, 'g');
+    while ((m = jwtRe.exec(text)) !== null) {
+        const hit = classifyValue(m[0]);
+        if (hit && hit.ruleId === 'secret-value/service-role-jwt' && !covered.has(m.index)) {
+            hits.push({ index: m.index, value: m[0], ruleId: 'build-leak/service-role-jwt', label: hit.label });
+        }
+    }
+    return hits;
+}
+
+// ─── Scanner ───
+/**
+ * .next/static altındaki istemci bundle'larında ve source map'lerde sunucu sırlarını arar.
+ * Her bulgu mümkünse .map dosyası üzerinden orijinal kaynak dosyaya izlenir.
+ */
+function scanBuildArtifacts(projectRoot, envEntries) {
+    const issues = [];
+    const staticDir = path.join(projectRoot, STATIC_DIR);
+
+    if (!fs.existsSync(staticDir)) {
+        issues.push({
+            severity: 'warning', category: 'build-leak', ruleId: 'build-leak/no-build',
+            ...ruleText('build-leak/no-build'),
+        });
+        return { issues, filesScanned: 0 };
+    }
+
+    const needles = collectEnvNeedles(envEntries);
+    const seen = new Set();
+    const jsFiles = walkFiles(staticDir, name => /\.(js|mjs)$/.test(name));
+    const mapFiles = walkFiles(staticDir, name => name.endsWith('.map'));
+
+    const report = (hit, chunkRel, chunkLine, origin) => {
+        const dedupeKey = `${hit.ruleId}|${hit.key || hit.value}|${origin ? origin.source : chunkRel}`;
+        if (seen.has(dedupeKey)) return;
+        seen.add(dedupeKey);
+        // Chunk adları içerik hash'i taşır (page-3f2a1b.js); fingerprint sadece anahtar / imza, orijinal dosya ve değer özetinden hesaplanır
+        const stable = { ruleId: hit.ruleId, file: origin ? origin.source : STATIC_DIR.replace(/\\/g, '/'), key: hit.key, stableContext: secretDigest(hit.value) };
+        issues.push({
+            severity: 'critical', category: 'build-leak', ruleId: hit.ruleId,
+            ...ruleText(hit.ruleId, { label: hit.label, source: origin ? origin.source : null }),
+            file: origin ? origin.source : chunkRel,
+            line: origin ? origin.line : chunkLine,
+            key: hit.key,
+            context: `${chunkRel}${chunkLine ? `:${chunkLine}` : ''} → ${maskSecret(hit.value)}`,
+            fingerprint: fingerprintIssue(stable),
+        });
+    };
+
+    for (const jsPath of jsFiles) {
+        let content;
+        try { content = fs.readFileSync(jsPath, 'utf-8'); } catch { continue; }
+        const hits = findSecrets(content, needles);
+        if (hits.length === 0) continue;
+
+        const chunkRel = path.relative(projectRoot, jsPath).replace(/\\/g, '/');
+        const starts = lineStarts(content);
+        const sourceMap = loadSourceMap(jsPath, content);
+        for (const hit of hits) {
+            const pos = positionAt(starts, hit.index);
+            const origin = sourceMap ? originalPosition(sourceMap, pos.line, pos.column) : null;
+            report(hit, chunkRel, pos.line, origin);
+        }
+    }
+
+    // .map dosyalarındaki sourcesContent doğrudan orijinal kaynağı içerir
+    for (const mapPath of mapFiles) {
+        let map;
+        try { map = JSON.parse(fs.readFileSync(mapPath, 'utf-8')); } catch { continue; }
+        const chunkRel = path.relative(projectRoot, mapPath).replace(/\\/g, '/');
+        (map.sourcesContent || []).forEach((sourceContent, i) => {
+            if (!sourceContent) return;
+            const hits = findSecrets(sourceContent, needles);
+            if (hits.length === 0) return;
+            const starts = lineStarts(sourceContent);
+            for (const hit of hits) {
+                const pos = positionAt(starts, hit.index);
+                report(hit, chunkRel, null, { source: normalizeSourcePath(map.sources[i]), line: pos.line });
+            }
+        });
+    }
+
+    return { issues, filesScanned: jsFiles.length + mapFiles.length };
+}
+
+module.exports = {
+    decodeMappings,
+    originalPosition,
+    scanBuildArtifacts,
+};
@@ -0,0 +1,69 @@
+import type { VibeSecurityConfig, XSSScannerConfig } from './types';
+const { SINK_RULES, analyzeSource: analyzeSQLFlows } = require('./sql-analyzer');
+const { XSS_SINK_RULES, analyzeSource: analyzeXSSFlows } = require('./xss-analyzer');
+
+// ─── API Key Guardian ───
+// env: NEXT_PUBLIC_ anahtarı (kritik) | kod: "use client" dosyasında referans (uyarı)
+// Metinler: locales/*.ts rules['api-key/<id>'] (m.kind === 'env' | 'code')
+function apiKeyRule({ id, envKeys, codePatterns }) {
+    return {
+        id: `api-key/${id}`,
+        severity: 'critical',
+        codeSeverity: 'warning',
+        scope: 'client',
+        envKeys,
+        codePatterns,
+    };
+}
+
+const API_KEY_RULES = [
+    apiKeyRule({ id: 'serper', envKeys: ['SERPER', 'SERP_API'], codePatterns: [/serper\.dev/i, /SERPER_API_KEY/, /SERP_API_KEY/] }),
+    apiKeyRule({ id: 'openai', envKeys: ['OPENAI_API_KEY', 'OPENAI_SECRET'], codePatterns: [/OPENAI_API_KEY/, /openai\.com\/v1/i, /new\s+OpenAI\s*\(/] }),
+    apiKeyRule({ id: 'anthropic', envKeys: ['ANTHROPIC_API_KEY', 'CLAUDE_API_KEY'], codePatterns: [/ANTHROPIC_API_KEY/, /anthropic\.com/i] }),
+    apiKeyRule({ id: 'google-ai', envKeys: ['GOOGLE_API_KEY', 'GEMINI_API_KEY'], codePatterns: [/GOOGLE_API_KEY/, /GEMINI_API_KEY/, /generativelanguage\.googleapis\.com/i] }),
+];
+
+// ─── SQL Injection ───
+// Tüm sink kuralları dosya başına tek bir akış analizini paylaşır (bkz. sql-analyzer.ts)
+// Metinler: locales/*.ts rules['sql-injection/<sink>']
+const SQL_RULES = SINK_RULES.map(sink => ({
+    id: `sql-injection/${sink}`,
+    severity: 'critical',
+    analyze(ctx) {
+        const findings = ctx.cached('sql-flows', () => analyzeSQLFlows(ctx.filePath, ctx.content));
+        for (const finding of findings) {
+            if (finding.rule !== sink) continue;
+            ctx.report({ line: finding.line, context: finding.path.join(' → '), stableContext: finding.code });
+        }
+    },
+}));
+
+// ─── XSS / Open Redirect ───
+// Sadece React bileşenleri; önem derecesi kaynağa göre akış analizinden gelir (bkz. xss-analyzer.ts)
+// Metinler: locales/*.ts rules['xss/<sink>']
+function xssRules(options: XSSScannerConfig = {}) {
+    return XSS_SINK_RULES.map(sink => ({
+        id: `xss/${sink}`,
+        severity: sink === 'dangerous-html' || sink === 'eval' ? 'critical' : 'warning',
+        files: ['**/*.tsx', '**/*.jsx'],
+        analyze(ctx) {
+            const findings = ctx.cached('xss-flows', () => analyzeXSSFlows(ctx.filePath, ctx.content, options));
+            for (const finding of findings) {
+                if (finding.rule !== sink) continue;
+                ctx.report({ line: finding.line, severity: finding.severity, source: finding.source, context: finding.path.join(' → '), stableContext: finding.code });
+            }
+        },
+    }));
+}
+
+/**
+ * Yerleşik kurallar; XSS sanitizer allowlist'i config.xssScanner'dan gelir.
+ * Dönüş: kural listesi (rule-engine.ts loadRules)
+ */
+function builtinRules(config: VibeSecurityConfig = {}) {
+    return [...SQL_RULES, ...xssRules(config && config.xssScanner), ...API_KEY_RULES];
+}
+
+module.exports = {
+    builtinRules,
+};
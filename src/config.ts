@@ -0,0 +1,248 @@
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const { pathToFileURL } = require('url');
+const ts = require('typescript');
+const { t, LOCALES } = require('./i18n');
+
+// Aranma sırası; ilk bulunan dosya kullanılır, hiçbiri yoksa package.json#vibeSec
+const CONFIG_FILES = [
+    'vibe-security.config.js',
+    'vibe-security.config.cjs',
+    'vibe-security.config.mjs',
+    'vibe-security.config.ts',
+];
+const PACKAGE_KEY = 'vibeSec';
+
+// TypeScript CommonJS çıktısında import() require()'a çevrilir; .mjs için gerçek dinamik import gerekir
+const dynamicImport = new Function('specifier', 'return import(specifier)');
+
+// ─── Schema ───
+// Tip tanımları: 'boolean' | 'string' | 'number' | 'object' | 'function' | { enum } | { arrayOf } | { shape }
+const SEVERITY = { enum: ['critical', 'warning', 'info'] };
+const STRINGS = { arrayOf: 'string' };
+
+const CONFIG_SCHEMA = {
+    shape: {
+        enabled: 'boolean',
+        locale: { enum: LOCALES },
+        // Plugin ve proje çevirileri: { en: { rules: { 'kural/id': { title, message, fix } } } } (bkz. i18n.ts)
+        messages: 'object',
+        secretScanner: {
+            shape: {
+                envFiles: STRINGS,
+                sensitivePatterns: { arrayOf: { shape: { pattern: 'string', severity: SEVERITY, message: 'string' }, required: ['pattern'] } },
+            },
+        },
+        rlsScanner: {
+            shape: {
+                enabled: 'boolean',
+                scanDirs: STRINGS,
+                extensions: STRINGS,
+                excludeDirs: STRINGS,
+                supabaseUrl: 'string',
+                supabaseServiceRoleKey: 'string',
+                whitelistedTables: STRINGS,
+                exposedSchemas: STRINGS,
+            },
+        },
+        rlsTester: { shape: { databaseUrl: 'string', allowedHosts: STRINGS } },
+        gitScanner: { shape: { history: 'boolean', maxCommits: 'number' } },
+        authGuard: { shape: { enabled: 'boolean', guards: STRINGS, publicRoutes: STRINGS } },
+        nextConfig: { shape: { enabled: 'boolean', externalHeaders: STRINGS } },
+        edgeFunctions: { shape: { enabled: 'boolean', dir: 'string', guards: STRINGS } },
+        xssScanner: { shape: { sanitizers: STRINGS } },
+        // Kural alanları rule-engine.ts normalizeRule ile ayrıca doğrulanır
+        rules: { arrayOf: 'object' },
+        plugins: STRINGS,
+        reporter: {
+            shape: {
+                terminal: 'boolean',
+                browserOverlay: 'boolean',
+                overlayAutoCloseMs: 'number',
+                soundAlert: 'boolean',
+                overlayPort: 'number',
+                editor: 'string',
+            },
+        },
+        watcher: { shape: { debounceMs: 'number', additionalWatchPatterns: STRINGS } },
+        history: { shape: { enabled: 'boolean', maxRuns: 'number' } },
+    },
+};
+
+// ─── Validation ───
+function typeOf(value) {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function describe(schema) {
+    if (typeof schema === 'string') return schema;
+    if (schema.enum) return schema.enum.map(v => `'${v}'`).join(' | ');
+    if (schema.arrayOf) return `${describe(schema.arrayOf)}[]`;
+    return 'object';
+}
+
+function distance(a, b) {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let prev = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const current = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1));
+            prev = current;
+        }
+    }
+    return row[b.length];
+}
+
+// rlsScaner → rlsScanner; uzak eşleşmeler önerilmez
+function suggest(key, candidates) {
+    let best = null;
+    for (const candidate of candidates) {
+        const d = distance(key, candidate);
+        if (d <= Math.max(2, Math.floor(candidate.length / 4)) && (!best || d < best.d)) best = { candidate, d };
+    }
+    return best ? best.candidate : null;
+}
+
+function validateValue(value, schema, at, errors) {
+    if (typeof schema === 'string') {
+        if (schema === 'object' ? typeOf(value) !== 'object' : typeOf(value) !== schema) {
+            errors.push(t('config.expected', { at, expected: schema, actual: typeOf(value) }));
+        }
+        return;
+    }
+    if (schema.enum) {
+        if (!schema.enum.includes(value)) errors.push(t('config.expected', { at, expected: describe(schema), actual: JSON.stringify(value) }));
+        return;
+    }
+    if (schema.arrayOf) {
+        if (!Array.isArray(value)) {
+            errors.push(t('config.expected', { at, expected: describe(schema), actual: typeOf(value) }));
+            return;
+        }
+        value.forEach((item, idx) => validateValue(item, schema.arrayOf, `${at}[${idx}]`, errors));
+        return;
+    }
+
+    if (typeOf(value) !== 'object') {
+        errors.push(t('config.expected', { at: at || 'config', expected: t('config.object'), actual: typeOf(value) }));
+        return;
+    }
+    const known = Object.keys(schema.shape);
+    for (const [key, child] of Object.entries(value)) {
+        const keyPath = at ? `${at}.${key}` : key;
+        if (!schema.shape[key]) {
+            const hint = suggest(key, known);
+            errors.push(hint ? t('config.unknownKeyHint', { key: keyPath, hint }) : t('config.unknownKey', { key: keyPath }));
+            continue;
+        }
+        // undefined değerler (ör. process.env.X) eksik anahtar gibi davranır
+        if (child !== undefined) validateValue(child, schema.shape[key], keyPath, errors);
+    }
+    for (const key of schema.required || []) {
+        if (value[key] === undefined) errors.push(t('config.required', { key: `${at ? `${at}.` : ''}${key}` }));
+    }
+}
+
+/**
+ * Config nesnesini şemaya göre doğrular.
+ * Dönüş: okunabilir hata satırları (ör. "rlsScaner: bilinmeyen anahtar ("rlsScanner" mı demek istediniz?)")
+ */
+function validateConfig(config) {
+    const errors = [];
+    validateValue(config, CONFIG_SCHEMA, '', errors);
+    return errors;
+}
+
+// Sadece tip çıkarımı için: vibe-security.config.ts içinde export default defineConfig({ ... })
+function defineConfig(config) {
+    return config;
+}
+
+// ─── Loading ───
+function findConfigFile(projectRoot) {
+    for (const name of CONFIG_FILES) {
+        const filePath = path.join(projectRoot, name);
+        if (fs.existsSync(filePath)) return filePath;
+    }
+    const pkgPath = path.join(projectRoot, 'package.json');
+    if (fs.existsSync(pkgPath)) {
+        try {
+            if (JSON.parse(fs.readFileSync(pkgPath, 'utf-8'))[PACKAGE_KEY]) return pkgPath;
+        } catch { }
+    }
+    return null;
+}
+
+function unwrapDefault(mod) {
+    return mod && mod.__esModule && mod.default ? mod.default : mod;
+}
+
+// .ts config TypeScript derleyicisiyle CommonJS'e çevrilir ve bellekte çalıştırılır (ts-node gerekmez)
+function requireTypeScript(filePath) {
+    const source = fs.readFileSync(filePath, 'utf-8');
+    const { outputText } = ts.transpileModule(source, {
+        fileName: filePath,
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    });
+    const mod = new Module(filePath, module);
+    mod.filename = filePath;
+    mod.paths = Module._nodeModulePaths(path.dirname(filePath));
+    mod._compile(outputText, filePath);
+    return mod.exports;
+}
+
+function readConfigSync(filePath) {
+    if (path.basename(filePath) === 'package.json') {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8'))[PACKAGE_KEY];
+    }
+    if (filePath.endsWith('.ts')) return unwrapDefault(requireTypeScript(filePath));
+    // İzleme modunda değişen config'in yeniden okunması için önbellek temizlenir
+    delete require.cache[require.resolve(filePath)];
+    return unwrapDefault(require(filePath));
+}
+
+function checked(config, filePath, projectRoot) {
+    const errors = validateConfig(config);
+    if (errors.length > 0) {
+        throw new Error(`${t('config.invalidFile', { file: path.relative(projectRoot, filePath) })}\n${errors.map(e => `  - ${e}`).join('\n')}`);
+    }
+    return config;
+}
+
+/**
+ * vibe-security.config.{js,cjs,mjs,ts} veya package.json#vibeSec okunur ve doğrulanır.
+ * Dönüş: { config, file } | null (config yoksa). Geçersiz config'de hata fırlatır.
+ */
+async function loadConfig(projectRoot) {
+    const filePath = findConfigFile(projectRoot);
+    if (!filePath) return null;
+    let config;
+    if (filePath.endsWith('.mjs')) {
+        const stamp = fs.statSync(filePath).mtimeMs;
+        config = (await dynamicImport(`${pathToFileURL(filePath).href}?t=${stamp}`)).default;
+    } else {
+        config = readConfigSync(filePath);
+    }
+    return { config: checked(config, filePath, projectRoot), file: filePath };
+}
+
+// next.config.js gibi senkron bağlamlar için; .mjs config burada okunamaz
+function loadConfigSync(projectRoot) {
+    const filePath = findConfigFile(projectRoot);
+    if (!filePath || filePath.endsWith('.mjs')) return null;
+    return { config: checked(readConfigSync(filePath), filePath, projectRoot), file: filePath };
+}
+
+module.exports = {
+    CONFIG_FILES,
+    validateConfig,
+    defineConfig,
+    findConfigFile,
+    loadConfig,
+    loadConfigSync,
+};
@@ -0,0 +1,279 @@
+import type { Client } from 'pg';
+import type { RLSScannerConfig } from './types';
+const { generateViewRecipe, generateFunctionRecipe, generateBucketRecipe, generateSchemaRecipe } = require('./rls-recipes');
+const { t, ruleText } = require('./i18n');
+
+const API_ROLES = ['anon', 'authenticated'];
+// PostgREST'in varsayılan olarak sunduğu şemalar; bunların dışındakiler "ek şema" sayılır
+const DEFAULT_SCHEMAS = ['public', 'graphql_public'];
+const WRITE_COMMANDS = ['INSERT', 'UPDATE', 'DELETE', 'ALL'];
+const LOCATION = { file: '(direct db)' };
+
+function quoteList(values) {
+    return values.map(v => `'${String(v).replace(/'/g, "''")}'`).join(', ');
+}
+
+// has_*_privilege() var olmayan rol adında hata verir; düz PostgreSQL'de anon/authenticated olmayabilir
+async function existingApiRoles(client) {
+    const res = await client.query(`SELECT rolname FROM pg_roles WHERE rolname IN (${quoteList(API_ROLES)});`);
+    return res.rows.map(r => r.rolname);
+}
+
+// Rol başına has_*_privilege sütunları: anon_ok, authenticated_ok
+function privilegeColumns(roles, fn, objectExpr, privilege) {
+    if (roles.length === 0) return `false as anon_ok, false as authenticated_ok`;
+    return API_ROLES.map(role => roles.includes(role)
+        ? `${fn}('${role}', ${objectExpr}, '${privilege}') as ${role}_ok`
+        : `false as ${role}_ok`).join(',\n                ');
+}
+
+function grantees(row) {
+    return API_ROLES.filter(role => row[`${role}_ok`]);
+}
+
+// ─── Exposed Schemas ───
+// PostgREST şemaları authenticator rolünün pgrst.db_schemas ayarında tutulur (Supabase)
+async function loadExposedSchemas(client, configured) {
+    const schemas = new Set([...DEFAULT_SCHEMAS, ...(configured || [])]);
+    try {
+        const res = await client.query(`SELECT unnest(rolconfig) as setting FROM pg_roles WHERE rolname = 'authenticator';`);
+        for (const row of res.rows) {
+            const m = /^pgrst\.db_schemas=(.*)$/.exec(row.setting || '');
+            if (m) m[1].split(',').map(s => s.trim()).filter(Boolean).forEach(s => schemas.add(s));
+        }
+    } catch { }
+    return [...schemas];
+}
+
+// ─── Views ───
+async function scanViews(client, schemas, roles) {
+    const res = await client.query(`
+        SELECT
+            vn.nspname as view_schema,
+            v.relname as view_name,
+            array_agg(DISTINCT tn.nspname || '.' || t.relname) as tables,
+            ${privilegeColumns(roles, 'has_table_privilege', 'v.oid', 'SELECT')}
+        FROM pg_class v
+        JOIN pg_namespace vn ON vn.oid = v.relnamespace
+        JOIN pg_rewrite r ON r.ev_class = v.oid
+        JOIN pg_depend d ON d.objid = r.oid AND d.classid = 'pg_rewrite'::regclass AND d.refclassid = 'pg_class'::regclass
+        JOIN pg_class t ON t.oid = d.refobjid AND t.oid <> v.oid
+        JOIN pg_namespace tn ON tn.oid = t.relnamespace
+        WHERE v.relkind IN ('v', 'm')
+        AND vn.nspname = ANY($1)
+        AND t.relkind IN ('r', 'p')
+        AND t.relrowsecurity
+        AND NOT EXISTS (
+            SELECT 1 FROM unnest(coalesce(v.reloptions, '{}')) o
+            WHERE lower(o) IN ('security_invoker=true', 'security_invoker=on', 'security_invoker=1')
+        )
+        GROUP BY vn.nspname, v.relname, v.oid;
+    `, [schemas]);
+
+    const issues = [];
+    for (const row of res.rows) {
+        const exposedTo = grantees(row);
+        if (exposedTo.length === 0) continue;
+        const view = { schema: row.view_schema, name: row.view_name, tables: row.tables };
+        const anon = exposedTo.includes('anon');
+        issues.push({
+            ...LOCATION,
+            severity: anon ? 'critical' : 'warning',
+            category: 'db-surface', ruleId: 'db-surface/definer-view',
+            ...ruleText('db-surface/definer-view', { icon: anon ? '🔴' : '🟡', view: `${view.schema}.${view.name}`, tables: view.tables.join(', '), roles: exposedTo.join('/') }),
+            object: `${view.schema}.${view.name}`,
+            context: t('dbSurface.sourceTables', { tables: view.tables.join(', ') }),
+            stableContext: view.tables.join(', '),
+            recipe: generateViewRecipe(view),
+        });
+    }
+    return issues;
+}
+
+// ─── Functions ───
+// Extension'lara ait fonksiyonlar (pgcrypto, pg_graphql ...) atlanır.
+// Trigger fonksiyonları (ör. Supabase handle_new_user) PostgREST ile çağrılamaz; sadece search_path kontrolüne girer.
+async function scanFunctions(client, schemas, roles) {
+    const res = await client.query(`
+        SELECT
+            n.nspname as schema_name,
+            p.proname as function_name,
+            pg_get_function_identity_arguments(p.oid) as args,
+            p.prosecdef as security_definer,
+            coalesce(array_to_string(p.proconfig, ','), '') as config,
+            p.prorettype IN ('trigger'::regtype, 'event_trigger'::regtype) as is_trigger,
+            ${privilegeColumns(roles, 'has_function_privilege', 'p.oid', 'EXECUTE')}
+        FROM pg_proc p
+        JOIN pg_namespace n ON n.oid = p.pronamespace
+        WHERE n.nspname = ANY($1)
+        AND p.prokind = 'f'
+        AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = p.oid AND d.deptype = 'e');
+    `, [schemas]);
+
+    const issues = [];
+    for (const row of res.rows) {
+        const fn = { schema: row.schema_name, name: row.function_name, args: row.args };
+        const signature = `${fn.schema}.${fn.name}(${fn.args})`;
+        const exposedTo = grantees(row);
+        const mutableSearchPath = !/(^|,)search_path=/.test(row.config);
+        const revoke = row.security_definer && !row.is_trigger && exposedTo.length > 0 ? (exposedTo.includes('anon') ? 'anon' : 'all') : null;
+        const recipe = generateFunctionRecipe(fn, { revoke, searchPath: mutableSearchPath });
+        const base = { ...LOCATION, category: 'db-surface', object: signature, rpc: row.is_trigger ? undefined : fn.name, recipe };
+
+        if (revoke) {
+            issues.push({
+                ...base,
+                severity: exposedTo.includes('anon') ? 'critical' : 'warning',
+                ruleId: 'db-surface/definer-function',
+                ...ruleText('db-surface/definer-function', { icon: exposedTo.includes('anon') ? '🔴' : '🟡', signature, name: fn.name, roles: exposedTo.join('/') }),
+            });
+        }
+        if (mutableSearchPath) {
+            issues.push({
+                ...base,
+                severity: row.security_definer ? 'warning' : 'info',
+                ruleId: 'db-surface/mutable-search-path',
+                ...ruleText('db-surface/mutable-search-path', { icon: row.security_definer ? '🟡' : '🔵', signature, definer: row.security_definer }),
+            });
+        }
+    }
+    return issues;
+}
+
+// ─── Storage ───
+async function scanStorage(client) {
+    const exists = await client.query(`SELECT to_regclass('storage.buckets') IS NOT NULL as buckets, to_regclass('storage.objects') IS NOT NULL as objects;`);
+    if (!exists.rows[0]?.buckets || !exists.rows[0]?.objects) return [];
+
+    const bucketRes = await client.query(`SELECT id, public FROM storage.buckets ORDER BY id;`);
+    const rlsRes = await client.query(`SELECT relrowsecurity as rls_enabled FROM pg_class WHERE oid = 'storage.objects'::regclass;`);
+    const policyRes = await client.query(`
+        SELECT policyname as policy_name, cmd, array_to_string(roles, ',') as roles, qual, with_check
+        FROM pg_policies
+        WHERE schemaname = 'storage' AND tablename = 'objects';
+    `);
+    const policies = policyRes.rows;
+    const base = { ...LOCATION, category: 'db-surface' };
+    const issues = [];
+
+    if (!rlsRes.rows[0]?.rls_enabled) {
+        issues.push({
+            ...base,
+            severity: 'critical', ruleId: 'db-surface/storage-rls-disabled',
+            ...ruleText('db-surface/storage-rls-disabled'),
+        });
+    }
+
+    for (const policy of policies) {
+        const roles = String(policy.roles || 'public').split(',');
+        const bucketScoped = /bucket_id/.test(`${policy.qual || ''} ${policy.with_check || ''}`);
+        if (!WRITE_COMMANDS.includes(policy.cmd) || !roles.some(r => r === 'anon' || r === 'public') || bucketScoped) continue;
+        issues.push({
+            ...base,
+            severity: 'critical', ruleId: 'db-surface/storage-anon-write',
+            ...ruleText('db-surface/storage-anon-write', { policy: policy.policy_name, cmd: policy.cmd, roles: roles.join('/') }),
+            policy: policy.policy_name,
+            context: `"${policy.policy_name}" FOR ${policy.cmd} TO ${roles.join(', ')}${policy.qual ? ` USING (${policy.qual})` : ''}${policy.with_check ? ` WITH CHECK (${policy.with_check})` : ''}`,
+        });
+    }
+
+    for (const bucket of bucketRes.rows) {
+        const referenced = policies.some(p => `${p.qual || ''} ${p.with_check || ''}`.includes(`'${bucket.id}'`));
+        if (bucket.public) {
+            issues.push({
+                ...base,
+                severity: 'warning', ruleId: 'db-surface/public-bucket',
+                ...ruleText('db-surface/public-bucket', { bucket: bucket.id }),
+                object: `storage:${bucket.id}`,
+                recipe: generateBucketRecipe(bucket.id, { makePrivate: true, addPolicies: !referenced }),
+            });
+        } else if (!referenced) {
+            issues.push({
+                ...base,
+                severity: 'warning', ruleId: 'db-surface/bucket-no-policy',
+                ...ruleText('db-surface/bucket-no-policy', { bucket: bucket.id }),
+                object: `storage:${bucket.id}`,
+                recipe: generateBucketRecipe(bucket.id, { addPolicies: true }),
+            });
+        }
+    }
+    return issues;
+}
+
+// ─── Extra Schemas ───
+async function scanExposedSchemas(client, schemas, roles) {
+    const extra = schemas.filter(s => !DEFAULT_SCHEMAS.includes(s));
+    if (extra.length === 0) return [];
+
+    const res = await client.query(`
+        SELECT
+            n.nspname as schema_name,
+            c.relname as table_name,
+            ${privilegeColumns(roles, 'has_table_privilege', 'c.oid', 'SELECT')}
+        FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE n.nspname = ANY($1)
+        AND c.relkind IN ('r', 'p')
+        AND NOT c.relrowsecurity;
+    `, [extra]);
+
+    const bySchema = new Map();
+    for (const row of res.rows) {
+        if (grantees(row).length === 0) continue;
+        if (!bySchema.has(row.schema_name)) bySchema.set(row.schema_name, []);
+        bySchema.get(row.schema_name).push(row);
+    }
+
+    const issues = [];
+    for (const schema of extra) {
+        const rows = bySchema.get(schema) || [];
+        if (rows.length === 0) {
+            issues.push({
+                ...LOCATION,
+                severity: 'info', category: 'db-surface', ruleId: 'db-surface/exposed-schema',
+                ...ruleText('db-surface/exposed-schema', { schema }),
+                object: `schema:${schema}`,
+            });
+            continue;
+        }
+        const tables = rows.map(r => r.table_name);
+        const anon = rows.some(r => r.anon_ok);
+        issues.push({
+            ...LOCATION,
+            severity: anon ? 'critical' : 'warning',
+            category: 'db-surface', ruleId: 'db-surface/exposed-schema-table',
+            ...ruleText('db-surface/exposed-schema-table', { icon: anon ? '🔴' : '🟡', schema, count: tables.length, tables: `${tables.slice(0, 6).join(', ')}${tables.length > 6 ? ` (+${tables.length - 6})` : ''}` }),
+            object: `schema:${schema}`,
+            recipe: generateSchemaRecipe(schema, tables),
+        });
+    }
+    return issues;
+}
+
+// ─── Scanner ───
+/**
+ * scanRLS bağlantısı üzerinde tablo dışı RLS atlama yollarını denetler.
+ * options: { exposedSchemas } — config.rlsScanner.exposedSchemas (veritabanındaki pgrst.db_schemas ile birleşir)
+ * Her denetim ayrı çalışır; yetki / şema eksikliği (ör. storage yok) diğerlerini durdurmaz.
+ */
+async function scanDatabaseSurface(client: Client, options: Pick<RLSScannerConfig, 'exposedSchemas'> = {}) {
+    const roles = await existingApiRoles(client);
+    const schemas = await loadExposedSchemas(client, options.exposedSchemas);
+    const issues = [];
+    const checks = [
+        () => scanViews(client, schemas, roles),
+        () => scanFunctions(client, schemas, roles),
+        () => scanStorage(client),
+        () => scanExposedSchemas(client, schemas, roles),
+    ];
+    for (const check of checks) {
+        try {
+            issues.push(...await check());
+        } catch { }
+    }
+    return issues;
+}
+
+module.exports = {
+    scanDatabaseSurface,
+};
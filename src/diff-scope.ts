@@ -0,0 +1,86 @@
+import type { ScanOptions } from './types';
+const path = require('path');
+const { git, isGitRepo } = require('./git-scanner');
+const { t } = require('./i18n');
+
+// Yol tırnaklama kapalı: Türkçe karakterli dosya adları diff çıktısında olduğu gibi gelir
+const DIFF_ARGS = ['-c', 'core.quotePath=false', 'diff', '--relative', '--unified=0', '--no-color', '--no-ext-diff', '--diff-filter=ACMR'];
+
+// ─── Diff Parser ───
+/**
+ * git diff --unified=0 çıktısından dosya başına eklenen / değişen satırlar.
+ * Dönüş: Map<göreli yol, Set<satır>>
+ */
+function parseChangedLines(output) {
+    const changed = new Map();
+    let file = null;
+    for (const line of output.split('\n')) {
+        if (line.startsWith('+++ ')) {
+            file = line === '+++ /dev/null' ? null : line.replace(/^\+\+\+ b\//, '');
+            if (file && !changed.has(file)) changed.set(file, new Set());
+            continue;
+        }
+        const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+        if (!hunk || !file) continue;
+        const start = parseInt(hunk[1], 10);
+        const count = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+        for (let i = 0; i < count; i++) changed.get(file).add(start + i);
+    }
+    return changed;
+}
+
+function listFiles(projectRoot, args) {
+    return git(projectRoot, args).split('\0').filter(Boolean);
+}
+
+// ─── Scope ───
+/**
+ * --staged: index ↔ HEAD farkı; dosyalar commit edilecek hâliyle (git index) okunur.
+ * --since <ref>: ref ile HEAD'in ortak atası ↔ çalışma ağacı farkı + takip edilmeyen yeni dosyalar.
+ * Dönüş: { label, base, changed: Map<göreli yol, Set<satır> | null (tüm dosya)>, overlay: Map<mutlak yol, içerik | null> | null }
+ * --since bir tarihse ya da depo git değilse null (tarih sadece geçmiş taramasını sınırlar).
+ */
+function resolveDiffScope(projectRoot, options: Pick<ScanOptions, 'since' | 'staged'> = {}) {
+    if (!isGitRepo(projectRoot)) return null;
+
+    if (options.staged) {
+        const changed = parseChangedLines(git(projectRoot, [...DIFF_ARGS, '--cached']));
+        // Stage edilmemiş değişikliği olan dosyalar da index'ten okunur: import grafı commit edilecek hâli görür
+        const unstaged = listFiles(projectRoot, ['diff', '--relative', '--name-only', '-z']);
+        const overlay = new Map();
+        for (const rel of new Set([...changed.keys(), ...unstaged])) {
+            let content = null;
+            try { content = git(projectRoot, ['show', `:./${rel}`]); } catch { }
+            overlay.set(path.join(projectRoot, rel), content);
+        }
+        return { label: t('diff.staged'), base: 'index', changed, overlay };
+    }
+
+    if (!options.since) return null;
+    try {
+        git(projectRoot, ['rev-parse', '--verify', '--quiet', `${options.since}^{commit}`]);
+    } catch {
+        return null;
+    }
+    let base = options.since;
+    try { base = git(projectRoot, ['merge-base', options.since, 'HEAD']).trim() || base; } catch { }
+
+    const changed: Map<string, Set<number> | null> = parseChangedLines(git(projectRoot, [...DIFF_ARGS, base]));
+    for (const rel of listFiles(projectRoot, ['ls-files', '--others', '--exclude-standard', '-z'])) changed.set(rel, null);
+    return { label: options.since, base: base.substring(0, 8), changed, overlay: null };
+}
+
+// Dosyası değişmemiş bulgular ve değişmemiş satırlardaki bulgular elenir; satırı olmayan dosya bulguları kalır
+function inDiffScope(issue, scope) {
+    if (!issue.file) return false;
+    const file = issue.file.replace(/\\/g, '/');
+    if (!scope.changed.has(file)) return false;
+    const lines = scope.changed.get(file);
+    return !lines || !issue.line || lines.has(issue.line);
+}
+
+module.exports = {
+    parseChangedLines,
+    resolveDiffScope,
+    inDiffScope,
+};
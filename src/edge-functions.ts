@@ -0,0 +1,329 @@
+import type { EdgeFunctionsConfig } from './types';
+const path = require('path');
+const ts = require('typescript');
+const { readSource } = require('./source-reader');
+const { createResolver } = require('./module-graph');
+const { ruleText } = require('./i18n');
+
+const FUNCTIONS_DIR = path.join('supabase', 'functions');
+const SUPABASE_CONFIG = path.join('supabase', 'config.toml');
+const SERVICE_ROLE = /service_?role/i;
+// Edge Function ortamında her zaman tanımlı ve istemciye açık değerler
+const PUBLIC_ENV = ['SUPABASE_URL', 'SUPABASE_ANON_KEY', 'SUPABASE_PUBLISHABLE_KEY', 'SUPABASE_PUBLISHABLE_KEYS'];
+const SECRET_ENV = /secret|private|passw|token|service_?role|key$|database_url|db_url/i;
+// Çağıranı doğrulayan çağrılar: Supabase Auth, JWT kütüphaneleri (jose, djwt), webhook imza doğrulaması
+const DEFAULT_GUARDS = ['getUser', 'getClaims', 'jwtVerify', 'verify', 'verifyJwt', 'constructEvent', 'constructEventAsync', 'verifySignature', 'verifyWebhook', 'timingSafeEqual'];
+// Deno.serve((req) => ...), serve(handler), Hono / Oak: app.post('/x', (c) => ...)
+const SERVE_FUNCTIONS = ['serve', 'listen'];
+const RESPONSE_METHODS = ['json', 'text', 'body', 'send'];
+
+// ─── Helpers ───
+function scriptKindFor(fileName) {
+    if (fileName.endsWith('.tsx')) return ts.ScriptKind.TSX;
+    if (fileName.endsWith('.jsx')) return ts.ScriptKind.JSX;
+    if (/\.[mc]?js$/.test(fileName)) return ts.ScriptKind.JS;
+    return ts.ScriptKind.TS;
+}
+
+function calleeName(call) {
+    const expr = call.expression;
+    if (ts.isIdentifier(expr)) return expr.text;
+    if (ts.isPropertyAccessExpression(expr)) return expr.name.text;
+    return '';
+}
+
+function lineOf(sf, node) {
+    return sf.getLineAndCharacterOfPosition(node.getStart(sf)).line + 1;
+}
+
+function identifiers(node) {
+    const names = [];
+    const visit = (child) => {
+        if (ts.isIdentifier(child)) names.push(child.text);
+        ts.forEachChild(child, visit);
+    };
+    visit(node);
+    return names;
+}
+
+function bindingNames(name) {
+    if (ts.isIdentifier(name)) return [name.text];
+    return name.elements.flatMap(e => ts.isOmittedExpression(e) ? [] : bindingNames(e.name));
+}
+
+// Deno.env.get('X') / process.env.X → X
+function envName(node) {
+    if (ts.isCallExpression(node) && node.expression.getText() === 'Deno.env.get' && node.arguments[0] && ts.isStringLiteralLike(node.arguments[0])) return node.arguments[0].text;
+    if (ts.isPropertyAccessExpression(node) && node.expression.getText() === 'process.env') return node.name.text;
+    return null;
+}
+
+// Değeri olduğu gibi taşıyan ifadeler: çağrıların sonucu (supabase.from(), stripe.charges.list()) sır sayılmaz
+const TRANSPARENT_CALLS = ['JSON.stringify', 'String', 'btoa', 'encodeURIComponent'];
+
+function valueFlow(node) {
+    const flow = { ids: [], envs: [] };
+    const visit = (child) => {
+        const name = envName(child);
+        if (name) { flow.envs.push(name); return; }
+        if (ts.isCallExpression(child) && !TRANSPARENT_CALLS.includes(child.expression.getText()) && !/\.(?:trim|toString)$/.test(child.expression.getText())) return;
+        if (ts.isNewExpression(child) || ts.isFunctionLike(child)) return;
+        if (ts.isIdentifier(child)) flow.ids.push(child.text);
+        // obj.prop: sadece obj takip edilir
+        if (ts.isPropertyAccessExpression(child)) { visit(child.expression); return; }
+        ts.forEachChild(child, visit);
+    };
+    visit(node);
+    return flow;
+}
+
+function isSecretEnv(name) {
+    return !PUBLIC_ENV.includes(name) && SECRET_ENV.test(name);
+}
+
+/**
+ * Değişken tanımları üzerinden basit veri akışı: seed'e dokunan bir ifadeyle tanımlanan değişkenler de işaretlenir.
+ * const body = await req.json(); const { url } = body; → { req, body, url }
+ */
+function propagate(sf, seed, touches) {
+    const marked = new Set(seed);
+    const decls = [];
+    const visit = (node) => {
+        if (ts.isVariableDeclaration(node) && node.initializer) decls.push(node);
+        ts.forEachChild(node, visit);
+    };
+    visit(sf);
+    for (let pass = 0; pass < 3; pass++) {
+        let changed = false;
+        for (const decl of decls) {
+            if (!touches(decl.initializer, marked)) continue;
+            for (const name of bindingNames(decl.name)) {
+                if (!marked.has(name)) { marked.add(name); changed = true; }
+            }
+        }
+        if (!changed) break;
+    }
+    return marked;
+}
+
+// Deno.serve / serve / app.post'a verilen handler'ın ilk parametresi
+function requestParams(sf) {
+    const names = new Set<string>();
+    const visit = (node) => {
+        if (ts.isCallExpression(node) && (SERVE_FUNCTIONS.includes(calleeName(node)) || /^(?:app|router|route)\.(?:get|post|put|patch|delete|all|use)$/.test(node.expression.getText(sf)))) {
+            for (const arg of node.arguments) {
+                if ((ts.isArrowFunction(arg) || ts.isFunctionExpression(arg)) && arg.parameters[0]) bindingNames(arg.parameters[0].name).forEach(n => names.add(n));
+                if (ts.isIdentifier(arg)) names.add(`fn:${arg.text}`);
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sf);
+    // serve(handler) → function handler(req) { ... }
+    for (const statement of sf.statements) {
+        if (ts.isFunctionDeclaration(statement) && statement.name && names.has(`fn:${statement.name.text}`) && statement.parameters[0]) {
+            bindingNames(statement.parameters[0].name).forEach(n => names.add(n));
+        }
+    }
+    return [...names].filter(n => !n.startsWith('fn:'));
+}
+
+// ─── supabase/config.toml ───
+/**
+ * [functions.<ad>] bölümlerindeki verify_jwt ayarları (varsayılan true).
+ * Dönüş: Map<ad, { verifyJwt, line }>
+ */
+function readFunctionsConfig(projectRoot) {
+    const functions = new Map();
+    let content;
+    try {
+        content = readSource(path.join(projectRoot, SUPABASE_CONFIG));
+    } catch {
+        return functions;
+    }
+    let current = null;
+    content.split(/\r?\n/).forEach((raw, index) => {
+        const line = raw.replace(/#.*$/, '').trim();
+        const section = /^\[([^\]]+)\]$/.exec(line);
+        if (section) {
+            const match = /^functions\.(?:"([^"]+)"|'([^']+)'|([\w-]+))$/.exec(section[1].trim());
+            current = match ? (match[1] || match[2] || match[3]) : null;
+            if (current && !functions.has(current)) functions.set(current, { verifyJwt: true, line: index + 1 });
+            return;
+        }
+        const setting = /^verify_jwt\s*=\s*(true|false)$/.exec(line);
+        if (current && setting) functions.set(current, { verifyJwt: setting[1] === 'true', line: index + 1 });
+    });
+    return functions;
+}
+
+// ─── Function Analysis ───
+/**
+ * Bir fonksiyonun kendi dosyaları ve göreli import ile eriştiği _shared modülleri üzerinden:
+ * guard, service role, CORS joker, istekten kurulan service role istemcisi ve yanıta yazılan sırlar.
+ */
+function analyzeFunction(entryFiles, projectRoot, resolve, guards) {
+    const files = [];
+    const queue = [...entryFiles];
+    const seen = new Set();
+    while (queue.length > 0) {
+        const filePath = queue.shift();
+        if (seen.has(filePath)) continue;
+        seen.add(filePath);
+        let sf;
+        try {
+            sf = ts.createSourceFile(filePath, readSource(filePath), ts.ScriptTarget.Latest, true, scriptKindFor(filePath));
+        } catch {
+            continue;
+        }
+        files.push({ sf, rel: path.relative(projectRoot, filePath).replace(/\\/g, '/'), own: entryFiles.includes(filePath) });
+        for (const statement of sf.statements) {
+            if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+            const target = resolve(statement.moduleSpecifier.text, filePath);
+            if (target) queue.push(target);
+        }
+    }
+
+    const result = { guard: null, serviceRole: [], cors: [], clients: [], echoes: [] };
+    for (const { sf, rel, own } of files) {
+        const at = (node) => ({ file: rel, line: lineOf(sf, node), own, context: node.getText(sf).split(/\r?\n/)[0].trim() });
+        const request = requestParams(sf);
+        const tainted = propagate(sf, request.length > 0 ? request : ['req', 'request'], (init, marked) => identifiers(init).some(n => marked.has(n)));
+        const carries = (test) => (init, marked) => {
+            const flow = valueFlow(init);
+            return flow.envs.some(test) || flow.ids.some(n => marked.has(n));
+        };
+        const secretVars = propagate(sf, [], carries(isSecretEnv));
+        const serviceVars = propagate(sf, [], carries(name => SERVICE_ROLE.test(name)));
+        const usesServiceRole = (node) => carries(name => SERVICE_ROLE.test(name))(node, serviceVars);
+
+        const visit = (node) => {
+            const env = envName(node);
+            if (env && SERVICE_ROLE.test(env)) result.serviceRole.push(at(node));
+
+            if (ts.isCallExpression(node)) {
+                const name = calleeName(node);
+                if (!result.guard && guards.includes(name)) result.guard = { name, ...at(node) };
+
+                // createClient(url, SERVICE_ROLE_KEY, options) — url / options istekten geliyorsa
+                if (name === 'createClient' && node.arguments.length >= 2 && usesServiceRole(node.arguments[1])) {
+                    const [url, , options] = node.arguments;
+                    const fromUrl = identifiers(url).some(n => tainted.has(n));
+                    const fromOptions = options && identifiers(options).some(n => tainted.has(n));
+                    if (fromUrl || fromOptions) result.clients.push({ ...at(node), url: fromUrl });
+                }
+
+                // new Response(...) ve Response.json(...) aşağıda; c.json(secret) / res.send(secret)
+                const isResponse = (ts.isPropertyAccessExpression(node.expression) && node.expression.expression.getText(sf) === 'Response')
+                    || (RESPONSE_METHODS.includes(name) && ts.isPropertyAccessExpression(node.expression) && !/^(?:req|request|await)\b/.test(node.expression.expression.getText(sf)) && node.arguments.length > 0);
+                if (isResponse) collectEcho(node, result, at, secretVars);
+            }
+            if (ts.isNewExpression(node) && node.expression.getText(sf) === 'Response') collectEcho(node, result, at, secretVars);
+
+            // 'Access-Control-Allow-Origin': '*' (corsHeaders nesnesi) veya headers.set(...)
+            if (ts.isPropertyAssignment(node) && ts.isStringLiteralLike(node.name) && node.name.text.toLowerCase() === 'access-control-allow-origin'
+                && ts.isStringLiteralLike(node.initializer) && node.initializer.text === '*') result.cors.push(at(node));
+            if (ts.isCallExpression(node) && ['set', 'append'].includes(calleeName(node)) && node.arguments.length >= 2
+                && ts.isStringLiteralLike(node.arguments[0]) && node.arguments[0].text.toLowerCase() === 'access-control-allow-origin'
+                && ts.isStringLiteralLike(node.arguments[1]) && node.arguments[1].text === '*') result.cors.push(at(node));
+
+            ts.forEachChild(node, visit);
+        };
+        visit(sf);
+    }
+    return result;
+}
+
+// Yanıt gövdesinde gizli env değeri (doğrudan veya değişken üzerinden) ya da Deno.env.toObject()
+function collectEcho(node, result, at, secretVars) {
+    for (const arg of (node.arguments || []).slice(0, 1)) {
+        const flow = valueFlow(arg);
+        const direct = flow.envs.find(isSecretEnv);
+        const viaVar = flow.ids.find(n => secretVars.has(n));
+        const dump = /Deno\.env\.toObject\(\)/.test(arg.getText());
+        if (direct || viaVar || dump) result.echoes.push({ ...at(node), name: direct || viaVar || 'Deno.env.toObject()' });
+    }
+}
+
+// Sonuçları fonksiyonun kendi dosyasına bağlamak için: kendi dizinindeki kanıt önce
+function pick(evidence) {
+    return evidence.find(e => e.own) || evidence[0];
+}
+
+// ─── Scanner ───
+/**
+ * files: supabase/functions altındaki kaynak dosyalar (mutlak yollar; _shared dahil)
+ * options: { guards: string[] } — config.edgeFunctions
+ * Dönüş: { issues, functions: [{ name, file, verifyJwt, guard, serviceRole }] }
+ */
+function scanEdgeFunctions(files, projectRoot, options: EdgeFunctionsConfig = {}) {
+    const guards = [...DEFAULT_GUARDS, ...(options.guards || [])];
+    const functionsDir = options.dir || FUNCTIONS_DIR;
+    const config = readFunctionsConfig(projectRoot);
+    const resolve = createResolver(projectRoot, files);
+    const issues = [];
+    const functions = [];
+
+    // supabase/functions/<ad>/...; _shared ve _ / . ile başlayan dizinler fonksiyon değildir
+    const byFunction = new Map();
+    for (const filePath of files) {
+        const name = path.relative(path.join(projectRoot, functionsDir), filePath).split(path.sep)[0];
+        if (!name || name.startsWith('_') || name.startsWith('.') || name === path.basename(filePath)) continue;
+        if (!byFunction.has(name)) byFunction.set(name, []);
+        byFunction.get(name).push(filePath);
+    }
+
+    for (const [name, entryFiles] of [...byFunction].sort((a, b) => a[0].localeCompare(b[0]))) {
+        const settings = config.get(name) || { verifyJwt: true, line: null };
+        const analysis = analyzeFunction(entryFiles, projectRoot, resolve, guards);
+        const entry = entryFiles.find(f => /[\\/]index\.[jt]sx?$/.test(f)) || entryFiles[0];
+        const file = path.relative(projectRoot, entry).replace(/\\/g, '/');
+        const serviceRole = analysis.serviceRole.length > 0;
+        functions.push({ name, file, verifyJwt: settings.verifyJwt, guard: analysis.guard ? analysis.guard.name : null, serviceRole });
+
+        // verify_jwt = false: gateway JWT kontrolü kapalı, fonksiyon herkese açık URL
+        if (!settings.verifyJwt && !analysis.guard) {
+            issues.push({
+                severity: serviceRole ? 'critical' : 'warning', category: 'edge-functions', ruleId: 'edge-functions/no-jwt-verification',
+                ...ruleText('edge-functions/no-jwt-verification', { name, serviceRole, guards: guards.slice(0, 4).join(', ') }),
+                file: SUPABASE_CONFIG.replace(/\\/g, '/'), line: settings.line,
+                context: `[functions.${name}] verify_jwt = false`,
+            });
+        }
+
+        if (serviceRole && analysis.cors.length > 0) {
+            const cors = pick(analysis.cors);
+            const where = pick(analysis.serviceRole);
+            issues.push({
+                severity: 'critical', category: 'edge-functions', ruleId: 'edge-functions/wildcard-cors-service-role',
+                ...ruleText('edge-functions/wildcard-cors-service-role', { name, cors: `${cors.file}:${cors.line}` }),
+                file: where.file, line: where.line,
+                context: `${name}: ${where.context}`,
+            });
+        }
+
+        for (const client of analysis.clients) {
+            issues.push({
+                severity: client.url ? 'critical' : 'warning', category: 'edge-functions', ruleId: 'edge-functions/service-role-from-request',
+                ...ruleText('edge-functions/service-role-from-request', { name, url: client.url }),
+                file: client.file, line: client.line, context: client.context,
+            });
+        }
+
+        for (const echo of analysis.echoes) {
+            issues.push({
+                severity: 'critical', category: 'edge-functions', ruleId: 'edge-functions/secret-in-response',
+                ...ruleText('edge-functions/secret-in-response', { name, env: echo.name }),
+                file: echo.file, line: echo.line, context: echo.context,
+            });
+        }
+    }
+
+    return { issues, functions };
+}
+
+module.exports = {
+    FUNCTIONS_DIR,
+    readFunctionsConfig,
+    scanEdgeFunctions,
+};
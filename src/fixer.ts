@@ -0,0 +1,437 @@
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+const { t } = require('./i18n');
+
+const CONTEXT_LINES = 3;
+// Bu boyutun üzerindeki değişen bloklar için LCS yerine tek parça (sil + ekle) diff üretilir
+const MAX_LCS_CELLS = 4000000;
+
+// ─── Provider Proxy Tanımları ───
+// api-key/<id> kurallarıyla eşleşir (bkz. builtin-rules.ts)
+const PROVIDERS = {
+    serper: {
+        service: 'Serper.dev', envKey: 'SERPER_API_KEY', host: /^https:\/\/(google\.)?serper\.dev\//,
+        url: 'https://google.serper.dev/search',
+        headers: `'X-API-KEY': apiKey`,
+    },
+    openai: {
+        service: 'OpenAI', envKey: 'OPENAI_API_KEY', host: /^https:\/\/api\.openai\.com\//,
+        url: 'https://api.openai.com/v1/chat/completions',
+        headers: 'Authorization: `Bearer ${apiKey}`',
+    },
+    anthropic: {
+        service: 'Anthropic', envKey: 'ANTHROPIC_API_KEY', host: /^https:\/\/api\.anthropic\.com\//,
+        url: 'https://api.anthropic.com/v1/messages',
+        headers: `'x-api-key': apiKey, 'anthropic-version': '2023-06-01'`,
+    },
+    'google-ai': {
+        service: 'Google AI', envKey: 'GEMINI_API_KEY', host: /^https:\/\/generativelanguage\.googleapis\.com\//,
+        url: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent',
+        headers: `'x-goog-api-key': apiKey`,
+    },
+};
+
+// .or('col.op.value') tek koşulu → .op('col', value); "is" null/boolean beklediği için dönüştürülmez
+const FILTER_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike'];
+
+// ─── Edit Plan ───
+/**
+ * Dosyalar bellekte düzenlenir; her düzeltme bir öncekinin sonucunu görür. Disk sadece applyFixes ile değişir.
+ * files: Map<göreli yol, { original (yoksa null), content }>
+ */
+function createPlan(projectRoot) {
+    return { projectRoot, files: new Map(), fixes: [] };
+}
+
+function readPlanned(plan, rel) {
+    if (!plan.files.has(rel)) {
+        const fullPath = path.join(plan.projectRoot, rel);
+        const original = fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf-8') : null;
+        plan.files.set(rel, { original, content: original });
+    }
+    return plan.files.get(rel).content;
+}
+
+function writePlanned(plan, rel, content) {
+    readPlanned(plan, rel);
+    plan.files.get(rel).content = content;
+}
+
+function addFix(plan, fix) {
+    if (fix.files.length > 0 || fix.notes.length > 0) plan.fixes.push(fix);
+}
+
+function escapeRegExp(text) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ─── 1. NEXT_PUBLIC_ Sırları ───
+// Anahtar .env dosyasında yeniden adlandırılır, process.env referansları tüm kaynak dosyalarda güncellenir
+function fixPublicSecrets(plan, issues, { files, clientFiles }) {
+    const targets = new Map();
+    for (const issue of issues) {
+        if (!issue.key || !issue.key.startsWith('NEXT_PUBLIC_') || !/(^|\/)\.env/.test(issue.file || '')) continue;
+        targets.set(`${issue.file}|${issue.key}`, { file: issue.file, key: issue.key });
+    }
+
+    for (const { file, key } of targets.values()) {
+        const newKey = key.replace(/^NEXT_PUBLIC_/, '');
+        const fix = { id: 'next-public', title: `${key} → ${newKey} (${file})`, files: [], notes: [] };
+        const content = readPlanned(plan, file);
+        if (content === null) continue;
+
+        const lines = content.split('\n');
+        const defines = (name) => new RegExp(`^\\s*(export\\s+)?${escapeRegExp(name)}\\s*=`);
+        const exists = lines.some(l => defines(newKey).test(l));
+        const updated = lines.map(line => {
+            if (!defines(key).test(line)) return line;
+            // Sunucu tarafı adı zaten tanımlıysa ikinci tanım eklenmez, eskisi yorum satırına alınır
+            return exists ? `# ${line.trim()}  # vibe-sec fix: ${t('fix.alreadyDefined', { key: newKey })}` : line.replace(key, newKey);
+        }).join('\n');
+        if (updated !== content) {
+            writePlanned(plan, file, updated);
+            fix.files.push(file);
+        }
+        if (exists) fix.notes.push(`${file}: ${t('fix.commentedOut', { key, newKey })}`);
+
+        const reference = new RegExp(`process\\.env\\.${key}\\b|process\\.env\\[\\s*(['"\`])${key}\\1\\s*\\]`, 'g');
+        for (const filePath of files) {
+            const rel = path.relative(plan.projectRoot, filePath);
+            const source = readPlanned(plan, rel);
+            if (source === null || !source.includes(key)) continue;
+            const replaced = source.replace(reference, (match) => match.replace(key, newKey));
+            if (replaced === source) continue;
+            writePlanned(plan, rel, replaced);
+            if (!fix.files.includes(rel)) fix.files.push(rel);
+            // Next.js sunucu değişkenlerini istemci bundle'ına koymaz: bu dosyalarda değer undefined olur
+            if (clientFiles.has(filePath)) fix.notes.push(`${rel}: ${t('fix.clientEnv', { key: newKey })}`);
+        }
+        addFix(plan, fix);
+    }
+}
+
+// ─── 2. .gitignore ───
+function fixGitignore(plan, issues, { envPatterns }) {
+    const patterns = [];
+    for (const issue of issues) {
+        if (issue.ruleId === 'git-hygiene/env-not-ignored' && issue.pattern) patterns.push(issue.pattern);
+        // Git deposu dışındaki yedek kontrol kalıp bilgisi taşımaz: yapılandırılan tüm .env kalıpları eklenir
+        if (issue.ruleId === 'general/gitignore-env') patterns.push(...envPatterns);
+    }
+    if (patterns.length === 0) return;
+
+    const content = readPlanned(plan, '.gitignore') || '';
+    const existing = new Set(content.split(/\r?\n/).map(l => l.trim()));
+    const missing = [...new Set(patterns)].filter(p => !existing.has(p) && !existing.has(`/${p}`));
+    const fix = { id: 'gitignore', title: `.gitignore: ${[...new Set(patterns)].join(', ')}`, files: [], notes: [] };
+    if (missing.length > 0) {
+        const prefix = content && !content.endsWith('\n') ? '\n' : '';
+        writePlanned(plan, '.gitignore', `${content}${prefix}${content ? '\n' : ''}# vibe-sec: ${t('fix.gitignoreHeader')}\n${missing.join('\n')}\n`);
+        fix.files.push('.gitignore');
+    }
+    // Kalıp zaten varken yok sayılmıyorsa sebep negatif "!" kuralıdır; otomatik silinmez
+    const negated = [...new Set(patterns)].filter(p => !missing.includes(p));
+    if (negated.length > 0) fix.notes.push(`.gitignore: ${t('fix.negated', { patterns: negated.join(', ') })}`);
+    addFix(plan, fix);
+}
+
+// ─── 3. İstemci Tarafı Sağlayıcı Çağrıları ───
+function stringLiterals(sf) {
+    const literals = [];
+    const visit = (node) => {
+        if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) literals.push(node);
+        ts.forEachChild(node, visit);
+    };
+    visit(sf);
+    return literals;
+}
+
+function routeStub(provider, upstreamUrl) {
+    return `import { NextResponse } from 'next/server';
+
+// ${t('fix.stubGenerated', { service: provider.service })}
+// TODO: ${t('fix.stubTodo')}
+const UPSTREAM_URL = '${upstreamUrl}';
+
+export async function POST(request: Request) {
+    const apiKey = process.env.${provider.envKey};
+    if (!apiKey) {
+        return NextResponse.json({ error: '${t('fix.stubMissingKey', { key: provider.envKey })}' }, { status: 500 });
+    }
+
+    const body = await request.json();
+    const upstream = await fetch(UPSTREAM_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ${provider.headers} },
+        body: JSON.stringify(body),
+    });
+    return NextResponse.json(await upstream.json(), { status: upstream.status });
+}
+`;
+}
+
+function fixProviderCalls(plan, issues) {
+    const byService = new Map();
+    for (const issue of issues) {
+        const id = issue.ruleId && issue.ruleId.startsWith('api-key/') ? issue.ruleId.slice('api-key/'.length) : null;
+        // Sadece kod bulguları: .env bulguları fixPublicSecrets ile düzeltilir
+        if (!PROVIDERS[id] || !issue.file || /(^|\/)\.env/.test(issue.file)) continue;
+        if (!byService.has(id)) byService.set(id, new Map());
+        const files = byService.get(id);
+        if (!files.has(issue.file)) files.set(issue.file, []);
+        files.get(issue.file).push(issue.line);
+    }
+
+    const appDir = fs.existsSync(path.join(plan.projectRoot, 'src', 'app')) ? path.join('src', 'app') : 'app';
+    for (const [id, files] of byService) {
+        const provider = PROVIDERS[id];
+        const routeRel = path.join(appDir, 'api', id, 'route.ts');
+        const endpoint = `/api/${id}`;
+        const fix = { id: 'api-proxy', title: `${provider.service} → ${endpoint} proxy`, files: [], notes: [] };
+
+        // İstemci kodundaki sağlayıcı URL'leri; proxy ilk bulunan uç noktaya yönlendirilir
+        const found = [];
+        for (const rel of files.keys()) {
+            const content = readPlanned(plan, rel);
+            if (content === null) continue;
+            const sf = ts.createSourceFile(rel, content, ts.ScriptTarget.Latest, true);
+            for (const literal of stringLiterals(sf)) {
+                if (provider.host.test(literal.text)) found.push({ rel, literal });
+            }
+        }
+        const upstreamUrl = found.length > 0 ? found[0].literal.text : provider.url;
+
+        if (readPlanned(plan, routeRel) === null) {
+            writePlanned(plan, routeRel, routeStub(provider, upstreamUrl));
+            fix.files.push(routeRel);
+        } else {
+            fix.notes.push(t('fix.routeExists', { route: routeRel }));
+        }
+
+        for (const rel of files.keys()) {
+            const content = readPlanned(plan, rel);
+            if (content === null) continue;
+            const literals = found.filter(f => f.rel === rel);
+            // Sondan başa değiştirilir ki önceki konumlar kaymasın
+            let updated = content;
+            for (const { literal } of [...literals].reverse()) {
+                if (literal.text !== upstreamUrl) continue;
+                const quote = content[literal.getStart()];
+                updated = updated.slice(0, literal.getStart()) + `${quote}${endpoint}${quote}` + updated.slice(literal.getEnd());
+            }
+            if (updated !== content) {
+                writePlanned(plan, rel, updated);
+                fix.files.push(rel);
+                fix.notes.push(`${rel}: ${t('fix.rewritten', { endpoint })}`);
+            } else {
+                const lines = files.get(rel).filter(Boolean).join(', ');
+                fix.notes.push(`${rel}${lines ? `:${lines}` : ''}: ${t('fix.manualCall', { endpoint })}`);
+            }
+            for (const other of literals.filter(f => f.literal.text !== upstreamUrl)) {
+                fix.notes.push(`${rel}: ${t('fix.otherUrl', { url: other.literal.text })}`);
+            }
+        }
+        addFix(plan, fix);
+    }
+}
+
+// ─── 4. PostgREST Filtreleri ───
+/**
+ * .or(`name.ilike.%${q}%`) → .ilike('name', `%${q}%`)
+ * .filter('name', 'eq', `${q}`) → .eq('name', q)
+ * Birden fazla koşul (virgül) veya iç içe ifade (parantez) içeren filtreler olduğu gibi bırakılır.
+ */
+function valueText(template, prefixLength, sf) {
+    const raw = template.getText(sf);
+    const rest = '`' + raw.slice(1 + prefixLength);
+    // Tek yer tutucudan ibaret değer: `${q}` → q
+    if (ts.isTemplateExpression(template) && template.templateSpans.length === 1 &&
+        template.templateSpans[0].literal.text === '' && template.head.text.length === prefixLength) {
+        return template.templateSpans[0].expression.getText(sf);
+    }
+    return rest;
+}
+
+function templateText(template) {
+    if (ts.isNoSubstitutionTemplateLiteral(template)) return template.text;
+    return template.head.text + template.templateSpans.map(s => '${}' + s.literal.text).join('');
+}
+
+function filterRewrite(call, sf) {
+    const callee = call.expression;
+    if (!ts.isPropertyAccessExpression(callee)) return null;
+    const method = callee.name.text;
+    const args = call.arguments;
+
+    if (method === 'or' && args.length === 1 && ts.isTemplateExpression(args[0])) {
+        const match = /^([A-Za-z_][A-Za-z0-9_]*)\.([a-z]+)\./.exec(args[0].head.text);
+        if (!match || !FILTER_OPERATORS.includes(match[2])) return null;
+        if (/[,()]/.test(templateText(args[0]))) return null;
+        return { method: match[2], column: `'${match[1]}'`, value: valueText(args[0], match[0].length, sf) };
+    }
+
+    if (method === 'filter' && args.length === 3 && ts.isStringLiteral(args[0]) && ts.isStringLiteral(args[1]) &&
+        FILTER_OPERATORS.includes(args[1].text) && ts.isTemplateExpression(args[2])) {
+        return { method: args[1].text, column: args[0].getText(sf), value: valueText(args[2], 0, sf) };
+    }
+    return null;
+}
+
+function fixFilters(plan, issues) {
+    const files = new Set(issues.filter(i => i.ruleId === 'sql-injection/filter' && i.file).map(i => i.file));
+
+    for (const rel of files) {
+        const fix = { id: 'filter', title: `${rel}: ${t('fix.filterTitle')}`, files: [], notes: [] };
+        const content = readPlanned(plan, rel);
+        if (content === null) continue;
+        const lines = new Set(issues.filter(i => i.ruleId === 'sql-injection/filter' && i.file === rel).map(i => i.line));
+        const sf = ts.createSourceFile(rel, content, ts.ScriptTarget.Latest, true);
+        const edits = [];
+        const handled = new Set();
+
+        const visit = (node) => {
+            if (ts.isCallExpression(node)) {
+                const line = sf.getLineAndCharacterOfPosition(node.getStart(sf)).line + 1;
+                const rewrite = lines.has(line) ? filterRewrite(node, sf) : null;
+                if (rewrite) {
+                    const callee = node.expression;
+                    edits.push({ start: callee.name.getStart(sf), end: node.getEnd(), text: `${rewrite.method}(${rewrite.column}, ${rewrite.value})` });
+                    handled.add(line);
+                }
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(sf);
+
+        let updated = content;
+        for (const edit of edits.sort((a, b) => b.start - a.start)) {
+            updated = updated.slice(0, edit.start) + edit.text + updated.slice(edit.end);
+        }
+        if (updated !== content) {
+            writePlanned(plan, rel, updated);
+            fix.files.push(rel);
+        }
+        for (const line of [...lines].filter(l => !handled.has(l))) {
+            fix.notes.push(`${rel}:${line}: ${t('fix.complexFilter')}`);
+        }
+        addFix(plan, fix);
+    }
+}
+
+// ─── Planner ───
+type FixContext = { files?: string[]; clientFiles?: Set<string>; envPatterns?: string[] };
+
+/**
+ * Otomatik düzeltilebilir bulgular için değişiklik planı üretir; diske yazmaz.
+ * context: { files (walkDir sonucu, mutlak yollar), clientFiles, envPatterns }
+ * Dönüş: { fixes: [{ id, title, files, notes }], changes: [{ file, before, after }] }
+ */
+function planFixes(projectRoot, issues, context: FixContext = {}) {
+    const plan = createPlan(projectRoot);
+    const ctx = { files: context.files || [], clientFiles: context.clientFiles || new Set(), envPatterns: context.envPatterns || ['.env', '.env.local'] };
+
+    fixPublicSecrets(plan, issues, ctx);
+    fixGitignore(plan, issues, ctx);
+    fixProviderCalls(plan, issues);
+    fixFilters(plan, issues);
+
+    const changes = [];
+    for (const [file, { original, content }] of plan.files) {
+        if (content !== original) changes.push({ file, before: original, after: content });
+    }
+    return { fixes: plan.fixes, changes };
+}
+
+function applyFixes(projectRoot, changes) {
+    for (const change of changes) {
+        const target = path.join(projectRoot, change.file);
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, change.after, 'utf-8');
+    }
+}
+
+// ─── Unified Diff ───
+function splitLines(content) {
+    if (!content) return [];
+    const lines = content.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+}
+
+// Ortak baş/son satırlar kırpılır, kalan blok LCS ile eşleştirilir
+function diffLines(a, b) {
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+    const ops = a.slice(0, start).map(line => ({ type: ' ', line }));
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+
+    if (midA.length * midB.length > MAX_LCS_CELLS) {
+        ops.push(...midA.map(line => ({ type: '-', line })), ...midB.map(line => ({ type: '+', line })));
+    } else {
+        const n = midA.length;
+        const m = midB.length;
+        const table = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                table[i][j] = midA[i] === midB[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && midA[i] === midB[j]) { ops.push({ type: ' ', line: midA[i] }); i++; j++; }
+            else if (i < n && (j === m || table[i + 1][j] >= table[i][j + 1])) { ops.push({ type: '-', line: midA[i] }); i++; }
+            else { ops.push({ type: '+', line: midB[j] }); j++; }
+        }
+    }
+
+    ops.push(...a.slice(endA).map(line => ({ type: ' ', line })));
+    return ops;
+}
+
+function formatDiff(change) {
+    const a = splitLines(change.before);
+    const b = splitLines(change.after);
+    const ops = diffLines(a, b);
+    const header = [`--- ${change.before === null ? '/dev/null' : `a/${change.file}`}`, `+++ b/${change.file}`];
+
+    // Değişiklik indeksleri CONTEXT_LINES bağlam satırıyla hunk'lara gruplanır
+    const changed = ops.map((op, idx) => op.type !== ' ' ? idx : -1).filter(idx => idx !== -1);
+    const hunks = [];
+    for (const idx of changed) {
+        const last = hunks[hunks.length - 1];
+        if (last && idx - last.end <= CONTEXT_LINES * 2) last.end = idx;
+        else hunks.push({ start: idx, end: idx });
+    }
+
+    const out = [...header];
+    for (const hunk of hunks) {
+        const from = Math.max(0, hunk.start - CONTEXT_LINES);
+        const to = Math.min(ops.length, hunk.end + CONTEXT_LINES + 1);
+        let lineA = 1;
+        let lineB = 1;
+        for (const op of ops.slice(0, from)) {
+            if (op.type !== '+') lineA++;
+            if (op.type !== '-') lineB++;
+        }
+        const slice = ops.slice(from, to);
+        const countA = slice.filter(op => op.type !== '+').length;
+        const countB = slice.filter(op => op.type !== '-').length;
+        out.push(`@@ -${countA === 0 ? lineA - 1 : lineA},${countA} +${countB === 0 ? lineB - 1 : lineB},${countB} @@`);
+        out.push(...slice.map(op => `${op.type}${op.line}`));
+    }
+    return out.join('\n');
+}
+
+module.exports = {
+    PROVIDERS,
+    planFixes,
+    applyFixes,
+    formatDiff,
+};
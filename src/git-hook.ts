@@ -0,0 +1,55 @@
+const fs = require('fs');
+const path = require('path');
+const { git, isGitRepo } = require('./git-scanner');
+const { t } = require('./i18n');
+
+const HOOK_MARKER = '# vibe-sec pre-commit';
+// Baseline'daki bulgular commit'i engellemez; sadece stage edilmiş satırlardaki yeni kritik bulgular
+const HOOK_COMMAND = 'npx --no-install vibe-sec scan --staged --offline --fail-on critical';
+
+function hookBlock() {
+    return `${HOOK_MARKER}\n${HOOK_COMMAND} || exit 1\n`;
+}
+
+// ─── Install ───
+/**
+ * pre-commit hook'u kurar: .husky/ varsa .husky/pre-commit, yoksa git'in hooks dizini (core.hooksPath dahil).
+ * Mevcut husky hook'una satır eklenir; vibe-sec'e ait olmayan düz bir hook sadece force ile değiştirilir.
+ * Dönüş: { file, status: 'created' | 'appended' | 'exists' | 'replaced' | 'foreign' }
+ */
+function installHook(projectRoot, options: { force?: boolean } = {}) {
+    if (!isGitRepo(projectRoot)) throw new Error(t('hook.notRepo'));
+
+    const huskyDir = path.join(projectRoot, '.husky');
+    const husky = fs.existsSync(huskyDir) && fs.statSync(huskyDir).isDirectory();
+    const file = husky
+        ? path.join(huskyDir, 'pre-commit')
+        : path.resolve(projectRoot, git(projectRoot, ['rev-parse', '--git-path', 'hooks']).trim(), 'pre-commit');
+    const rel = path.relative(projectRoot, file);
+
+    const existing = fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : null;
+    let status;
+    if (existing !== null && existing.includes(HOOK_MARKER)) {
+        return { file: rel, status: 'exists', husky };
+    } else if (existing === null) {
+        // husky v9 hook'ları shebang'siz düz komut listesidir
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, husky ? hookBlock() : `#!/bin/sh\n${hookBlock()}`, 'utf-8');
+        status = 'created';
+    } else if (husky) {
+        fs.writeFileSync(file, `${existing.replace(/\n*$/, '\n')}\n${hookBlock()}`, 'utf-8');
+        status = 'appended';
+    } else if (options.force) {
+        fs.writeFileSync(file, `#!/bin/sh\n${hookBlock()}`, 'utf-8');
+        status = 'replaced';
+    } else {
+        return { file: rel, status: 'foreign', husky };
+    }
+    fs.chmodSync(file, 0o755);
+    return { file: rel, status, husky };
+}
+
+module.exports = {
+    HOOK_COMMAND,
+    installHook,
+};
@@ -0,0 +1,265 @@
+import type { GitScannerConfig } from './types';
+const path = require('path');
+const fs = require('fs');
+const { execFileSync } = require('child_process');
+const { SIGNATURES, classifyValue, maskSecret, secretDigest } = require('./secret-detector');
+const { t, ruleText, formatDate } = require('./i18n');
+
+const ENV_FILE = /(^|\/)\.env(\.[^/]+)?$/;
+const ENV_TEMPLATE = /\.(example|sample|template|dist|defaults)$/;
+const JWT_IN_TEXT = /eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]+/g;
+const HISTORY_EXCLUDES = [':(exclude)package-lock.json', ':(exclude)*.lock', ':(exclude)pnpm-lock.yaml'];
+const DEFAULT_MAX_COMMITS = 500;
+
+// ─── Git Helpers ───
+function git(projectRoot, args) {
+    return execFileSync('git', args, {
+        cwd: projectRoot,
+        encoding: 'utf-8',
+        stdio: ['ignore', 'pipe', 'ignore'],
+        maxBuffer: 64 * 1024 * 1024,
+    });
+}
+
+function isGitRepo(projectRoot) {
+    try {
+        return git(projectRoot, ['rev-parse', '--is-inside-work-tree']).trim() === 'true';
+    } catch {
+        return false;
+    }
+}
+
+function isEnvFile(filePath) {
+    return ENV_FILE.test(filePath) && !ENV_TEMPLATE.test(filePath);
+}
+
+function shortCommit(commit) {
+    return `${commit.hash.substring(0, 8)} (${formatDate(new Date(commit.date))}, ${commit.author})`;
+}
+
+// Fingerprint için: tam hash ve ham ISO tarih (%aI); biçimlenmiş tarih dile göre değişir
+function commitKey(commit) {
+    return `${commit.hash}@${commit.date}`;
+}
+
+// --since hem bir git ref'i (main, v1.2.0, HEAD~20) hem de tarih ("2 weeks ago") olabilir
+function historyRange(projectRoot, since) {
+    if (!since) return [];
+    try {
+        git(projectRoot, ['rev-parse', '--verify', '--quiet', `${since}^{commit}`]);
+        return [`${since}..HEAD`];
+    } catch {
+        return [`--since=${since}`];
+    }
+}
+
+function envKeys(content) {
+    const keys = [];
+    for (const line of content.split(/\r?\n/)) {
+        const m = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=/.exec(line);
+        if (m) keys.push(m[1]);
+    }
+    return keys;
+}
+
+function keysAt(projectRoot, hash, filePath) {
+    try {
+        return envKeys(git(projectRoot, ['show', `${hash}:${filePath}`]));
+    } catch {
+        return [];
+    }
+}
+
+function formatKeys(keys) {
+    if (keys.length === 0) return '';
+    return ` ${t('git.rotateKeys', { keys: `${keys.slice(0, 8).join(', ')}${keys.length > 8 ? ` (+${keys.length - 8})` : ''}` })}`;
+}
+
+// ─── Tracked Env Files ───
+function scanTrackedEnvFiles(projectRoot) {
+    const issues = [];
+    const tracked = git(projectRoot, ['ls-files', '-z']).split('\0').filter(f => f && isEnvFile(f));
+    for (const file of tracked) {
+        let commit = null;
+        try {
+            const [hash, date, author] = git(projectRoot, ['log', '-1', '--format=%H%x1f%aI%x1f%an', '--', file]).trim().split('\x1f');
+            if (hash) commit = { hash, date, author };
+        } catch { }
+        const keys = commit ? keysAt(projectRoot, commit.hash, file) : [];
+        issues.push({
+            severity: 'critical', category: 'git-hygiene', ruleId: 'git-hygiene/tracked-env',
+            ...ruleText('git-hygiene/tracked-env', { file, keys: formatKeys(keys) }),
+            file,
+            context: commit ? t('git.lastCommit', { commit: shortCommit(commit) }) : undefined,
+            stableContext: file,
+        });
+    }
+    return { issues, tracked };
+}
+
+// ─── Ignore Rules ───
+// Glob kalıpları (.env.*.local) örnek bir dosya adıyla git'in gerçek ignore semantiğine sorulur
+function scanIgnoreRules(projectRoot, envPatterns) {
+    const issues = [];
+    for (const pattern of envPatterns) {
+        const sample = pattern.replace(/\*/g, 'development');
+        let ignored = false;
+        try {
+            git(projectRoot, ['check-ignore', '--no-index', '-q', sample]);
+            ignored = true;
+        } catch { }
+        if (ignored) continue;
+        issues.push({
+            severity: 'warning', category: 'git-hygiene', ruleId: 'git-hygiene/env-not-ignored',
+            ...ruleText('git-hygiene/env-not-ignored', { pattern }),
+            file: '.gitignore', pattern,
+            context: sample !== pattern ? `git check-ignore ${sample}` : undefined,
+        });
+    }
+    return issues;
+}
+
+// ─── History ───
+function parseLog(output) {
+    return output.split('\x1e').filter(Boolean).map(block => {
+        const [header, ...rest] = block.split('\n');
+        const [hash, date, author] = header.split('\x1f');
+        return { hash, date, author, body: rest.join('\n') };
+    });
+}
+
+// Bir zamanlar commit edilmiş ama artık takip edilmeyen .env dosyaları
+function scanEnvHistory(projectRoot, range, maxCommits, tracked) {
+    const output = git(projectRoot, [
+        'log', '--all', ...range, `--max-count=${maxCommits}`, '--diff-filter=AM', '--name-only',
+        '--format=%x1e%H%x1f%aI%x1f%an', '--', ':(glob)**/.env', ':(glob)**/.env.*',
+    ]);
+    // git log en yeniden eskiye sıralı: son görülen commit dosyanın ilk eklendiği commit'tir
+    const firstSeen = new Map();
+    const commitCount = new Map();
+    for (const commit of parseLog(output)) {
+        for (const file of commit.body.split('\n').map(f => f.trim()).filter(isEnvFile)) {
+            firstSeen.set(file, commit);
+            commitCount.set(file, (commitCount.get(file) || 0) + 1);
+        }
+    }
+
+    const issues = [];
+    for (const [file, commit] of firstSeen) {
+        if (tracked.includes(file)) continue;
+        const keys = keysAt(projectRoot, commit.hash, file);
+        issues.push({
+            severity: 'critical', category: 'git-hygiene', ruleId: 'git-hygiene/env-in-history',
+            ...ruleText('git-hygiene/env-in-history', { file, count: commitCount.get(file), keys: formatKeys(keys) }),
+            file,
+            context: t('git.firstCommit', { commit: shortCommit(commit) }),
+            stableContext: commitKey(commit),
+        });
+    }
+    return issues;
+}
+
+function findSignatures(text) {
+    const hits = [];
+    for (const sig of SIGNATURES) {
+        if (sig.severity !== 'critical') continue;
+        const m = new RegExp(sig.regex.source).exec(text);
+        if (m) hits.push({ value: m[0], ruleId: sig.id, label: sig.provider });
+    }
+    const jwtRe = new RegExp(JWT_IN_TEXT.source, 'g');
+    let m;
+    while ((m = jwtRe.exec(text)) !== null) {
+        const hit = classifyValue(m[0]);
+        if (hit && hit.ruleId === 'secret-value/service-role-jwt') hits.push({ value: m[0], ruleId: 'service-role-jwt', label: hit.label });
+    }
+    return hits;
+}
+
+// Geçmişte eklenmiş satırlarda bilinen gizli anahtar imzaları
+function scanSecretHistory(projectRoot, range, maxCommits) {
+    const output = git(projectRoot, [
+        'log', '--all', ...range, `--max-count=${maxCommits}`, '-p', '--unified=0', '--no-color', '--no-ext-diff',
+        '--format=%x1e%H%x1f%aI%x1f%an', '--', '.', ...HISTORY_EXCLUDES,
+    ]);
+
+    // Aynı sır birçok commit'te geçebilir; en eski (ilk sızdığı) commit raporlanır
+    const found = new Map();
+    for (const commit of parseLog(output)) {
+        let file = null;
+        let lineNo = 0;
+        for (const line of commit.body.split('\n')) {
+            if (line.startsWith('+++ ')) {
+                file = line === '+++ /dev/null' ? null : line.replace(/^\+\+\+ b\//, '');
+                continue;
+            }
+            const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)/.exec(line);
+            if (hunk) { lineNo = parseInt(hunk[1], 10); continue; }
+            if (!file || !line.startsWith('+')) continue;
+            for (const hit of findSignatures(line.substring(1))) {
+                found.set(hit.value, { ...hit, commit, file, line: lineNo });
+            }
+            lineNo++;
+        }
+    }
+
+    const issues = [];
+    for (const hit of found.values()) {
+        issues.push({
+            severity: 'critical', category: 'git-hygiene', ruleId: `git-hygiene/secret-in-history`,
+            ...ruleText('git-hygiene/secret-in-history', { label: hit.label }),
+            file: hit.file, line: hit.line,
+            context: `${shortCommit(hit.commit)} → ${maskSecret(hit.value)}`,
+            stableContext: `${commitKey(hit.commit)} → ${secretDigest(hit.value)}`,
+        });
+    }
+    return issues;
+}
+
+// ─── Fallback ───
+// Git deposu değilse sadece .gitignore satırlarına bakılır (negatif "!" kuralları sayılmaz)
+function scanGitignoreFile(projectRoot) {
+    const gitignorePath = path.join(projectRoot, '.gitignore');
+    if (!fs.existsSync(gitignorePath)) return [];
+    const lines = fs.readFileSync(gitignorePath, 'utf-8').split(/\r?\n/).map(l => l.trim());
+    if (lines.some(l => /^\/?\.env/.test(l))) return [];
+    return [{
+        severity: 'warning', category: 'general', ruleId: 'general/gitignore-env',
+        ...ruleText('general/gitignore-env'), file: '.gitignore'
+    }];
+}
+
+// ─── Scanner ───
+/**
+ * options: { envPatterns, since, history (varsayılan true), maxCommits }
+ * Dönüş: { issues, repo, historyScanned }
+ */
+function scanGitHygiene(projectRoot, options: GitScannerConfig & { envPatterns?: string[]; since?: string } = {}) {
+    if (!isGitRepo(projectRoot)) {
+        return { issues: scanGitignoreFile(projectRoot), repo: false, historyScanned: false };
+    }
+
+    const issues = [];
+    const { issues: trackedIssues, tracked } = scanTrackedEnvFiles(projectRoot);
+    issues.push(...trackedIssues);
+    issues.push(...scanIgnoreRules(projectRoot, options.envPatterns || ['.env', '.env.local']));
+
+    let historyScanned = false;
+    if (options.history !== false) {
+        const range = historyRange(projectRoot, options.since);
+        const maxCommits = options.maxCommits || DEFAULT_MAX_COMMITS;
+        try {
+            issues.push(...scanEnvHistory(projectRoot, range, maxCommits, tracked));
+            issues.push(...scanSecretHistory(projectRoot, range, maxCommits));
+            historyScanned = true;
+        } catch { }
+    }
+
+    return { issues, repo: true, historyScanned };
+}
+
+module.exports = {
+    git,
+    isGitRepo,
+    historyRange,
+    scanGitHygiene,
+};
@@ -0,0 +1,207 @@
+import type { Issue } from './types';
+const path = require('path');
+const { t, localeTag, formatDate, formatDateTime } = require('./i18n');
+const { diffRecords } = require('./scan-history');
+
+const SEVERITY_ORDER = { critical: 0, warning: 1, info: 2 };
+const SEVERITY_COLORS = { critical: '#dc2626', warning: '#d97706', info: '#2563eb' };
+const CHART_RUNS = 30;
+const TABLE_RUNS = 10;
+
+// ─── Helpers ───
+function escapeHtml(value) {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function bySeverity(a, b) {
+    return (SEVERITY_ORDER[a.severity] ?? 2) - (SEVERITY_ORDER[b.severity] ?? 2) || (a.line || 0) - (b.line || 0);
+}
+
+function groupBy(items, keyOf) {
+    const groups = new Map();
+    for (const item of items) {
+        const key = keyOf(item);
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key).push(item);
+    }
+    return groups;
+}
+
+function badge(severity) {
+    return `<span class="badge ${escapeHtml(severity)}">${escapeHtml(t(`dashboard.severity.${severity}`))}</span>`;
+}
+
+// ─── Trend Chart ───
+// Harici kütüphane yok: önem derecesi başına bir çizgi içeren satır içi SVG
+function renderChart(records) {
+    const runs = records.slice(-CHART_RUNS);
+    if (runs.length < 2) return `<p class="muted">${escapeHtml(t('dashboard.chartEmpty'))}</p>`;
+
+    const width = 720;
+    const height = 220;
+    const pad = { top: 16, right: 16, bottom: 28, left: 36 };
+    const max = Math.max(1, ...runs.map(r => Math.max(r.severities.critical || 0, r.severities.warning || 0, r.severities.info || 0)));
+    const x = (i) => pad.left + (i * (width - pad.left - pad.right)) / (runs.length - 1);
+    const y = (v) => pad.top + (height - pad.top - pad.bottom) * (1 - v / max);
+
+    const parts = [];
+    for (const tick of [0, Math.ceil(max / 2), max]) {
+        parts.push(`<line x1="${pad.left}" x2="${width - pad.right}" y1="${y(tick)}" y2="${y(tick)}" class="grid" />`);
+        parts.push(`<text x="${pad.left - 6}" y="${y(tick) + 4}" text-anchor="end">${tick}</text>`);
+    }
+    parts.push(`<text x="${x(0)}" y="${height - 8}" text-anchor="start">${escapeHtml(formatDate(new Date(runs[0].timestamp)))}</text>`);
+    parts.push(`<text x="${x(runs.length - 1)}" y="${height - 8}" text-anchor="end">${escapeHtml(formatDate(new Date(runs[runs.length - 1].timestamp)))}</text>`);
+
+    for (const severity of ['info', 'warning', 'critical']) {
+        const color = SEVERITY_COLORS[severity];
+        const points = runs.map((r, i) => `${x(i).toFixed(1)},${y(r.severities[severity] || 0).toFixed(1)}`);
+        parts.push(`<polyline fill="none" stroke="${color}" stroke-width="2" points="${points.join(' ')}" />`);
+        runs.forEach((r, i) => {
+            const label = `${formatDateTime(new Date(r.timestamp))}${r.commit ? ` · ${r.commit.substring(0, 8)}` : ''} — ${t(`dashboard.severity.${severity}`)}: ${r.severities[severity] || 0}`;
+            parts.push(`<circle cx="${x(i).toFixed(1)}" cy="${y(r.severities[severity] || 0).toFixed(1)}" r="3" fill="${color}"><title>${escapeHtml(label)}</title></circle>`);
+        });
+    }
+
+    const legend = ['critical', 'warning', 'info']
+        .map(s => `<span><i style="background:${SEVERITY_COLORS[s]}"></i>${escapeHtml(t(`dashboard.severity.${s}`))}</span>`)
+        .join('');
+    return `<svg viewBox="0 0 ${width} ${height}" role="img" aria-label="${escapeHtml(t('dashboard.trend'))}">${parts.join('')}</svg><div class="legend">${legend}</div>`;
+}
+
+// ─── Sections ───
+function renderSummary(issues, meta) {
+    const count = (s) => issues.filter(i => i.severity === s).length;
+    const cards = ['critical', 'warning', 'info'].map(s =>
+        `<div class="card ${s}"><b>${count(s)}</b><span>${escapeHtml(t(`dashboard.severity.${s}`))}</span></div>`);
+    cards.push(`<div class="card"><b>${issues.length}</b><span>${escapeHtml(t('dashboard.total'))}</span></div>`);
+    if (meta.known > 0) cards.push(`<div class="card muted"><b>${meta.known}</b><span>${escapeHtml(t('dashboard.baselined'))}</span></div>`);
+    return `<div class="cards">${cards.join('')}</div>`;
+}
+
+function renderChanges(issues, records) {
+    if (records.length < 2) return `<p class="muted">${escapeHtml(t('dashboard.noPrevious'))}</p>`;
+    const { added, resolved } = diffRecords(records[records.length - 2], records[records.length - 1]);
+    const current = new Map<string, Issue>(issues.map(i => [i.fingerprint, i]));
+
+    const addedItems = added.map(({ fingerprint, ruleId }) => {
+        const issue = current.get(fingerprint);
+        return issue
+            ? `<li>${badge(issue.severity)} ${escapeHtml(issue.title)} <span class="muted">${escapeHtml(issue.file || '')}${issue.line ? `:${issue.line}` : ''}</span></li>`
+            : `<li><code>${escapeHtml(ruleId)}</code> <span class="muted">${escapeHtml(fingerprint)}</span></li>`;
+    });
+    const resolvedItems = resolved.map(({ fingerprint, ruleId }) =>
+        `<li><code>${escapeHtml(ruleId)}</code> <span class="muted">${escapeHtml(fingerprint)}</span></li>`);
+
+    return `<div class="columns">
+<div><h3>🆕 ${escapeHtml(t('dashboard.added', { count: added.length }))}</h3>${addedItems.length ? `<ul>${addedItems.join('')}</ul>` : `<p class="muted">—</p>`}</div>
+<div><h3>✅ ${escapeHtml(t('dashboard.resolved', { count: resolved.length }))}</h3>${resolvedItems.length ? `<ul>${resolvedItems.join('')}</ul>` : `<p class="muted">—</p>`}</div>
+</div>`;
+}
+
+function renderRuns(records) {
+    if (records.length === 0) return '';
+    const rows = [];
+    const start = Math.max(0, records.length - TABLE_RUNS);
+    for (let i = records.length - 1; i >= start; i--) {
+        const record = records[i];
+        const { added, resolved } = diffRecords(records[i - 1] || null, record);
+        rows.push(`<tr><td>${escapeHtml(formatDateTime(new Date(record.timestamp)))}</td>`
+            + `<td><code>${escapeHtml(record.commit ? record.commit.substring(0, 8) : '—')}</code>${record.branch ? ` <span class="muted">${escapeHtml(record.branch)}</span>` : ''}</td>`
+            + `<td class="critical">${record.severities.critical || 0}</td><td class="warning">${record.severities.warning || 0}</td><td class="info">${record.severities.info || 0}</td>`
+            + `<td>${i === 0 ? '—' : `+${added.length}`}</td><td>${i === 0 ? '—' : `−${resolved.length}`}</td></tr>`);
+    }
+    const head = ['date', 'commit', 'severity.critical', 'severity.warning', 'severity.info', 'new', 'fixed']
+        .map(key => `<th>${escapeHtml(t(`dashboard.${key}`))}</th>`).join('');
+    return `<table><thead><tr>${head}</tr></thead><tbody>${rows.join('')}</tbody></table>`;
+}
+
+function renderIssue(issue) {
+    const parts = [`<div class="issue">`, `<div>${badge(issue.severity)} <b>${escapeHtml(issue.title)}</b>${issue.line ? ` <span class="muted">:${issue.line}</span>` : ''}</div>`];
+    if (issue.message) parts.push(`<p>${escapeHtml(issue.message)}</p>`);
+    if (issue.fix) parts.push(`<p class="fix">💡 ${escapeHtml(issue.fix)}</p>`);
+    if (issue.context) parts.push(`<pre>${escapeHtml(issue.context)}</pre>`);
+    parts.push(`<div class="muted small"><code>${escapeHtml(issue.ruleId || issue.category)}</code> · ${escapeHtml(issue.fingerprint || '')}</div>`, `</div>`);
+    return parts.join('');
+}
+
+// Kategori → dosya → bulgu; kritik bulgusu olan kategoriler açık gelir
+function renderFindings(issues) {
+    if (issues.length === 0) return `<p>✅ ${escapeHtml(t('dashboard.clean'))}</p>`;
+    const sections = [];
+    const categories = [...groupBy(issues, i => i.category || 'general')]
+        .sort((a, b) => Math.min(...a[1].map(i => SEVERITY_ORDER[i.severity] ?? 2)) - Math.min(...b[1].map(i => SEVERITY_ORDER[i.severity] ?? 2)) || b[1].length - a[1].length);
+    for (const [category, items] of categories) {
+        const open = items.some(i => i.severity === 'critical') ? ' open' : '';
+        const files = [...groupBy(items, i => i.file || t('dashboard.noFile'))].sort((a, b) => a[0].localeCompare(b[0]));
+        const body = files.map(([file, fileIssues]) =>
+            `<div class="file"><h4>📄 ${escapeHtml(file)}</h4>${[...fileIssues].sort(bySeverity).map(renderIssue).join('')}</div>`).join('');
+        sections.push(`<details${open}><summary><b>${escapeHtml(category)}</b> <span class="muted">(${items.length})</span></summary>${body}</details>`);
+    }
+    return sections.join('');
+}
+
+const STYLE = `
+body{font:14px/1.5 -apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;margin:0;background:#f8fafc;color:#0f172a}
+main{max-width:1040px;margin:0 auto;padding:24px}
+h1{margin:0 0 4px}h2{margin:32px 0 12px;font-size:18px}h3{font-size:15px;margin:8px 0}h4{margin:12px 0 6px;font-size:14px}
+.muted{color:#64748b}.small{font-size:12px}
+.cards{display:flex;gap:12px;flex-wrap:wrap}
+.card{background:#fff;border:1px solid #e2e8f0;border-radius:8px;padding:12px 18px;min-width:110px}
+.card b{display:block;font-size:26px}.card.critical b,td.critical{color:#dc2626}.card.warning b,td.warning{color:#d97706}.card.info b,td.info{color:#2563eb}
+svg{width:100%;height:auto;background:#fff;border:1px solid #e2e8f0;border-radius:8px}
+svg text{font-size:11px;fill:#64748b}svg .grid{stroke:#e2e8f0}
+.legend{display:flex;gap:16px;margin-top:6px;font-size:12px}.legend i{display:inline-block;width:10px;height:10px;border-radius:2px;margin-right:4px}
+.columns{display:grid;grid-template-columns:1fr 1fr;gap:16px}.columns ul{padding-left:18px;margin:0}
+table{width:100%;border-collapse:collapse;background:#fff;border:1px solid #e2e8f0}th,td{padding:6px 10px;border-bottom:1px solid #e2e8f0;text-align:left}
+details{background:#fff;border:1px solid #e2e8f0;border-radius:8px;margin-bottom:10px;padding:8px 14px}summary{cursor:pointer}
+.issue{border-top:1px solid #f1f5f9;padding:8px 0}.issue p{margin:4px 0}.fix{color:#15803d}
+pre{background:#f1f5f9;padding:6px 8px;border-radius:4px;white-space:pre-wrap;word-break:break-all;margin:4px 0}
+.badge{font-size:11px;font-weight:600;color:#fff;border-radius:4px;padding:1px 6px}.badge.critical{background:#dc2626}.badge.warning{background:#d97706}.badge.info{background:#2563eb}
+`;
+
+// ─── Page ───
+/**
+ * Tek dosyalık, çevrimdışı açılabilen HTML panosu (harici CSS / JS / font yok).
+ * history: readHistory() kayıtları; son kayıt bu taramaya ait olmalıdır.
+ * meta: { projectRoot, generatedAt, known }
+ */
+function renderHtmlReport(issues, history, meta: { projectRoot?: string; generatedAt?: string; known?: number } = {}) {
+    const project = path.basename(meta.projectRoot || process.cwd());
+    const latest = history[history.length - 1];
+    const sorted = [...issues].sort(bySeverity);
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(localeTag())}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(t('dashboard.title'))} — ${escapeHtml(project)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<main>
+<h1>🛡️ ${escapeHtml(t('dashboard.title'))}</h1>
+<div class="muted">${escapeHtml(project)} · ${escapeHtml(formatDateTime(meta.generatedAt ? new Date(meta.generatedAt) : new Date()))}${latest && latest.commit ? ` · <code>${escapeHtml(latest.commit.substring(0, 8))}</code>` : ''}</div>
+<h2>${escapeHtml(t('dashboard.status'))}</h2>
+${renderSummary(sorted, meta)}
+<h2>${escapeHtml(t('dashboard.trend'))}</h2>
+${renderChart(history)}
+<h2>${escapeHtml(t('dashboard.changes'))}</h2>
+${renderChanges(sorted, history)}
+<h2>${escapeHtml(t('dashboard.runs'))}</h2>
+${renderRuns(history)}
+<h2>${escapeHtml(t('dashboard.findings'))}</h2>
+${renderFindings(sorted)}
+</main>
+</body>
+</html>
+`;
+}
+
+module.exports = {
+    renderHtmlReport,
+};
@@ -0,0 +1,150 @@
+import type { MessageParams } from './types';
+const tr = require('./locales/tr');
+const en = require('./locales/en');
+
+// ─── Catalogs ───
+// Katalog şekli (bkz. locales/tr.ts):
+//   rules      kural ID'si → { title, message, fix } — tarayıcı bulguları ve yerleşik kurallar
+//   diğerleri  CLI, vibe-summary.txt, reçete ve rapor metinleri; 'scan.header' gibi noktalı anahtarlarla okunur
+// Değerler "{ad}" yer tutuculu string ya da (params) => string fonksiyonudur.
+const DEFAULT_LOCALE = 'tr';
+const LOCALES = ['tr', 'en'];
+// Tarih / saat biçimi için BCP 47 etiketleri; plugin'lerin eklediği diller etiket olarak kendi kodunu kullanır
+const LOCALE_TAGS = { tr: 'tr-TR', en: 'en-US' };
+
+const catalogs = new Map([['tr', clone(tr)], ['en', clone(en)]]);
+let current = DEFAULT_LOCALE;
+
+function clone(catalog) {
+    return merge({}, catalog);
+}
+
+function merge(target, source) {
+    for (const [key, value] of Object.entries(source || {})) {
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+            target[key] = merge(target[key] && typeof target[key] === 'object' ? target[key] : {}, value);
+        } else {
+            target[key] = value;
+        }
+    }
+    return target;
+}
+
+/**
+ * Plugin'lerin ve config'in çevirileri: registerMessages('en', { rules: { 'acme/no-eval': { title, message } } }).
+ * Var olan anahtarlar üzerine yazılır; bilinmeyen dil kodu yeni bir katalog açar.
+ */
+function registerMessages(locale, messages) {
+    if (!catalogs.has(locale)) catalogs.set(locale, {});
+    merge(catalogs.get(locale), messages);
+}
+
+// ─── Locale ───
+function setLocale(locale) {
+    if (!catalogs.has(locale)) {
+        throw new Error(t('i18n.unknownLocale', { locale, locales: [...catalogs.keys()].join(', ') }));
+    }
+    current = locale;
+}
+
+function getLocale() {
+    return current;
+}
+
+async function withLocale(locale, fn) {
+    const previous = current;
+    if (locale) setLocale(locale);
+    try {
+        return await fn();
+    } finally {
+        current = previous;
+    }
+}
+
+function localeTag() {
+    return LOCALE_TAGS[current] || current;
+}
+
+function formatTime(date = new Date()) {
+    return date.toLocaleTimeString(localeTag());
+}
+
+function formatDate(date = new Date()) {
+    return date.toLocaleDateString(localeTag());
+}
+
+function formatDateTime(date = new Date()) {
+    return date.toLocaleString(localeTag());
+}
+
+// ─── Lookup ───
+function lookup(locale, key) {
+    return key.split('.').reduce((node, part) => (node && typeof node === 'object' ? node[part] : undefined), catalogs.get(locale));
+}
+
+function interpolate(template, params) {
+    if (typeof template === 'function') return template(params);
+    return String(template).replace(/\{(\w+)\}/g, (whole, name) => (params[name] === undefined ? whole : String(params[name])));
+}
+
+// Aktif dilde yoksa varsayılan dile (tr) düşer; hiçbirinde yoksa anahtarın kendisi döner
+function t(key, params: MessageParams = {}) {
+    let template = lookup(current, key);
+    if (template === undefined) template = lookup(DEFAULT_LOCALE, key);
+    return template === undefined ? key : interpolate(template, params);
+}
+
+type RuleText = { title?: string; message?: string; fix?: string };
+
+// 'secret-value/openai' için önce kendi girdisi, yoksa 'secret-value/*' ortak girdisi
+function ruleEntry(locale, ruleId) {
+    const rules = catalogs.get(locale)?.rules;
+    if (!rules) return undefined;
+    return rules[ruleId] || rules[`${ruleId.split('/')[0]}/*`];
+}
+
+/**
+ * Kural ID'sine göre bulgu metinleri: { title, message, fix } (katalogda olmayan alanlar dönmez).
+ * options.fallback === false ise sadece aktif dilin kataloğuna bakılır (rule-engine kuralın kendi metnini tercih eder).
+ */
+function ruleText(ruleId, params: MessageParams = {}, options: { fallback?: boolean } = {}) {
+    let entry = ruleEntry(current, ruleId);
+    if (!entry && options.fallback !== false) entry = ruleEntry(DEFAULT_LOCALE, ruleId);
+    const text: RuleText = {};
+    if (!entry) return text;
+    for (const field of ['title', 'message', 'fix']) {
+        if (entry[field] !== undefined) text[field] = interpolate(entry[field], params);
+    }
+    return text;
+}
+
+// Bulguya özel değerler yerine '…' ile kural düzeyinde metin (SARIF rule metadata); şablon çalışmazsa undefined
+const PLACEHOLDER = new Proxy({}, { get: (target, name) => (typeof name === 'string' ? '…' : undefined) });
+
+function ruleSummary(ruleId) {
+    const text: RuleText = {};
+    const entry = ruleEntry(current, ruleId) || ruleEntry(DEFAULT_LOCALE, ruleId);
+    for (const field of ['title', 'message', 'fix']) {
+        if (!entry || entry[field] === undefined) continue;
+        try {
+            text[field] = interpolate(entry[field], PLACEHOLDER).replace(/^…\s*/, '');
+        } catch { }
+    }
+    return text;
+}
+
+module.exports = {
+    DEFAULT_LOCALE,
+    LOCALES,
+    registerMessages,
+    setLocale,
+    getLocale,
+    withLocale,
+    localeTag,
+    formatTime,
+    formatDate,
+    formatDateTime,
+    t,
+    ruleText,
+    ruleSummary,
+};
@@ -0,0 +1,103 @@
+// ============================================================
+// 🛡️ Vibe Security — Programatik API
+// ============================================================
+//   const { scan } = require('vibe-security');
+//   const { issues } = await scan({ projectRoot, offline: true });
+//
+// vibe-security.config.ts:
+//   import { defineConfig } from 'vibe-security';
+//   export default defineConfig({ rlsScanner: { enabled: true } });
+//
+// CLI (security-watchdog.ts) bu API'nin üzerindeki ince bir katmandır.
+// ============================================================
+
+import type { Client } from 'pg';
+import type {
+    Issue, Severity, ScanOptions, ScanResult, ScanSession, RouteInfo, MiddlewareInfo, EdgeFunctionInfo, VibeSecurityConfig, LoadedRule, MessageCatalog, MessageParams,
+    HistoryRecord, TableState, ModuleInfo, GitHygieneResult, RLSTestResult,
+} from './types';
+
+export type {
+    Issue, Severity, ScanOptions, ScanResult, ScanStats, ScanSession, RouteInfo, MiddlewareInfo, EdgeFunctionInfo, RuleConfig, RuleMatch, RuleContext, LoadedRule, VibeSecurityConfig,
+    SecretScannerConfig, RLSScannerConfig, RLSTesterConfig, GitScannerConfig, AuthGuardConfig, NextConfigAuditConfig, EdgeFunctionsConfig, XSSScannerConfig, ReporterConfig, WatcherConfig, HistoryConfig,
+    TableUsage, TableSchema, TableState, ModuleInfo, GitHygieneResult, RLSPlan, RLSTestOutcome, RLSTestResult,
+    HistoryRecord, Locale, MessageParams, MessageTemplate, MessageTree, MessageCatalog,
+} from './types';
+
+const scanner = require('./scanner');
+const config = require('./config');
+const rlsScanner = require('./rls-scanner');
+const migrationParser = require('./migration-parser');
+const secretDetector = require('./secret-detector');
+const buildScanner = require('./build-scanner');
+const gitScanner = require('./git-scanner');
+const moduleGraph = require('./module-graph');
+const authGuard = require('./auth-guard');
+const nextConfig = require('./next-config');
+const edgeFunctions = require('./edge-functions');
+const dbSurface = require('./db-surface');
+const rlsTester = require('./rls-tester');
+const ruleEngine = require('./rule-engine');
+const reporters = require('./reporters');
+const fixer = require('./fixer');
+const scanCache = require('./scan-cache');
+const diffScope = require('./diff-scope');
+const gitHook = require('./git-hook');
+const i18n = require('./i18n');
+const scanHistory = require('./scan-history');
+const htmlReport = require('./html-report');
+
+type EnvEntry = { key: string; value: string; line: number; file?: string };
+
+// ─── Scan ───
+export const scan: (options?: ScanOptions) => Promise<ScanResult> = scanner.scan;
+export const createScanSession: () => ScanSession = scanCache.createScanSession;
+
+// ─── Config ───
+export const defineConfig: (config: VibeSecurityConfig) => VibeSecurityConfig = config.defineConfig;
+export const validateConfig: (config: unknown) => string[] = config.validateConfig;
+export const loadConfig: (projectRoot: string) => Promise<{ config: VibeSecurityConfig; file: string } | null> = config.loadConfig;
+
+// ─── Scanners ───
+export const parseEnvFile: (filePath: string) => EnvEntry[] = scanner.parseEnvFile;
+export const collectSourceFiles: (projectRoot: string, config: VibeSecurityConfig) => string[] = scanner.collectSourceFiles;
+export const scanEnvValues: (envEntries: EnvEntry[]) => Issue[] = secretDetector.scanEnvValues;
+export const scanSourceLiterals: (files: string[], projectRoot: string) => Issue[] = secretDetector.scanSourceLiterals;
+export const scanRLS: (databaseUrl: string, whitelisted?: string[], options?: { exposedSchemas?: string[] }) => Promise<TableState> = rlsScanner.scanRLS;
+export const scanRLSOffline: (projectRoot: string, whitelisted?: string[]) => TableState = migrationParser.scanRLSOffline;
+export const scanDatabaseSurface: (client: Client, options?: { exposedSchemas?: string[] }) => Promise<Issue[]> = dbSurface.scanDatabaseSurface;
+export const runRLSBehaviorTests: (databaseUrl: string, options?: { whitelisted?: string[]; tables?: string[] | null }) => Promise<{ issues: Issue[]; results: RLSTestResult[]; setupError: string | null }> = rlsTester.runRLSBehaviorTests;
+export const scanBuildArtifacts: (projectRoot: string, envEntries: EnvEntry[]) => { issues: Issue[]; filesScanned: number } = buildScanner.scanBuildArtifacts;
+export const scanGitHygiene: (projectRoot: string, options?: { envPatterns?: string[]; since?: string; history?: boolean; maxCommits?: number }) => GitHygieneResult = gitScanner.scanGitHygiene;
+export const buildModuleGraph: (files: string[], projectRoot: string, cache?: ScanSession['graph']) => { modules: Map<string, ModuleInfo & { deps: { target: string; line: number }[] }>; clientFiles: Set<string>; chainTo: (file: string) => string[] } = moduleGraph.buildModuleGraph;
+export const scanClientBoundary: (graph: ReturnType<typeof buildModuleGraph>, projectRoot: string) => Issue[] = moduleGraph.scanClientBoundary;
+export const scanAuthGuards: (files: string[], projectRoot: string, options?: { guards?: string[]; publicRoutes?: string[] }) => { issues: Issue[]; routes: RouteInfo[]; middleware: MiddlewareInfo | null } = authGuard.scanAuthGuards;
+export const scanNextConfig: (files: string[], projectRoot: string, options?: { externalHeaders?: string[]; sensitivePatterns?: { pattern: string }[] }) => { issues: Issue[]; file: string | null; headers: { key: string; value: unknown; file: string; line?: number }[] } | null = nextConfig.scanNextConfig;
+export const scanEdgeFunctions: (files: string[], projectRoot: string, options?: { dir?: string; guards?: string[] }) => { issues: Issue[]; functions: EdgeFunctionInfo[] } = edgeFunctions.scanEdgeFunctions;
+
+// ─── Git ───
+export const resolveDiffScope: (projectRoot: string, options?: { since?: string; staged?: boolean }) => { label: string; base: string; changed: Map<string, Set<number> | null>; overlay: Map<string, string | null> | null } | null = diffScope.resolveDiffScope;
+export const installHook: (projectRoot: string, options?: { force?: boolean }) => { file: string; status: 'created' | 'appended' | 'exists' | 'replaced' | 'foreign'; husky: boolean } = gitHook.installHook;
+
+// ─── Messages ───
+export const setLocale: (locale: string) => void = i18n.setLocale;
+export const getLocale: () => string = i18n.getLocale;
+export const registerMessages: (locale: string, messages: MessageCatalog) => void = i18n.registerMessages;
+export const t: (key: string, params?: MessageParams) => string = i18n.t;
+
+// ─── History ───
+export const createHistoryRecord: (projectRoot: string, issues: Issue[], options?: { known?: number; date?: Date }) => HistoryRecord = scanHistory.createHistoryRecord;
+export const appendHistory: (projectRoot: string, record: HistoryRecord, options?: { maxRuns?: number }) => string = scanHistory.appendHistory;
+export const readHistory: (projectRoot: string, options?: { limit?: number }) => HistoryRecord[] = scanHistory.readHistory;
+
+// ─── Rules ───
+export const loadRules: (config: VibeSecurityConfig, projectRoot: string) => { rules: LoadedRule[]; errors: string[] } = ruleEngine.loadRules;
+export const runRules: (rules: LoadedRule[], context: { files: string[]; projectRoot: string; envEntries?: EnvEntry[]; clientFiles?: Set<string> }) => Issue[] = ruleEngine.runRules;
+
+// ─── Reports & Fixes ───
+export const formatReport: (format: 'text' | 'json' | 'sarif' | 'junit', issues: Issue[], meta: { projectRoot: string; generatedAt?: string; routes?: RouteInfo[] }) => string = reporters.formatReport;
+export const exceedsThreshold: (issues: Issue[], failOn: Severity) => boolean = reporters.exceedsThreshold;
+export const planFixes: (projectRoot: string, issues: Issue[], context?: { files?: string[]; clientFiles?: Set<string>; envPatterns?: string[] }) => { fixes: { id: string; title: string; files: string[]; notes: string[] }[]; changes: { file: string; before: string | null; after: string }[] } = fixer.planFixes;
+export const applyFixes: (projectRoot: string, changes: { file: string; after: string }[]) => void = fixer.applyFixes;
+export const renderHtmlReport: (issues: Issue[], history: HistoryRecord[], meta?: { projectRoot?: string; generatedAt?: string; known?: number }) => string = htmlReport.renderHtmlReport;
+export const formatDiff: (change: { file: string; before: string | null; after: string }) => string = fixer.formatDiff;
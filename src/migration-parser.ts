@@ -0,0 +1,401 @@
+const path = require('path');
+const fs = require('fs');
+const { analyzeTable } = require('./rls-scanner');
+const { readSource } = require('./source-reader');
+
+const MIGRATIONS_DIR = path.join('supabase', 'migrations');
+const SEED_FILE = path.join('supabase', 'seed.sql');
+
+// ─── Statement Splitter ───
+// Yorumları atar, string / $$ bloklarını korur ve her ifadenin başladığı satırı kaydeder
+function splitStatements(sql) {
+    const statements = [];
+    let buf = '';
+    let line = 1;
+    let startLine = null;
+    let i = 0;
+
+    const push = () => {
+        const text = buf.trim();
+        if (text) statements.push({ text, line: startLine });
+        buf = '';
+        startLine = null;
+    };
+
+    while (i < sql.length) {
+        const ch = sql[i];
+        const next = sql[i + 1];
+
+        if (ch === '-' && next === '-') {
+            while (i < sql.length && sql[i] !== '\n') i++;
+            continue;
+        }
+        if (ch === '/' && next === '*') {
+            const end = sql.indexOf('*/', i + 2);
+            const stop = end === -1 ? sql.length : end + 2;
+            line += (sql.substring(i, stop).match(/\n/g) || []).length;
+            buf += ' ';
+            i = stop;
+            continue;
+        }
+        if (startLine === null && !/\s/.test(ch)) startLine = line;
+
+        if (ch === '\'' || ch === '"') {
+            let j = i + 1;
+            while (j < sql.length) {
+                if (sql[j] === ch && sql[j + 1] === ch) { j += 2; continue; }
+                if (sql[j] === ch) break;
+                j++;
+            }
+            const chunk = sql.substring(i, j + 1);
+            line += (chunk.match(/\n/g) || []).length;
+            buf += chunk;
+            i = j + 1;
+            continue;
+        }
+        if (ch === '$') {
+            const tag = /^\$[A-Za-z_]*\$/.exec(sql.substring(i));
+            if (tag) {
+                const end = sql.indexOf(tag[0], i + tag[0].length);
+                const stop = end === -1 ? sql.length : end + tag[0].length;
+                const chunk = sql.substring(i, stop);
+                line += (chunk.match(/\n/g) || []).length;
+                buf += chunk;
+                i = stop;
+                continue;
+            }
+        }
+        if (ch === ';') {
+            push();
+            i++;
+            continue;
+        }
+        if (ch === '\n') line++;
+        buf += ch;
+        i++;
+    }
+    push();
+    return statements;
+}
+
+// ─── Identifier Helpers ───
+const IDENT = `(?:"[^"]+"|[A-Za-z_][\\w$]*)`;
+const QUALIFIED = `(${IDENT}(?:\\s*\\.\\s*${IDENT})?)`;
+
+function unquote(ident) {
+    const t = ident.trim();
+    return t.startsWith('"') ? t.slice(1, -1) : t.toLowerCase();
+}
+
+function parseQualified(raw) {
+    const parts = raw.split(/\s*\.\s*(?=(?:[^"]*"[^"]*")*[^"]*$)/).map(unquote);
+    return parts.length === 2 ? { schema: parts[0], name: parts[1] } : { schema: 'public', name: parts[0] };
+}
+
+// "(a (b) c) rest" → { inner: 'a (b) c', end }
+function readParenthesized(text, openIndex) {
+    let depth = 0;
+    for (let i = openIndex; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '\'') { i = text.indexOf('\'', i + 1); if (i === -1) break; continue; }
+        if (ch === '(') depth++;
+        if (ch === ')' && --depth === 0) return { inner: text.substring(openIndex + 1, i), end: i + 1 };
+    }
+    return null;
+}
+
+function splitTopLevel(text) {
+    const parts = [];
+    let depth = 0;
+    let current = '';
+    let quote = null;
+    for (const ch of text) {
+        if (quote) {
+            if (ch === quote) quote = null;
+        } else if (ch === '\'' || ch === '"') {
+            quote = ch;
+        } else if (ch === '(') depth++;
+        else if (ch === ')') depth--;
+        else if (ch === ',' && depth === 0) { parts.push(current.trim()); current = ''; continue; }
+        current += ch;
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+}
+
+// USING (...) / WITH CHECK (...) ifadesini çıkarır
+function readClause(text, keyword) {
+    const m = new RegExp(`\\b${keyword}\\s*\\(`, 'i').exec(text);
+    if (!m) return undefined;
+    const block = readParenthesized(text, m.index + m[0].length - 1);
+    return block ? block.inner.trim() : undefined;
+}
+
+function parseReference(text) {
+    const m = new RegExp(`REFERENCES\\s+${QUALIFIED}\\s*(?:\\(\\s*(${IDENT})\\s*\\))?`, 'i').exec(text);
+    if (!m) return null;
+    const ref = parseQualified(m[1]);
+    return { refSchema: ref.schema, refTable: ref.name, refColumn: m[2] ? unquote(m[2]) : 'id' };
+}
+
+// ─── Schema State ───
+// relations: .from() ile sorgulanabilen view / materialized view / foreign table adları
+function createState() {
+    return { tables: new Map(), relations: new Set() };
+}
+
+function getTable(state, raw) {
+    const { schema, name } = parseQualified(raw);
+    return schema === 'public' ? state.tables.get(name) : undefined;
+}
+
+function parseCreateTable(state, stmt, file) {
+    const m = new RegExp(`^CREATE\\s+(?:(?:GLOBAL|LOCAL)\\s+)?(?:TEMP(?:ORARY)?\\s+|UNLOGGED\\s+)?TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?${QUALIFIED}\\s*\\(`, 'i').exec(stmt.text);
+    if (!m) return;
+    const { schema, name } = parseQualified(m[1]);
+    if (schema !== 'public' || /^CREATE\s+(?:GLOBAL\s+|LOCAL\s+)?TEMP/i.test(stmt.text)) return;
+    if (state.tables.has(name) && /IF\s+NOT\s+EXISTS/i.test(stmt.text)) return;
+
+    const body = readParenthesized(stmt.text, m.index + m[0].length - 1);
+    const table = {
+        name,
+        rlsEnabled: false,
+        forceRls: false,
+        owner: null,
+        policies: [],
+        columns: [],
+        foreignKeys: [],
+        location: { file, line: stmt.line },
+    };
+
+    for (const item of splitTopLevel(body ? body.inner : '')) {
+        if (/^(CONSTRAINT|PRIMARY|UNIQUE|CHECK|FOREIGN|EXCLUDE|LIKE)\b/i.test(item)) {
+            const fk = /FOREIGN\s+KEY\s*\(\s*([^)]+)\)/i.exec(item);
+            const ref = parseReference(item);
+            if (fk && ref) table.foreignKeys.push({ column: unquote(fk[1].split(',')[0]), ...ref });
+            continue;
+        }
+        const col = new RegExp(`^(${IDENT})\\s+([\\w\\s]+?)(?:\\(|\\[|\\s+(?:NOT|NULL|DEFAULT|PRIMARY|REFERENCES|UNIQUE|CHECK|CONSTRAINT|GENERATED|COLLATE)\\b|$)`, 'i').exec(item);
+        if (!col) continue;
+        const columnName = unquote(col[1]);
+        table.columns.push({ name: columnName, type: col[2].trim().toLowerCase() });
+        const ref = parseReference(item);
+        if (ref) table.foreignKeys.push({ column: columnName, ...ref });
+    }
+
+    state.tables.set(name, table);
+}
+
+function parseAlterTable(state, stmt) {
+    const m = new RegExp(`^ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?(?:ONLY\\s+)?${QUALIFIED}\\s+([\\s\\S]*)$`, 'i').exec(stmt.text);
+    if (!m) return;
+    const table = getTable(state, m[1]);
+    if (!table) return;
+    const action = m[2];
+
+    const rename = new RegExp(`^RENAME\\s+TO\\s+(${IDENT})`, 'i').exec(action);
+    if (rename) {
+        state.tables.delete(table.name);
+        table.name = unquote(rename[1]);
+        state.tables.set(table.name, table);
+        return;
+    }
+
+    for (const part of splitTopLevel(action)) {
+        if (/^ENABLE\s+ROW\s+LEVEL\s+SECURITY/i.test(part)) table.rlsEnabled = true;
+        else if (/^DISABLE\s+ROW\s+LEVEL\s+SECURITY/i.test(part)) table.rlsEnabled = false;
+        else if (/^FORCE\s+ROW\s+LEVEL\s+SECURITY/i.test(part)) table.forceRls = true;
+        else if (/^NO\s+FORCE\s+ROW\s+LEVEL\s+SECURITY/i.test(part)) table.forceRls = false;
+        else if (/^OWNER\s+TO\s+/i.test(part)) table.owner = unquote(part.replace(/^OWNER\s+TO\s+/i, ''));
+        else if (/^ADD\s+(?:COLUMN\s+)?(?!CONSTRAINT|PRIMARY|UNIQUE|CHECK|FOREIGN)/i.test(part)) {
+            const col = new RegExp(`^ADD\\s+(?:COLUMN\\s+)?(?:IF\\s+NOT\\s+EXISTS\\s+)?(${IDENT})\\s+([\\w]+)`, 'i').exec(part);
+            if (col) {
+                table.columns.push({ name: unquote(col[1]), type: col[2].toLowerCase() });
+                const ref = parseReference(part);
+                if (ref) table.foreignKeys.push({ column: unquote(col[1]), ...ref });
+            }
+        } else if (/^ADD\s+(?:CONSTRAINT\s+\S+\s+)?FOREIGN\s+KEY/i.test(part)) {
+            const fk = /FOREIGN\s+KEY\s*\(\s*([^)]+)\)/i.exec(part);
+            const ref = parseReference(part);
+            if (fk && ref) table.foreignKeys.push({ column: unquote(fk[1].split(',')[0]), ...ref });
+        } else if (/^DROP\s+COLUMN\s+/i.test(part)) {
+            const col = new RegExp(`^DROP\\s+COLUMN\\s+(?:IF\\s+EXISTS\\s+)?(${IDENT})`, 'i').exec(part);
+            if (col) {
+                const dropped = unquote(col[1]);
+                table.columns = table.columns.filter(c => c.name !== dropped);
+                table.foreignKeys = table.foreignKeys.filter(f => f.column !== dropped);
+            }
+        }
+    }
+}
+
+function parseRoles(text) {
+    return splitTopLevel(text).map(unquote);
+}
+
+// Politika tanımının USING / WITH CHECK öncesi kısmı (AS, FOR, TO); ifadelerdeki 'to', 'for' gibi sözcükler dahil edilmez
+function policyHead(text) {
+    let depth = 0;
+    let quote = null;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === quote) quote = null;
+        } else if (ch === '\'' || ch === '"') {
+            quote = ch;
+        } else if (ch === '(') depth++;
+        else if (ch === ')') depth--;
+        else if (depth === 0 && (i === 0 || /\s/.test(text[i - 1])) && /^(?:USING|WITH\s+CHECK)\b/i.test(text.substring(i))) {
+            return text.substring(0, i);
+        }
+    }
+    return text;
+}
+
+const POLICY_ROLES = /\bTO\s+([\s\S]+?)\s*$/i;
+
+function parseCreatePolicy(state, stmt) {
+    const m = new RegExp(`^CREATE\\s+POLICY\\s+(${IDENT})\\s+ON\\s+${QUALIFIED}([\\s\\S]*)$`, 'i').exec(stmt.text);
+    if (!m) return;
+    const table = getTable(state, m[2]);
+    if (!table) return;
+    const rest = m[3];
+    const head = policyHead(rest);
+
+    const cmd = /\bFOR\s+(ALL|SELECT|INSERT|UPDATE|DELETE)\b/i.exec(head);
+    const roles = POLICY_ROLES.exec(head);
+    const name = unquote(m[1]);
+
+    table.policies = table.policies.filter(p => p.name !== name);
+    table.policies.push({
+        name,
+        cmd: cmd ? cmd[1].toUpperCase() : 'ALL',
+        roles: roles ? parseRoles(roles[1]) : ['public'],
+        qual: readClause(rest, 'USING') ?? null,
+        withCheck: readClause(rest, 'WITH\\s+CHECK') ?? null,
+        permissive: !/\bAS\s+RESTRICTIVE\b/i.test(head),
+    });
+}
+
+function parseAlterPolicy(state, stmt) {
+    const m = new RegExp(`^ALTER\\s+POLICY\\s+(${IDENT})\\s+ON\\s+${QUALIFIED}([\\s\\S]*)$`, 'i').exec(stmt.text);
+    if (!m) return;
+    const table = getTable(state, m[2]);
+    const policy = table && table.policies.find(p => p.name === unquote(m[1]));
+    if (!policy) return;
+    const rest = m[3];
+
+    const rename = new RegExp(`^\\s*RENAME\\s+TO\\s+(${IDENT})`, 'i').exec(rest);
+    if (rename) {
+        policy.name = unquote(rename[1]);
+        return;
+    }
+    const roles = POLICY_ROLES.exec(policyHead(rest));
+    if (roles) policy.roles = parseRoles(roles[1]);
+    const qual = readClause(rest, 'USING');
+    if (qual !== undefined) policy.qual = qual;
+    const withCheck = readClause(rest, 'WITH\\s+CHECK');
+    if (withCheck !== undefined) policy.withCheck = withCheck;
+}
+
+function parseDropPolicy(state, stmt) {
+    const m = new RegExp(`^DROP\\s+POLICY\\s+(?:IF\\s+EXISTS\\s+)?(${IDENT})\\s+ON\\s+${QUALIFIED}`, 'i').exec(stmt.text);
+    if (!m) return;
+    const table = getTable(state, m[2]);
+    if (table) table.policies = table.policies.filter(p => p.name !== unquote(m[1]));
+}
+
+function parseDropTable(state, stmt) {
+    const m = new RegExp(`^DROP\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?([\\s\\S]+?)(?:\\s+(?:CASCADE|RESTRICT))?$`, 'i').exec(stmt.text);
+    if (!m) return;
+    for (const raw of splitTopLevel(m[1])) {
+        const { schema, name } = parseQualified(raw);
+        if (schema === 'public') state.tables.delete(name);
+    }
+}
+
+function parseCreateRelation(state, stmt) {
+    const m = new RegExp(`^CREATE\\s+(?:OR\\s+REPLACE\\s+)?(?:(?:TEMP(?:ORARY)?|RECURSIVE)\\s+)*(?:MATERIALIZED\\s+VIEW|VIEW|FOREIGN\\s+TABLE)\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?${QUALIFIED}`, 'i').exec(stmt.text);
+    if (!m || /^CREATE\s+(?:OR\s+REPLACE\s+)?TEMP/i.test(stmt.text)) return;
+    const { schema, name } = parseQualified(m[1]);
+    if (schema === 'public') state.relations.add(name);
+}
+
+function parseDropRelation(state, stmt) {
+    const m = new RegExp(`^DROP\\s+(?:MATERIALIZED\\s+VIEW|VIEW|FOREIGN\\s+TABLE)\\s+(?:IF\\s+EXISTS\\s+)?([\\s\\S]+?)(?:\\s+(?:CASCADE|RESTRICT))?$`, 'i').exec(stmt.text);
+    if (!m) return;
+    for (const raw of splitTopLevel(m[1])) {
+        const { schema, name } = parseQualified(raw);
+        if (schema === 'public') state.relations.delete(name);
+    }
+}
+
+// ─── Replay ───
+function applyStatement(state, stmt, file) {
+    const head = stmt.text.substring(0, 40).toUpperCase().replace(/\s+/g, ' ');
+    if (/^CREATE (GLOBAL |LOCAL )?(TEMP(ORARY)? |UNLOGGED )?TABLE/.test(head)) parseCreateTable(state, stmt, file);
+    else if (head.startsWith('ALTER TABLE')) parseAlterTable(state, stmt);
+    else if (head.startsWith('DROP TABLE')) parseDropTable(state, stmt);
+    else if (/^CREATE (OR REPLACE )?((TEMP(ORARY)?|RECURSIVE) )*(MATERIALIZED VIEW|VIEW|FOREIGN TABLE)/.test(head)) parseCreateRelation(state, stmt);
+    else if (/^DROP (MATERIALIZED VIEW|VIEW|FOREIGN TABLE)/.test(head)) parseDropRelation(state, stmt);
+    else if (head.startsWith('CREATE POLICY')) parseCreatePolicy(state, stmt);
+    else if (head.startsWith('ALTER POLICY')) parseAlterPolicy(state, stmt);
+    else if (head.startsWith('DROP POLICY')) parseDropPolicy(state, stmt);
+}
+
+function listMigrationFiles(projectRoot) {
+    const dir = path.join(projectRoot, MIGRATIONS_DIR);
+    const files = fs.existsSync(dir)
+        ? fs.readdirSync(dir).filter(f => f.endsWith('.sql')).sort().map(f => path.join(MIGRATIONS_DIR, f))
+        : [];
+    if (fs.existsSync(path.join(projectRoot, SEED_FILE))) files.push(SEED_FILE);
+    return files;
+}
+
+function hasMigrations(projectRoot) {
+    return listMigrationFiles(projectRoot).length > 0;
+}
+
+function replayState(projectRoot) {
+    const state = createState();
+    for (const file of listMigrationFiles(projectRoot)) {
+        const sql = readSource(path.join(projectRoot, file));
+        const rel = file.replace(/\\/g, '/');
+        for (const stmt of splitStatements(sql)) applyStatement(state, stmt, rel);
+    }
+    return state;
+}
+
+/**
+ * Migration dosyalarını sırayla uygulayarak son şema durumunu çıkarır.
+ * Dönüş: Map<table, { name, rlsEnabled, forceRls, owner, policies, columns, foreignKeys, location }>
+ */
+function replayMigrations(projectRoot) {
+    return replayState(projectRoot).tables;
+}
+
+// ─── Offline Scan ───
+// scanRLS ile aynı dönüş şeklini üretir: { issues, filteredTables, relations, schemas }
+function scanRLSOffline(projectRoot, whitelisted) {
+    const issues = [];
+    const filteredTables = new Map();
+    const schemas = new Map();
+    const { tables, relations } = replayState(projectRoot);
+
+    for (const table of tables.values()) {
+        filteredTables.set(table.name, [{ ...table.location }]);
+        schemas.set(table.name, { columns: table.columns, foreignKeys: table.foreignKeys });
+
+        if (whitelisted && whitelisted.includes(table.name)) continue;
+        issues.push(...analyzeTable(table, { location: table.location }));
+    }
+
+    return { issues, filteredTables, relations, schemas };
+}
+
+module.exports = {
+    splitStatements,
+    replayMigrations,
+    hasMigrations,
+    scanRLSOffline,
+};
@@ -0,0 +1,266 @@
+const path = require('path');
+const fs = require('fs');
+const crypto = require('crypto');
+const ts = require('typescript');
+const { readSource } = require('./source-reader');
+const { ruleText } = require('./i18n');
+
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+// İstemci bundle'ında değeri zaten bilinen / Next.js'in kendisinin inline ettiği değişkenler
+const PUBLIC_ENV = /^(NEXT_PUBLIC_|NODE_ENV$|NEXT_RUNTIME$|VERCEL_ENV$|VERCEL_URL$)/;
+const SERVER_MODULES = ['pg', 'postgres', 'fs', 'fs/promises', 'child_process'];
+const SUPABASE_FACTORIES = ['createClient', 'createServerClient', 'createAdminClient', 'createServiceClient'];
+const SERVICE_ROLE = /service_?role/i;
+
+// Bulgu metinleri: locales/*.ts rules['client-boundary/<neden>']
+const REASONS = {
+    'service-role': { severity: 'critical' },
+    'server-env': { severity: 'warning' },
+    'node-module': { severity: 'warning' },
+};
+
+// ─── tsconfig paths ───
+// extends zinciri TypeScript'in kendi config çözümleyicisiyle takip edilir
+function loadPathAliases(projectRoot) {
+    for (const name of ['tsconfig.json', 'jsconfig.json']) {
+        const configPath = path.join(projectRoot, name);
+        if (!fs.existsSync(configPath)) continue;
+        try {
+            const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+            if (error) continue;
+            const parsed = ts.parseJsonConfigFileContent(config, ts.sys, projectRoot, undefined, configPath);
+            const { paths, baseUrl, pathsBasePath } = parsed.options;
+            const base = baseUrl || pathsBasePath || projectRoot;
+            const aliases = Object.entries(paths || {}).map(([pattern, targets]: [string, string[]]) => ({
+                prefix: pattern.replace(/\*$/, ''),
+                wildcard: pattern.endsWith('*'),
+                targets: targets.map(t => path.resolve(base, t)),
+            }));
+            return { aliases, baseUrl: baseUrl || null };
+        } catch { }
+    }
+    return { aliases: [], baseUrl: null };
+}
+
+// ─── Resolver ───
+// Sadece taranan dosya kümesi içinde çözümleme yapılır (node_modules grafa girmez)
+function createResolver(projectRoot, files) {
+    const known = new Set(files);
+    const { aliases, baseUrl } = loadPathAliases(projectRoot);
+
+    const probe = (base) => {
+        if (known.has(base)) return base;
+        // ESM TypeScript: './util.js' → './util.ts'
+        const stripped = base.replace(/\.(?:[mc]?js|jsx)$/, '');
+        for (const ext of RESOLVE_EXTENSIONS) {
+            if (known.has(stripped + ext)) return stripped + ext;
+        }
+        for (const ext of RESOLVE_EXTENSIONS) {
+            const index = path.join(base, `index${ext}`);
+            if (known.has(index)) return index;
+        }
+        return null;
+    };
+
+    return (specifier, fromFile) => {
+        if (specifier.startsWith('.')) return probe(path.resolve(path.dirname(fromFile), specifier));
+        if (specifier.startsWith('/')) return probe(specifier);
+
+        // En uzun önek önce: "@/components/*" "@/*" ile çakışmasın
+        const matching = aliases
+            .filter(a => a.wildcard ? specifier.startsWith(a.prefix) : specifier === a.prefix)
+            .sort((a, b) => b.prefix.length - a.prefix.length);
+        for (const alias of matching) {
+            const rest = alias.wildcard ? specifier.substring(alias.prefix.length) : '';
+            for (const target of alias.targets) {
+                const hit = probe(target.replace(/\*$/, '') + rest);
+                if (hit) return hit;
+            }
+        }
+        return baseUrl ? probe(path.resolve(baseUrl, specifier)) : null;
+    };
+}
+
+// ─── Module Parser ───
+function scriptKindFor(fileName) {
+    if (fileName.endsWith('.tsx')) return ts.ScriptKind.TSX;
+    if (fileName.endsWith('.jsx')) return ts.ScriptKind.JSX;
+    if (/\.[mc]?js$/.test(fileName)) return ts.ScriptKind.JS;
+    return ts.ScriptKind.TS;
+}
+
+// Next.js gibi sadece dosyanın başındaki direktif prologunu sayar
+function readDirective(sf) {
+    for (const statement of sf.statements) {
+        if (!ts.isExpressionStatement(statement) || !ts.isStringLiteral(statement.expression)) break;
+        if (statement.expression.text === 'use client') return 'client';
+        if (statement.expression.text === 'use server') return 'server';
+    }
+    return null;
+}
+
+function isServerModule(specifier) {
+    return SERVER_MODULES.includes(specifier.replace(/^node:/, ''));
+}
+
+function envName(node) {
+    // process.env.X / process.env['X']
+    const target = ts.isPropertyAccessExpression(node) ? node.expression : ts.isElementAccessExpression(node) ? node.expression : null;
+    if (!target || target.getText() !== 'process.env') return null;
+    if (ts.isPropertyAccessExpression(node)) return node.name.text;
+    return ts.isStringLiteralLike(node.argumentExpression) ? node.argumentExpression.text : null;
+}
+
+/**
+ * Dosya başına: { directive, imports: [{ specifier, line }], evidence: [{ reason, line, detail }], guarded }
+ * Tip importları (import type / export type) bundle'a girmediği için atlanır.
+ */
+function parseModule(filePath, content) {
+    const sf = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKindFor(filePath));
+    const lineOf = (node) => sf.getLineAndCharacterOfPosition(node.getStart(sf)).line + 1;
+    const imports = [];
+    const evidence = [];
+    let guarded = false;
+
+    const addImport = (specifier, node) => {
+        if (specifier === 'server-only') guarded = true;
+        if (isServerModule(specifier)) evidence.push({ reason: 'node-module', line: lineOf(node), detail: specifier });
+        imports.push({ specifier, line: lineOf(node) });
+    };
+
+    const visit = (node) => {
+        if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+            if (!node.importClause?.isTypeOnly) addImport(node.moduleSpecifier.text, node);
+        } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+            if (!node.isTypeOnly) addImport(node.moduleSpecifier.text, node);
+        } else if (ts.isCallExpression(node)) {
+            const [first] = node.arguments;
+            const dynamic = node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+                (ts.isIdentifier(node.expression) && node.expression.text === 'require');
+            if (dynamic && first && ts.isStringLiteralLike(first)) addImport(first.text, node);
+
+            const callee = ts.isPropertyAccessExpression(node.expression) ? node.expression.name.text
+                : ts.isIdentifier(node.expression) ? node.expression.text : '';
+            if (SUPABASE_FACTORIES.includes(callee) && node.arguments.some(arg => SERVICE_ROLE.test(arg.getText(sf)))) {
+                evidence.push({ reason: 'service-role', line: lineOf(node), detail: `${callee}()` });
+            }
+        } else if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+            const name = envName(node);
+            if (name && !PUBLIC_ENV.test(name)) evidence.push({ reason: 'server-env', line: lineOf(node), detail: `process.env.${name}` });
+        } else if (ts.isVariableDeclaration(node) && node.initializer && node.initializer.getText(sf) === 'process.env' && ts.isObjectBindingPattern(node.name)) {
+            // const { SECRET } = process.env
+            for (const element of node.name.elements) {
+                const name = (element.propertyName || element.name).getText(sf);
+                if (!PUBLIC_ENV.test(name)) evidence.push({ reason: 'server-env', line: lineOf(element), detail: `process.env.${name}` });
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sf);
+
+    return { directive: readDirective(sf), imports, evidence, guarded };
+}
+
+// ─── Graph ───
+/**
+ * files: mutlak dosya yolları (walkDir çıktısı)
+ * cache: Map<dosya, { hash, info }> — izleme modunda taramalar arasında korunur
+ * Dönüş: { modules: Map<dosya, info + deps>, clientFiles: Set<dosya>, chainTo(dosya) }
+ *
+ * "use client" dosyaları istemci sınırıdır; onlardan (transitif olarak) import edilen her modül
+ * istemci bundle'ına girer. "use server" modülleri Server Action referansı olarak kalır, yayılım orada durur.
+ */
+function buildModuleGraph(files, projectRoot, cache = new Map()) {
+    const resolve = createResolver(projectRoot, files);
+    const modules = new Map();
+
+    const present = new Set(files);
+    for (const cached of [...cache.keys()]) {
+        if (!present.has(cached)) cache.delete(cached);
+    }
+
+    for (const filePath of files) {
+        let content;
+        try { content = readSource(filePath); } catch { continue; }
+        const hash = crypto.createHash('sha1').update(content).digest('hex');
+        let entry = cache.get(filePath);
+        if (!entry || entry.hash !== hash) {
+            try {
+                entry = { hash, info: parseModule(filePath, content) };
+            } catch {
+                entry = { hash, info: { directive: null, imports: [], evidence: [], guarded: false } };
+            }
+            cache.set(filePath, entry);
+        }
+        const deps = [];
+        for (const imp of entry.info.imports) {
+            const target = resolve(imp.specifier, filePath);
+            if (target) deps.push({ target, line: imp.line });
+        }
+        modules.set(filePath, { ...entry.info, deps });
+    }
+
+    // İlk ulaşan (en kısa) zincir tutulur
+    const parent = new Map();
+    const queue = [];
+    for (const [filePath, mod] of modules) {
+        if (mod.directive === 'client') { parent.set(filePath, null); queue.push(filePath); }
+    }
+    while (queue.length > 0) {
+        const current = queue.shift();
+        for (const dep of modules.get(current).deps) {
+            if (parent.has(dep.target) || modules.get(dep.target).directive === 'server') continue;
+            parent.set(dep.target, current);
+            queue.push(dep.target);
+        }
+    }
+
+    const chainTo = (filePath) => {
+        if (!parent.has(filePath)) return [];
+        const chain = [];
+        for (let f = filePath; f; f = parent.get(f)) chain.unshift(f);
+        return chain;
+    };
+
+    return { modules, clientFiles: new Set(parent.keys()), chainTo };
+}
+
+// ─── Client Boundary Scanner ───
+// İstemci bundle'ına giren sunucuya özel modüller; modül başına her neden için tek bulgu
+function scanClientBoundary(graph, projectRoot) {
+    const rel = (f) => path.relative(projectRoot, f).replace(/\\/g, '/');
+    const issues = [];
+
+    for (const filePath of graph.clientFiles) {
+        const mod = graph.modules.get(filePath);
+        // import 'server-only' varsa Next.js build'i zaten kırar
+        if (mod.guarded || mod.evidence.length === 0 || rel(filePath).includes('security-watchdog')) continue;
+
+        const chain = graph.chainTo(filePath).map(rel);
+        for (const reason of Object.keys(REASONS)) {
+            const hits = mod.evidence.filter(e => e.reason === reason);
+            if (hits.length === 0) continue;
+            const details = [...new Set(hits.map(h => h.detail))];
+            const spec = REASONS[reason];
+            issues.push({
+                severity: spec.severity, category: 'client-boundary', ruleId: `client-boundary/${reason}`,
+                ...ruleText(`client-boundary/${reason}`, {
+                    file: rel(filePath),
+                    detail: details.slice(0, 4).join(', ') + (details.length > 4 ? ` (+${details.length - 4})` : ''),
+                    chain: chain.join(' → '),
+                }),
+                file: rel(filePath), line: hits[0].line,
+                chain,
+            });
+        }
+    }
+    return issues;
+}
+
+module.exports = {
+    loadPathAliases,
+    createResolver,
+    parseModule,
+    buildModuleGraph,
+    scanClientBoundary,
+};
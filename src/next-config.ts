@@ -0,0 +1,470 @@
+import type { Issue, MessageParams, NextConfigAuditConfig, SensitivePattern } from './types';
+const path = require('path');
+const fs = require('fs');
+const ts = require('typescript');
+const { readSource } = require('./source-reader');
+const { classifyValue, maskSecret, secretDigest } = require('./secret-detector');
+const { MIDDLEWARE_FILES, ROUTE_FILE, PAGES_API_FILE } = require('./auth-guard');
+const { t, ruleText } = require('./i18n');
+
+const NEXT_CONFIG_FILES = ['next.config.js', 'next.config.mjs', 'next.config.ts', 'next.config.cjs'];
+// 180 gün; HSTS preload listesi için en az 1 yıl (31536000) gerekir
+const MIN_HSTS_MAX_AGE = 15552000;
+// next.config env bloğu build sırasında istemci bundle'ına gömülür; bu adlar sunucu sırrına işaret eder
+const SERVER_SECRET_NAME = /secret|private|passw|token|service_?role|api_?key|database_url|db_url|_key$/i;
+const WEAK_REFERRER_POLICIES = ['unsafe-url', 'no-referrer-when-downgrade'];
+
+// ─── Helpers ───
+function scriptKindFor(fileName) {
+    if (fileName.endsWith('.tsx')) return ts.ScriptKind.TSX;
+    if (fileName.endsWith('.jsx')) return ts.ScriptKind.JSX;
+    if (/\.[mc]?js$/.test(fileName)) return ts.ScriptKind.JS;
+    return ts.ScriptKind.TS;
+}
+
+function parse(filePath) {
+    return ts.createSourceFile(filePath, readSource(filePath), ts.ScriptTarget.Latest, true, scriptKindFor(filePath));
+}
+
+function lineOf(sf, node) {
+    return sf.getLineAndCharacterOfPosition(node.getStart(sf)).line + 1;
+}
+
+function propertyName(prop, sf) {
+    if (!prop.name) return '';
+    if (ts.isIdentifier(prop.name) || ts.isStringLiteralLike(prop.name)) return prop.name.text;
+    return prop.name.getText(sf);
+}
+
+// x as T, x satisfies T, (x)
+function unwrap(node) {
+    while (node && (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node))) node = node.expression;
+    return node;
+}
+
+// Dosyadaki değişken tanımları: ad → ilk initializer (fonksiyon içindekiler dahil; middleware'deki cspHeader gibi)
+function declarations(sf) {
+    const decls = new Map();
+    const visit = (node) => {
+        if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer && !decls.has(node.name.text)) decls.set(node.name.text, node.initializer);
+        ts.forEachChild(node, visit);
+    };
+    visit(sf);
+    return decls;
+}
+
+function resolve(node, decls, seen = new Set()) {
+    node = unwrap(node);
+    while (node && ts.isIdentifier(node) && decls.has(node.text) && !seen.has(node.text)) {
+        seen.add(node.text);
+        node = unwrap(decls.get(node.text));
+    }
+    return node;
+}
+
+/**
+ * Statik olarak okunabilen değer: string / sayı / boolean / dizi / nesne.
+ * Çözülemeyen template parçaları '…' olur (CSP'deki 'nonce-${nonce}' gibi); hiç çözülemezse undefined.
+ */
+function evaluate(node, decls, depth = 0) {
+    node = resolve(node, decls);
+    if (!node || depth > 8) return undefined;
+    if (ts.isStringLiteralLike(node)) return node.text;
+    if (ts.isNumericLiteral(node)) return Number(node.text);
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+    if (ts.isTemplateExpression(node)) {
+        return node.head.text + node.templateSpans.map(span => {
+            const value = evaluate(span.expression, decls, depth + 1);
+            return (typeof value === 'string' || typeof value === 'number' ? value : '…') + span.literal.text;
+        }).join('');
+    }
+    if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+        const left = evaluate(node.left, decls, depth + 1);
+        const right = evaluate(node.right, decls, depth + 1);
+        return left === undefined && right === undefined ? undefined : `${left ?? '…'}${right ?? '…'}`;
+    }
+    if (ts.isArrayLiteralExpression(node)) return node.elements.map(e => evaluate(e, decls, depth + 1));
+    if (ts.isObjectLiteralExpression(node)) {
+        const obj = {};
+        for (const prop of node.properties) {
+            if (ts.isPropertyAssignment(prop)) obj[propertyName(prop, null)] = evaluate(prop.initializer, decls, depth + 1);
+            else if (ts.isShorthandPropertyAssignment(prop)) obj[prop.name.text] = evaluate(prop.name, decls, depth + 1);
+        }
+        return obj;
+    }
+    // [..].join('; '), csp.replace(/\s+/g, ' ').trim()
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+        const method = node.expression.name.text;
+        const receiver = evaluate(node.expression.expression, decls, depth + 1);
+        if (method === 'join' && Array.isArray(receiver)) {
+            const separator = node.arguments[0] ? evaluate(node.arguments[0], decls, depth + 1) : ',';
+            return receiver.map(v => v ?? '…').join(typeof separator === 'string' ? separator : ',');
+        }
+        if (['replace', 'replaceAll', 'trim'].includes(method) && typeof receiver === 'string') return receiver.replace(/\s+/g, ' ').trim();
+    }
+    return undefined;
+}
+
+// process.env.X / process.env['X'] → X
+function envReference(node) {
+    node = unwrap(node);
+    if (ts.isPropertyAccessExpression(node) && node.expression.getText() === 'process.env') return node.name.text;
+    if (ts.isElementAccessExpression(node) && node.expression.getText() === 'process.env' && ts.isStringLiteralLike(node.argumentExpression)) return node.argumentExpression.text;
+    return null;
+}
+
+// *.example.com / **.example.com güvenli sayılır; '**', '*.com' gibi kalıplar her host'a izin verir
+function isWildcardHost(host) {
+    if (typeof host !== 'string' || !host.includes('*')) return false;
+    const rest = host.replace(/^https?:\/\//, '').replace(/^(?:\*\*?\.)+/, '');
+    return rest.includes('*') || rest.split('.').filter(Boolean).length < 2;
+}
+
+// ─── Config Object ───
+// module.exports = {...} | export default withX(nextConfig) | (phase) => ({...})
+function findConfigObject(sf, decls) {
+    let root = null;
+    for (const statement of sf.statements) {
+        if (ts.isExportAssignment(statement)) root = statement.expression;
+        if (ts.isExpressionStatement(statement) && ts.isBinaryExpression(statement.expression)
+            && statement.expression.left.getText(sf) === 'module.exports') root = statement.expression.right;
+    }
+    const visit = (node, depth) => {
+        node = resolve(node, decls);
+        if (!node || depth > 5) return null;
+        if (ts.isObjectLiteralExpression(node)) return node;
+        if (ts.isCallExpression(node)) {
+            for (const arg of node.arguments) {
+                const found = visit(arg, depth + 1);
+                if (found) return found;
+            }
+            return ts.isCallExpression(node.expression) ? visit(node.expression, depth + 1) : null;
+        }
+        if (ts.isArrowFunction(node) || ts.isFunctionExpression(node) || ts.isFunctionDeclaration(node)) {
+            if (node.body && !ts.isBlock(node.body)) return visit(node.body, depth + 1);
+            let found = null;
+            const walk = (child) => {
+                if (found) return;
+                if (ts.isReturnStatement(child) && child.expression) found = visit(child.expression, depth + 1);
+                else if (!ts.isFunctionLike(child)) ts.forEachChild(child, walk);
+            };
+            if (node.body) ts.forEachChild(node.body, walk);
+            return found;
+        }
+        return null;
+    };
+    return root ? visit(root, 0) : null;
+}
+
+function member(obj, name, sf) {
+    if (!obj || !ts.isObjectLiteralExpression(obj)) return null;
+    for (const prop of obj.properties) {
+        if (propertyName(prop, sf) !== name) continue;
+        if (ts.isPropertyAssignment(prop)) return prop.initializer;
+        if (ts.isShorthandPropertyAssignment(prop)) return prop.name;
+        if (ts.isMethodDeclaration(prop)) return prop;
+    }
+    return null;
+}
+
+// ─── Header Collection ───
+/**
+ * headers() gövdesindeki { key, value } nesneleri; gövdenin referans verdiği değişkenler (securityHeaders dizisi gibi)
+ * de taranır. Dönüş: [{ key, value, file, line }]
+ */
+function configHeaders(headersNode, sf, decls, rel) {
+    const found = [];
+    const seen = new Set();
+    const visit = (node) => {
+        if (ts.isIdentifier(node) && decls.has(node.text) && !seen.has(node.text)) {
+            seen.add(node.text);
+            visit(decls.get(node.text));
+        }
+        if (ts.isObjectLiteralExpression(node)) {
+            const key = member(node, 'key', sf);
+            const value = member(node, 'value', sf);
+            if (key && value && ts.isStringLiteralLike(unwrap(key))) {
+                found.push({ key: unwrap(key).text, value: evaluate(value, decls), file: rel, line: lineOf(sf, node) });
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(headersNode);
+    return found;
+}
+
+// response.headers.set('Content-Security-Policy', csp), res.setHeader(...), { 'X-Frame-Options': 'DENY' }
+function codeHeaders(sf, decls, rel) {
+    const found = [];
+    const visit = (node) => {
+        if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)
+            && ['set', 'append', 'setHeader', 'header'].includes(node.expression.name.text)
+            && node.arguments.length >= 2 && ts.isStringLiteralLike(node.arguments[0])) {
+            found.push({ key: node.arguments[0].text, value: evaluate(node.arguments[1], decls), valueNode: node.arguments[1], file: rel, line: lineOf(sf, node) });
+        } else if (ts.isPropertyAssignment(node) && ts.isStringLiteralLike(node.name) && /^[A-Za-z-]+$/.test(node.name.text) && node.name.text.includes('-')) {
+            found.push({ key: node.name.text, value: evaluate(node.initializer, decls), valueNode: node.initializer, file: rel, line: lineOf(sf, node) });
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sf);
+    return found;
+}
+
+// vercel.json → headers: [{ source, headers: [{ key, value }] }]
+function vercelHeaders(projectRoot) {
+    const filePath = path.join(projectRoot, 'vercel.json');
+    if (!fs.existsSync(filePath)) return [];
+    try {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        const lines = content.split(/\r?\n/);
+        const found = [];
+        for (const rule of JSON.parse(content).headers || []) {
+            for (const header of rule.headers || []) {
+                if (typeof header.key !== 'string') continue;
+                const index = lines.findIndex(l => l.includes(`"${header.key}"`));
+                found.push({ key: header.key, value: header.value, file: 'vercel.json', line: index === -1 ? undefined : index + 1 });
+            }
+        }
+        return found;
+    } catch {
+        return [];
+    }
+}
+
+// ─── Header Checks ───
+function parseCsp(value) {
+    const directives = new Map();
+    for (const part of String(value).split(';')) {
+        const [name, ...sources] = part.trim().split(/\s+/);
+        if (name && !directives.has(name.toLowerCase())) directives.set(name.toLowerCase(), sources);
+    }
+    return directives;
+}
+
+function cspProblems(value) {
+    const directives = parseCsp(value);
+    const problems = [];
+    const script = directives.get('script-src') || directives.get('default-src');
+    if (!script) return [t('nextConfig.cspNoScriptSrc')];
+    const strict = script.some(s => /^'(?:nonce-|sha(?:256|384|512)-|strict-dynamic')/.test(s));
+    if (script.includes("'unsafe-eval'")) problems.push(t('nextConfig.cspUnsafeEval'));
+    if (script.includes("'unsafe-inline'") && !strict) problems.push(t('nextConfig.cspUnsafeInline'));
+    const wildcard = script.filter(s => ['*', 'http:', 'https:', 'data:'].includes(s));
+    if (wildcard.length > 0 && !script.includes("'strict-dynamic'")) problems.push(t('nextConfig.cspWildcard', { sources: wildcard.join(' ') }));
+    return problems;
+}
+
+function headerIssue(ruleId, severity, params, where) {
+    return {
+        severity, category: 'security-headers', ruleId,
+        ...ruleText(ruleId, params),
+        file: where.file, line: where.line,
+        context: where.context,
+    };
+}
+
+/**
+ * Yapılandırılan başlıklar proje genelinde değerlendirilir (herhangi bir kaynakta ayarlanmış olması yeterli);
+ * external: CDN / proxy tarafından eklendiği için eksik sayılmayacak başlıklar
+ */
+function checkHeaders(headers, anchor, external) {
+    const issues = [];
+    const find = (name) => headers.find(h => h.key.toLowerCase() === name.toLowerCase());
+    const skip = (name) => external.some(h => h.toLowerCase() === name.toLowerCase());
+    const missing = (ruleId, severity, header) => {
+        if (!skip(header)) issues.push(headerIssue(ruleId, severity, { header }, { ...anchor, context: header }));
+    };
+    const at = (header) => ({ file: header.file, line: header.line, context: `${header.key}: ${header.value ?? '…'}` });
+
+    const csp = find('Content-Security-Policy');
+    const cspReportOnly = find('Content-Security-Policy-Report-Only');
+    if (csp && typeof csp.value === 'string') {
+        const problems = cspProblems(csp.value);
+        if (problems.length > 0) issues.push(headerIssue('security-headers/weak-csp', 'warning', { problems: problems.join('; ') }, at(csp)));
+    } else if (cspReportOnly) {
+        issues.push(headerIssue('security-headers/weak-csp', 'warning', { problems: t('nextConfig.cspReportOnly') }, at(cspReportOnly)));
+    } else if (!csp) {
+        missing('security-headers/missing-csp', 'warning', 'Content-Security-Policy');
+    }
+
+    const hsts = find('Strict-Transport-Security');
+    if (!hsts) missing('security-headers/missing-hsts', 'info', 'Strict-Transport-Security');
+    else if (typeof hsts.value === 'string') {
+        const maxAge = /max-age\s*=\s*"?(\d+)/i.exec(hsts.value);
+        if (!maxAge || Number(maxAge[1]) < MIN_HSTS_MAX_AGE) issues.push(headerIssue('security-headers/weak-hsts', 'warning', { maxAge: maxAge ? maxAge[1] : '?', min: MIN_HSTS_MAX_AGE }, at(hsts)));
+    }
+
+    // X-Frame-Options veya CSP frame-ancestors'tan biri yeterli
+    const frameOptions = find('X-Frame-Options');
+    const ancestors = csp && typeof csp.value === 'string' ? parseCsp(csp.value).get('frame-ancestors') : null;
+    if (ancestors && ancestors.some(s => ['*', 'http:', 'https:'].includes(s))) {
+        issues.push(headerIssue('security-headers/weak-frame-protection', 'warning', { value: `frame-ancestors ${ancestors.join(' ')}` }, at(csp)));
+    } else if (!ancestors && frameOptions && typeof frameOptions.value === 'string' && !['DENY', 'SAMEORIGIN'].includes(frameOptions.value.trim().toUpperCase())) {
+        issues.push(headerIssue('security-headers/weak-frame-protection', 'warning', { value: `X-Frame-Options: ${frameOptions.value}` }, at(frameOptions)));
+    } else if (!ancestors && !frameOptions) {
+        missing('security-headers/missing-frame-protection', 'warning', 'X-Frame-Options');
+    }
+
+    const referrer = find('Referrer-Policy');
+    if (!referrer) missing('security-headers/missing-referrer-policy', 'info', 'Referrer-Policy');
+    else if (typeof referrer.value === 'string') {
+        // Virgüllü listede tarayıcı desteklediği son değeri uygular
+        const effective = referrer.value.split(',').map(v => v.trim().toLowerCase()).filter(Boolean).pop();
+        if (WEAK_REFERRER_POLICIES.includes(effective)) issues.push(headerIssue('security-headers/weak-referrer-policy', 'warning', { value: effective }, at(referrer)));
+    }
+
+    if (!find('Permissions-Policy') && !find('Feature-Policy')) missing('security-headers/missing-permissions-policy', 'info', 'Permissions-Policy');
+    return issues;
+}
+
+// ─── CORS ───
+const REFLECTED_ORIGIN = /headers\.get\(\s*['"`]origin['"`]\s*\)|headers\.origin\b|headers\[\s*['"`]origin['"`]\s*\]/i;
+
+function corsIssues(headers) {
+    const issues = [];
+    const byFile = new Map();
+    for (const header of headers) {
+        if (!byFile.has(header.file)) byFile.set(header.file, []);
+        byFile.get(header.file).push(header);
+    }
+    for (const [file, fileHeaders] of byFile) {
+        const credentials = fileHeaders.some(h => h.key.toLowerCase() === 'access-control-allow-credentials' && String(h.value) === 'true');
+        for (const header of fileHeaders) {
+            if (header.key.toLowerCase() !== 'access-control-allow-origin') continue;
+            const wildcard = header.value === '*';
+            const reflected = !wildcard && header.valueNode && REFLECTED_ORIGIN.test(header.valueNode.getText());
+            if (!wildcard && !reflected) continue;
+            issues.push({
+                severity: reflected && credentials ? 'critical' : 'warning', category: 'security-headers', ruleId: 'security-headers/wildcard-cors',
+                ...ruleText('security-headers/wildcard-cors', { reflected, credentials }),
+                file, line: header.line,
+                context: `Access-Control-Allow-Origin: ${wildcard ? '*' : header.valueNode.getText()}`,
+            });
+        }
+    }
+    return issues;
+}
+
+// ─── Config Checks ───
+function configIssues(config, sf, decls, rel, sensitivePatterns) {
+    const issues = [];
+    const push = (ruleId, severity, node, params: MessageParams = {}, extra: Partial<Issue> = {}) => issues.push({
+        severity, category: 'next-config', ruleId,
+        ...ruleText(ruleId, params),
+        file: rel, line: lineOf(sf, node),
+        context: node.getText(sf).split(/\r?\n/)[0].trim(),
+        ...extra,
+    });
+
+    const sourceMaps = member(config, 'productionBrowserSourceMaps', sf);
+    if (sourceMaps && evaluate(sourceMaps, decls) === true) push('next-config/browser-source-maps', 'warning', sourceMaps.parent);
+
+    const images = resolve(member(config, 'images', sf), decls);
+    const remotePatterns = resolve(member(images, 'remotePatterns', sf), decls);
+    if (remotePatterns && ts.isArrayLiteralExpression(remotePatterns)) {
+        for (const element of remotePatterns.elements) {
+            const pattern = evaluate(element, decls);
+            if (pattern && isWildcardHost(pattern.hostname)) push('next-config/wildcard-image-host', 'warning', element, { host: pattern.hostname });
+        }
+    }
+
+    const serverActions = resolve(member(resolve(member(config, 'experimental', sf), decls), 'serverActions', sf), decls);
+    const allowedOrigins = resolve(member(serverActions, 'allowedOrigins', sf), decls);
+    if (allowedOrigins && ts.isArrayLiteralExpression(allowedOrigins)) {
+        for (const element of allowedOrigins.elements) {
+            const origin = evaluate(element, decls);
+            if (isWildcardHost(origin)) push('next-config/wildcard-action-origin', 'critical', element, { origin });
+        }
+    }
+
+    // env: { STRIPE_SECRET: process.env.STRIPE_SECRET } → değer istemci bundle'ına gömülür
+    const env = resolve(member(config, 'env', sf), decls);
+    if (env && ts.isObjectLiteralExpression(env)) {
+        const isSensitive = (name) => name && !name.startsWith('NEXT_PUBLIC_')
+            && (SERVER_SECRET_NAME.test(name) || sensitivePatterns.some(p => { try { return new RegExp(p.pattern, 'i').test(name); } catch { return false; } }));
+        for (const prop of env.properties) {
+            const key = propertyName(prop, sf);
+            const valueNode = ts.isPropertyAssignment(prop) ? prop.initializer : ts.isShorthandPropertyAssignment(prop) ? prop.name : null;
+            if (!valueNode) continue;
+            const source = envReference(valueNode);
+            const value = evaluate(valueNode, decls);
+            const hit = typeof value === 'string' ? classifyValue(value) : null;
+            const sensitive = isSensitive(key) || isSensitive(source);
+            if (!sensitive && !hit) continue;
+            push('next-config/env-secret', sensitive ? 'critical' : hit.severity, prop,
+                { key, source, label: hit ? hit.label : null },
+                hit
+                    ? { key, context: `${key}: '${maskSecret(value)}'`, stableContext: `${key}: '${secretDigest(value)}'` }
+                    : { key, context: prop.getText(sf).split(/\r?\n/)[0].trim() });
+        }
+    }
+    return issues;
+}
+
+// ─── Scanner ───
+function isNextProject(projectRoot) {
+    try {
+        const pkg = JSON.parse(fs.readFileSync(path.join(projectRoot, 'package.json'), 'utf-8'));
+        return Boolean((pkg.dependencies && pkg.dependencies.next) || (pkg.devDependencies && pkg.devDependencies.next));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * next.config.*, middleware.ts, vercel.json ve route handler'lar üzerinden HTTP güvenlik başlıkları ve riskli
+ * Next.js ayarları. Next.js projesi değilse (config dosyası ve `next` bağımlılığı yoksa) null döner.
+ * options: { externalHeaders: string[], sensitivePatterns } — config.nextConfig / config.secretScanner
+ * Dönüş: { issues, file, headers: [{ key, value, file, line }] } | null
+ */
+function scanNextConfig(files, projectRoot, options: NextConfigAuditConfig & { sensitivePatterns?: SensitivePattern[] } = {}) {
+    const rel = NEXT_CONFIG_FILES.find(f => fs.existsSync(path.join(projectRoot, f))) || null;
+    if (!rel && !isNextProject(projectRoot)) return null;
+
+    const issues = [];
+    const headers = [];
+    let anchor: { file: string | null; line?: number } = { file: rel, line: undefined };
+
+    if (rel) {
+        try {
+            const sf = parse(path.join(projectRoot, rel));
+            const decls = declarations(sf);
+            const config = findConfigObject(sf, decls);
+            if (config) {
+                const headersNode = member(config, 'headers', sf);
+                anchor = { file: rel, line: lineOf(sf, headersNode ? (ts.isMethodDeclaration(headersNode) ? headersNode : headersNode.parent) : config) };
+                if (headersNode) headers.push(...configHeaders(headersNode, sf, decls, rel));
+                issues.push(...configIssues(config, sf, decls, rel, options.sensitivePatterns || []));
+            }
+        } catch { }
+    }
+
+    // middleware.ts başlıkları tüm eşleşen isteklere uygulanır; route handler başlıkları sadece CORS için değerlendirilir
+    const middlewareRel = MIDDLEWARE_FILES.find(f => fs.existsSync(path.join(projectRoot, f)));
+    const codeFiles = files.map(f => path.relative(projectRoot, f).replace(/\\/g, '/'))
+        .filter(f => ROUTE_FILE.test(f) || PAGES_API_FILE.test(f));
+    if (middlewareRel && !codeFiles.includes(middlewareRel)) codeFiles.push(middlewareRel);
+    const handlerHeaders = [];
+    for (const file of codeFiles) {
+        try {
+            const sf = parse(path.join(projectRoot, file));
+            const found = codeHeaders(sf, declarations(sf), file);
+            if (file === middlewareRel) headers.push(...found);
+            else handlerHeaders.push(...found);
+        } catch { }
+    }
+    headers.push(...vercelHeaders(projectRoot));
+    if (!anchor.file && middlewareRel) anchor = { file: middlewareRel, line: undefined };
+
+    issues.push(...checkHeaders(headers, anchor, options.externalHeaders || []));
+    issues.push(...corsIssues([...headers, ...handlerHeaders]));
+    return { issues, file: rel, headers: headers.map(({ valueNode, ...h }) => h) };
+}
+
+module.exports = {
+    NEXT_CONFIG_FILES,
+    isWildcardHost,
+    cspProblems,
+    scanNextConfig,
+};
@@ -0,0 +1,78 @@
+const path = require('path');
+const fs = require('fs');
+const { OVERLAY_CLIENT_SOURCE } = require('./overlay-client');
+const { DEFAULT_OVERLAY_PORT } = require('./overlay-server');
+const { loadConfigSync } = require('./config');
+
+// Next.js client entry adları: App Router ve Pages Router
+const CLIENT_ENTRIES = ['main-app', 'main.js'];
+
+function readReporterConfig(projectRoot) {
+    try {
+        const loaded = loadConfigSync(projectRoot);
+        return (loaded && loaded.config.reporter) || {};
+    } catch {
+        return {};
+    }
+}
+
+// webpack entry'si tek bir string, dizi ya da { import: [...] } olabilir
+function prependEntry(entry, file) {
+    if (!entry) return entry;
+    if (typeof entry === 'string') return entry === file ? entry : [file, entry];
+    if (Array.isArray(entry)) return entry.includes(file) ? entry : [file, ...entry];
+    if (Array.isArray(entry.import)) return { ...entry, import: prependEntry(entry.import, file) };
+    return entry;
+}
+
+// next.config.* dışa aktarımı: nesne ya da (phase, { defaultConfig }) => nesne
+type NextConfig = { env?: Record<string, string>; webpack?: (config, context) => unknown; [key: string]: unknown };
+type NextConfigFactory = (...args: unknown[]) => NextConfig | Promise<NextConfig>;
+
+/**
+ * next.config.js:
+ *   const { withVibeSec } = require('vibe-security/dist/next-plugin');
+ *   module.exports = withVibeSec({ ...nextConfig });
+ *
+ * Sadece `next dev` sırasında overlay istemcisini client bundle'ına ekler.
+ * Bulgular "vibe-sec --watch" sürecinin açtığı sunucudan gelir.
+ */
+function withVibeSec(nextConfig: NextConfig | NextConfigFactory = {}, options: { projectRoot?: string; port?: number } = {}) {
+    if (typeof nextConfig === 'function') {
+        return async (...args) => withVibeSec(await nextConfig(...args), options);
+    }
+    if (process.env.NODE_ENV === 'production') return nextConfig;
+
+    const projectRoot = options.projectRoot || process.cwd();
+    const reporter = readReporterConfig(projectRoot);
+    if (reporter.browserOverlay === false) return nextConfig;
+
+    const port = options.port || reporter.overlayPort || DEFAULT_OVERLAY_PORT;
+    const clientFile = path.join(projectRoot, '.next', 'cache', 'vibe-sec', 'overlay-client.js');
+
+    return {
+        ...nextConfig,
+        env: { ...nextConfig.env, VIBE_SEC_OVERLAY_URL: `http://127.0.0.1:${port}` },
+        webpack(config, context) {
+            const result = typeof nextConfig.webpack === 'function' ? nextConfig.webpack(config, context) : config;
+            if (!context.dev || context.isServer) return result;
+
+            fs.mkdirSync(path.dirname(clientFile), { recursive: true });
+            fs.writeFileSync(clientFile, OVERLAY_CLIENT_SOURCE, 'utf-8');
+
+            const originalEntry = result.entry;
+            result.entry = async () => {
+                const entries = typeof originalEntry === 'function' ? await originalEntry() : originalEntry;
+                for (const name of CLIENT_ENTRIES) {
+                    if (entries[name]) entries[name] = prependEntry(entries[name], clientFile);
+                }
+                return entries;
+            };
+            return result;
+        },
+    };
+}
+
+module.exports = {
+    withVibeSec,
+};
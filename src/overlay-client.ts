@@ -0,0 +1,112 @@
+// ─── Browser Overlay Client ───
+// Tarayıcıda çalışan bağımsız script. İki şekilde yüklenir:
+//   1. withVibeSec() ile development client bundle'ına eklenir (VIBE_SEC_OVERLAY_URL inline edilir)
+//   2. <script src="http://127.0.0.1:3799/client.js"> ile doğrudan (sunucu adresi script src'den okunur)
+// Bu yüzden modül sistemi, template literal ve derleme adımı kullanmaz.
+
+const OVERLAY_CLIENT_SOURCE = String.raw`(function () {
+  if (typeof window === 'undefined' || window.__vibeSecOverlay) return;
+  window.__vibeSecOverlay = true;
+
+  var script = document.currentScript;
+  var base = (typeof process !== 'undefined' && process.env.VIBE_SEC_OVERLAY_URL) ||
+    (script && script.src ? new URL(script.src).origin : 'http://127.0.0.1:3799');
+
+  var STYLE = [
+    ':host { all: initial; }',
+    '.panel { position: fixed; right: 16px; bottom: 16px; z-index: 2147483647; width: 440px; max-height: 60vh; overflow: auto;',
+    '  background: #111418; color: #e6e6e6; font: 13px/1.45 ui-monospace, SFMono-Regular, Menlo, monospace;',
+    '  border: 1px solid #3a3f47; border-radius: 8px; box-shadow: 0 8px 32px rgba(0,0,0,.45); }',
+    '.head { display: flex; align-items: center; gap: 8px; padding: 10px 12px; border-bottom: 1px solid #2a2f36; position: sticky; top: 0; background: #111418; }',
+    '.head b { flex: 1; }',
+    '.close { background: none; border: 0; color: #9aa0a6; font-size: 18px; cursor: pointer; }',
+    '.item { padding: 10px 12px; border-bottom: 1px solid #1f242a; }',
+    '.badge { display: inline-block; padding: 0 6px; border-radius: 4px; font-weight: 700; font-size: 11px; margin-right: 6px; }',
+    '.critical { background: #d93025; color: #fff; }',
+    '.warning { background: #f9ab00; color: #111; }',
+    '.loc { display: block; margin-top: 4px; color: #8ab4f8; text-decoration: none; }',
+    '.loc:hover { text-decoration: underline; }',
+    '.msg { margin-top: 4px; color: #bdc1c6; }',
+    '.fix { margin-top: 4px; color: #81c995; }'
+  ].join('\n');
+
+  var host = document.createElement('vibe-sec-overlay');
+  var root = host.attachShadow({ mode: 'open' });
+  var seen = {};
+  var closeTimer = null;
+  var dismissed = false;
+
+  function esc(value) {
+    return String(value == null ? '' : value).replace(/[&<>"']/g, function (c) {
+      return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c];
+    });
+  }
+
+  function beep() {
+    try {
+      var ctx = new (window.AudioContext || window.webkitAudioContext)();
+      var osc = ctx.createOscillator();
+      var gain = ctx.createGain();
+      osc.frequency.value = 880;
+      gain.gain.value = 0.05;
+      osc.connect(gain);
+      gain.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.15);
+    } catch (e) { }
+  }
+
+  function hide() {
+    if (host.parentNode) host.parentNode.removeChild(host);
+  }
+
+  function render(payload) {
+    var issues = payload.issues || [];
+    var settings = payload.settings || {};
+    var fresh = issues.filter(function (i) { return !seen[i.fingerprint]; });
+    var next = {};
+    issues.forEach(function (i) { next[i.fingerprint] = true; });
+    seen = next;
+
+    if (issues.length === 0) { hide(); return; }
+    // Kullanıcı kapattıysa sadece yeni bulgu geldiğinde tekrar açılır
+    if (dismissed && fresh.length === 0) return;
+    dismissed = false;
+
+    var labels = settings.labels || { critical: 'KRİTİK', warning: 'UYARI', summary: '{critical} kritik, {warning} uyarı', close: 'Kapat' };
+    var critical = issues.filter(function (i) { return i.severity === 'critical'; }).length;
+    var summary = labels.summary.replace('{critical}', critical).replace('{warning}', issues.length - critical);
+    var html = '<style>' + STYLE + '</style><div class="panel"><div class="head"><b>🛡️ Vibe Security — ' +
+      esc(summary) + '</b><button class="close" title="' + esc(labels.close) + '">×</button></div>';
+    issues.forEach(function (i) {
+      var where = i.file ? esc(i.file) + (i.line ? ':' + i.line : '') : '';
+      html += '<div class="item"><span class="badge ' + esc(i.severity) + '">' + esc(i.severity === 'critical' ? labels.critical : labels.warning) + '</span>' + esc(i.title);
+      if (where) html += i.editorUrl ? '<a class="loc" href="' + esc(i.editorUrl) + '">📄 ' + where + '</a>' : '<span class="loc">📄 ' + where + '</span>';
+      if (i.message) html += '<div class="msg">' + esc(i.message) + '</div>';
+      if (i.fix) html += '<div class="fix">💡 ' + esc(i.fix) + '</div>';
+      html += '</div>';
+    });
+    root.innerHTML = html + '</div>';
+    root.querySelector('.close').addEventListener('click', function () { dismissed = true; hide(); });
+    if (!host.parentNode) document.body.appendChild(host);
+
+    if (settings.soundAlert && fresh.some(function (i) { return i.severity === 'critical'; })) beep();
+    if (closeTimer) clearTimeout(closeTimer);
+    if (settings.autoCloseMs > 0) closeTimer = setTimeout(hide, settings.autoCloseMs);
+  }
+
+  function connect() {
+    var source = new EventSource(base + '/events');
+    source.addEventListener('issues', function (event) {
+      try { render(JSON.parse(event.data)); } catch (e) { }
+    });
+  }
+
+  if (document.readyState === 'loading') document.addEventListener('DOMContentLoaded', connect);
+  else connect();
+})();
+`;
+
+module.exports = {
+    OVERLAY_CLIENT_SOURCE,
+};
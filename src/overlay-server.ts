@@ -0,0 +1,127 @@
+import type { OutgoingHttpHeaders, ServerResponse } from 'http';
+import type { ReporterConfig } from './types';
+const path = require('path');
+const http = require('http');
+const { OVERLAY_CLIENT_SOURCE } = require('./overlay-client');
+const { t } = require('./i18n');
+
+const DEFAULT_OVERLAY_PORT = 3799;
+const HEARTBEAT_MS = 15000;
+const EDITOR_URLS = {
+    vscode: 'vscode://file/{path}:{line}',
+    cursor: 'cursor://file/{path}:{line}',
+    windsurf: 'windsurf://file/{path}:{line}',
+    zed: 'zed://file/{path}:{line}',
+    webstorm: 'webstorm://open?file={path}&line={line}',
+};
+
+// ─── Helpers ───
+// Bulgu listesi dosya yolları ve maskelenmiş değerler içerir; sadece yerel origin'lere açılır
+function isLocalOrigin(origin) {
+    return /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/.test(origin || '');
+}
+
+function editorUrl(editor, projectRoot, issue) {
+    if (!issue.file || /^\(|->/.test(issue.file)) return undefined;
+    const template = EDITOR_URLS[editor] || editor;
+    if (!template || !template.includes('{path}')) return undefined;
+    return template
+        .replace('{path}', path.resolve(projectRoot, issue.file).replace(/\\/g, '/'))
+        .replace('{line}', String(issue.line || 1));
+}
+
+function toPayload(issues, projectRoot, reporter) {
+    return {
+        generatedAt: new Date().toISOString(),
+        settings: {
+            autoCloseMs: reporter.overlayAutoCloseMs || 0,
+            soundAlert: !!reporter.soundAlert,
+            // İstemci script'i katalog okuyamaz; etiketler aktif dilde gönderilir
+            labels: {
+                critical: t('overlay.critical'),
+                warning: t('overlay.warning'),
+                summary: t('overlay.summary'),
+                close: t('overlay.close'),
+            },
+        },
+        issues: issues
+            .filter(i => i.severity === 'critical' || i.severity === 'warning')
+            .sort((a, b) => (a.severity === 'critical' ? 0 : 1) - (b.severity === 'critical' ? 0 : 1))
+            .map(i => ({
+                fingerprint: i.fingerprint, ruleId: i.ruleId, severity: i.severity,
+                title: i.title, message: i.message, fix: i.fix,
+                file: i.file, line: i.line,
+                editorUrl: editorUrl(reporter.editor || 'vscode', projectRoot, i),
+            })),
+    };
+}
+
+// ─── Server ───
+/**
+ * İzleme modu için SSE sunucusu:
+ *   GET /events    → "issues" olayları (bağlanınca son durum hemen gönderilir)
+ *   GET /client.js → overlay istemci script'i
+ * Dönüş: Promise<{ port, url, broadcast(issues), close() }>
+ */
+function startOverlayServer({ projectRoot, reporter = {} }: { projectRoot: string; reporter?: ReporterConfig }) {
+    const port = reporter.overlayPort || DEFAULT_OVERLAY_PORT;
+    const clients: Set<ServerResponse> = new Set();
+    let last = toPayload([], projectRoot, reporter);
+
+    const send = (res, payload) => res.write(`event: issues\ndata: ${JSON.stringify(payload)}\n\n`);
+
+    const server = http.createServer((req, res) => {
+        const origin = req.headers.origin;
+        if (origin && !isLocalOrigin(origin)) {
+            res.writeHead(403);
+            res.end();
+            return;
+        }
+        const headers: OutgoingHttpHeaders = origin ? { 'Access-Control-Allow-Origin': origin, Vary: 'Origin' } : {};
+        const url = (req.url || '/').split('?')[0];
+
+        if (url === '/events') {
+            res.writeHead(200, { ...headers, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+            clients.add(res);
+            send(res, last);
+            req.on('close', () => clients.delete(res));
+            return;
+        }
+        if (url === '/client.js') {
+            res.writeHead(200, { ...headers, 'Content-Type': 'application/javascript; charset=utf-8', 'Cache-Control': 'no-cache' });
+            res.end(OVERLAY_CLIENT_SOURCE);
+            return;
+        }
+        res.writeHead(404, headers);
+        res.end();
+    });
+
+    const heartbeat = setInterval(() => {
+        for (const res of clients) res.write(': ping\n\n');
+    }, HEARTBEAT_MS);
+    heartbeat.unref();
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', () => {
+            resolve({
+                port,
+                url: `http://127.0.0.1:${port}`,
+                broadcast(issues) {
+                    last = toPayload(issues, projectRoot, reporter);
+                    for (const res of clients) send(res, last);
+                },
+                close() {
+                    clearInterval(heartbeat);
+                    for (const res of clients) res.end();
+                    server.close();
+                },
+            });
+        });
+    });
+}
+
+module.exports = {
+    DEFAULT_OVERLAY_PORT,
+    startOverlayServer,
+};
@@ -0,0 +1,217 @@
+const path = require('path');
+const fs = require('fs');
+const { t, ruleSummary } = require('./i18n');
+const { CONFIG_FILES } = require('./config');
+
+const TOOL_NAME = 'vibe-sec';
+const TOOL_VERSION = require('../package.json').version;
+const TOOL_URI = 'https://github.com/websiteyap/vibe-sec';
+
+const FORMATS = ['text', 'json', 'sarif', 'junit'];
+const SEVERITY_ORDER = { critical: 0, warning: 1, info: 2 };
+const CATEGORIES = ['secret-leak', 'rls-check', 'sql-injection', 'api-key', 'general'];
+
+// ─── Helpers ───
+function countBySeverity(issues) {
+    return {
+        critical: issues.filter(i => i.severity === 'critical').length,
+        warning: issues.filter(i => i.severity === 'warning').length,
+        info: issues.filter(i => i.severity === 'info').length,
+        total: issues.length,
+    };
+}
+
+function ruleIdOf(issue) {
+    return issue.ruleId || issue.category || 'general';
+}
+
+// '(direct db)' veya 'database -> public' gibi sahte konumları SARIF'e koymuyoruz
+function isRealFile(projectRoot, file) {
+    if (!file || /^\(|->/.test(file)) return false;
+    return fs.existsSync(path.join(projectRoot, file));
+}
+
+// Dosyası olmayan bulgular (veritabanı, db-surface, git geçmişi) için SARIF konumu: ilk migration, config, .env.local veya package.json
+function fallbackFile(projectRoot, issue) {
+    const migrations = path.join('supabase', 'migrations');
+    if (['rls-check', 'db-surface'].includes(issue.category) && fs.existsSync(path.join(projectRoot, migrations))) {
+        const first = fs.readdirSync(path.join(projectRoot, migrations)).filter(f => f.endsWith('.sql')).sort()[0];
+        if (first) return path.join(migrations, first);
+    }
+    return [...CONFIG_FILES, '.env.local', '.env', 'package.json'].find(file => fs.existsSync(path.join(projectRoot, file))) || 'package.json';
+}
+
+function escapeXml(value) {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function toPlainIssue(issue) {
+    const plain = {};
+    for (const field of ['ruleId', 'fingerprint', 'severity', 'category', 'title', 'message', 'file', 'line', 'context', 'key', 'table', 'object', 'route', 'usages', 'chain', 'fix']) {
+        if (issue[field] !== undefined) plain[field] = issue[field];
+    }
+    return plain;
+}
+
+// ─── JSON ───
+function formatJSON(issues, meta) {
+    return JSON.stringify({
+        tool: TOOL_NAME,
+        version: TOOL_VERSION,
+        generatedAt: meta.generatedAt,
+        summary: countBySeverity(issues),
+        issues: issues.map(toPlainIssue),
+        ...(meta.routes && meta.routes.length > 0 ? { routes: meta.routes } : {}),
+    }, null, 2);
+}
+
+// ─── SARIF 2.1.0 ───
+function formatSARIF(issues, meta) {
+    const levels = { critical: 'error', warning: 'warning', info: 'note' };
+    const securitySeverity = { critical: '9.0', warning: '5.0', info: '1.0' };
+
+    // Kural metadata'sı kural düzeyindeki katalog metninden ve kuralın en yüksek önem derecesinden gelir
+    const rules = [];
+    const ruleIndex = new Map();
+    for (const issue of issues) {
+        const id = ruleIdOf(issue);
+        if (ruleIndex.has(id)) continue;
+        ruleIndex.set(id, rules.length);
+        const severity = issues.filter(i => ruleIdOf(i) === id)
+            .map(i => i.severity)
+            .sort((a, b) => (SEVERITY_ORDER[a] ?? 2) - (SEVERITY_ORDER[b] ?? 2))[0];
+        const text = ruleSummary(id);
+        rules.push({
+            id,
+            name: id,
+            shortDescription: { text: text.title || id },
+            fullDescription: { text: text.message || text.title || id },
+            ...(text.fix ? { help: { text: text.fix } } : {}),
+            defaultConfiguration: { level: levels[severity] || 'note' },
+            properties: {
+                category: issue.category,
+                tags: ['security', issue.category].filter(Boolean),
+                'security-severity': securitySeverity[severity] || '1.0',
+            },
+        });
+    }
+
+    const results = issues.map(issue => {
+        const region = {
+            startLine: issue.line || 1,
+            ...(issue.context ? { snippet: { text: issue.context } } : {}),
+        };
+        const properties = {
+            ...(issue.key ? { key: issue.key } : {}),
+            ...(issue.table ? { table: issue.table } : {}),
+        };
+        return {
+            ruleId: ruleIdOf(issue),
+            ruleIndex: ruleIndex.get(ruleIdOf(issue)),
+            level: levels[issue.severity] || 'note',
+            message: { text: issue.message ? `${issue.title}\n${issue.message}` : issue.title },
+            // Code scanning her sonuç için en az bir konum ister; sahte konumlar proje dosyasının 1. satırına ve logicalLocations'a yazılır
+            locations: [isRealFile(meta.projectRoot, issue.file) ? {
+                physicalLocation: {
+                    artifactLocation: { uri: issue.file.replace(/\\/g, '/'), uriBaseId: '%SRCROOT%' },
+                    region,
+                },
+            } : {
+                physicalLocation: {
+                    artifactLocation: { uri: fallbackFile(meta.projectRoot, issue).replace(/\\/g, '/'), uriBaseId: '%SRCROOT%' },
+                    region: { startLine: 1 },
+                },
+                logicalLocations: [{ name: issue.table || issue.object || issue.route || issue.file || ruleIdOf(issue), kind: 'resource' }],
+            }],
+            ...(issue.fingerprint ? { partialFingerprints: { 'vibeSec/v1': issue.fingerprint } } : {}),
+            ...(Object.keys(properties).length > 0 ? { properties } : {}),
+        };
+    });
+
+    return JSON.stringify({
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: { driver: { name: TOOL_NAME, version: TOOL_VERSION, informationUri: TOOL_URI, rules } },
+            invocations: [{ executionSuccessful: true, endTimeUtc: meta.generatedAt }],
+            results,
+        }],
+    }, null, 2);
+}
+
+// ─── JUnit XML ───
+// Her kategori bir testsuite, her bulgu bir testcase. Temiz kategoriler tek bir başarılı testcase ile görünür.
+function formatJUnit(issues, meta) {
+    const categories = [...new Set([...CATEGORIES, ...issues.map(i => i.category || 'general')])];
+    const suites = [];
+    let totalTests = 0;
+    let totalFailures = 0;
+
+    for (const category of categories) {
+        const catIssues = issues.filter(i => (i.category || 'general') === category);
+        const cases = [];
+        let failures = 0;
+
+        if (catIssues.length === 0) {
+            cases.push(`    <testcase classname="${TOOL_NAME}.${escapeXml(category)}" name="${escapeXml(category)}: ${escapeXml(t('reports.clean'))}" />`);
+        }
+        for (const issue of catIssues) {
+            const location = issue.file ? `${issue.file}${issue.line ? ':' + issue.line : ''}` : '';
+            const name = location ? `${issue.title} (${location})` : issue.title;
+            const open = `    <testcase classname="${TOOL_NAME}.${escapeXml(category)}" name="${escapeXml(name)}"${issue.file ? ` file="${escapeXml(issue.file)}"` : ''}>`;
+            const body = [issue.message, location && t('reports.location', { location }), issue.context && t('reports.context', { context: issue.context })]
+                .filter(Boolean).join('\n');
+
+            if (issue.severity === 'info') {
+                cases.push(`${open}\n      <system-out>${escapeXml(body)}</system-out>\n    </testcase>`);
+            } else {
+                failures++;
+                cases.push(`${open}\n      <failure type="${issue.severity}" message="${escapeXml(issue.title)}">${escapeXml(body)}</failure>\n    </testcase>`);
+            }
+        }
+
+        const tests = Math.max(catIssues.length, 1);
+        totalTests += tests;
+        totalFailures += failures;
+        suites.push(`  <testsuite name="${TOOL_NAME}.${escapeXml(category)}" tests="${tests}" failures="${failures}" errors="0" skipped="0" timestamp="${meta.generatedAt}">\n${cases.join('\n')}\n  </testsuite>`);
+    }
+
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<testsuites name="${TOOL_NAME}" tests="${totalTests}" failures="${totalFailures}" errors="0">`,
+        ...suites,
+        `</testsuites>`,
+        ``,
+    ].join('\n');
+}
+
+function formatReport(format, issues, meta) {
+    switch (format) {
+        case 'json': return formatJSON(issues, meta);
+        case 'sarif': return formatSARIF(issues, meta);
+        case 'junit': return formatJUnit(issues, meta);
+        default: throw new Error(t('reports.unknownFormat', { format }));
+    }
+}
+
+// ─── Exit Code Threshold ───
+// failOn: 'critical' → sadece kritikler, 'warning' → uyarı ve üzeri build'i kırar
+function exceedsThreshold(issues, failOn) {
+    const limit = SEVERITY_ORDER[failOn] ?? SEVERITY_ORDER.critical;
+    return issues.some(i => (SEVERITY_ORDER[i.severity] ?? SEVERITY_ORDER.info) <= limit);
+}
+
+module.exports = {
+    FORMATS,
+    formatJSON,
+    formatSARIF,
+    formatJUnit,
+    formatReport,
+    exceedsThreshold,
+    countBySeverity,
+};
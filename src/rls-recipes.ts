@@ -0,0 +1,298 @@
+import type { RLSPlan } from './types';
+const path = require('path');
+const fs = require('fs');
+const { t } = require('./i18n');
+
+// Sahiplik sütunu adayları — öncelik sırasıyla
+const OWNER_COLUMNS = ['user_id', 'owner_id', 'profile_id', 'created_by', 'author_id', 'account_id'];
+const MIGRATIONS_DIR = path.join('supabase', 'migrations');
+
+// ─── Schema Loader ───
+/**
+ * public şemasındaki sütunları ve foreign key'leri okur.
+ * Dönüş: Map<table, { columns: [{ name, type }], foreignKeys: [{ column, refSchema, refTable, refColumn }] }>
+ */
+async function loadTableSchemas(client) {
+    const schemas = new Map();
+    const ensure = (table) => {
+        if (!schemas.has(table)) schemas.set(table, { columns: [], foreignKeys: [] });
+        return schemas.get(table);
+    };
+
+    const columnRes = await client.query(`
+        SELECT table_name, column_name, data_type
+        FROM information_schema.columns
+        WHERE table_schema = 'public'
+        ORDER BY table_name, ordinal_position;
+    `);
+    for (const row of columnRes.rows) {
+        ensure(row.table_name).columns.push({ name: row.column_name, type: row.data_type });
+    }
+
+    const fkRes = await client.query(`
+        SELECT
+            cl.relname as table_name,
+            att.attname as column_name,
+            rn.nspname as ref_schema,
+            rcl.relname as ref_table,
+            ratt.attname as ref_column
+        FROM pg_constraint con
+        JOIN pg_class cl ON cl.oid = con.conrelid
+        JOIN pg_namespace n ON n.oid = cl.relnamespace
+        JOIN pg_class rcl ON rcl.oid = con.confrelid
+        JOIN pg_namespace rn ON rn.oid = rcl.relnamespace
+        JOIN LATERAL unnest(con.conkey, con.confkey) AS k(attnum, refnum) ON true
+        JOIN pg_attribute att ON att.attrelid = con.conrelid AND att.attnum = k.attnum
+        JOIN pg_attribute ratt ON ratt.attrelid = con.confrelid AND ratt.attnum = k.refnum
+        WHERE con.contype = 'f'
+        AND n.nspname = 'public';
+    `);
+    for (const row of fkRes.rows) {
+        ensure(row.table_name).foreignKeys.push({
+            column: row.column_name,
+            refSchema: row.ref_schema,
+            refTable: row.ref_table,
+            refColumn: row.ref_column,
+        });
+    }
+
+    return schemas;
+}
+
+// ─── Ownership Detection ───
+function byOwnerPriority(a, b) {
+    const rank = (c) => OWNER_COLUMNS.includes(c) ? OWNER_COLUMNS.indexOf(c) : OWNER_COLUMNS.length;
+    return rank(a) - rank(b);
+}
+
+// Doğrudan auth.users'a veya auth.users'a bağlı bir profil tablosuna (profiles.id → auth.users.id) işaret eden sütunlar
+function userColumns(tableName, schemas) {
+    const schema = schemas.get(tableName);
+    if (!schema) return [];
+    const columns = [];
+    for (const fk of schema.foreignKeys) {
+        if (fk.refSchema === 'auth' && fk.refTable === 'users') {
+            columns.push(fk.column);
+            continue;
+        }
+        const ref = fk.refSchema === 'public' ? schemas.get(fk.refTable) : null;
+        if (ref && ref.foreignKeys.some(r => r.column === fk.refColumn && r.refSchema === 'auth' && r.refTable === 'users')) {
+            columns.push(fk.column);
+        }
+    }
+    return [...new Set(columns)].sort(byOwnerPriority);
+}
+
+/**
+ * Tablo için RLS planını seçer:
+ *   owner       → auth.uid() = <sütun>
+ *   membership  → üyelik tablosu üzerinden EXISTS (...)
+ *   read-only   → herkes okuyabilir, yazma sadece service_role
+ *   service-only→ politika yok, sadece service_role erişir
+ */
+function pickOwnership(tableName, schemas) {
+    const schema = schemas.get(tableName);
+    if (!schema) return { kind: 'owner', column: 'user_id', inferred: true };
+
+    const direct = userColumns(tableName, schemas);
+    if (direct.length > 0) return { kind: 'owner', column: direct[0] };
+
+    const named = schema.columns.find(c => OWNER_COLUMNS.includes(c.name) && /uuid/i.test(c.type || ''));
+    if (named) return { kind: 'owner', column: named.name, inferred: true };
+
+    // team_id → teams.id  +  team_members(team_id, user_id)
+    for (const fk of schema.foreignKeys) {
+        if (fk.refSchema !== 'public') continue;
+        for (const [candidate, candidateSchema] of schemas) {
+            if (candidate === tableName || candidate === fk.refTable) continue;
+            const link = candidateSchema.foreignKeys.find(f => f.refSchema === 'public' && f.refTable === fk.refTable && f.refColumn === fk.refColumn);
+            const memberColumn = link && userColumns(candidate, schemas)[0];
+            if (memberColumn) {
+                return {
+                    kind: 'membership',
+                    column: fk.column,
+                    membershipTable: candidate,
+                    membershipColumn: link.column,
+                    memberUserColumn: memberColumn,
+                };
+            }
+        }
+    }
+
+    const referenced = [...schemas.entries()].some(([name, s]) =>
+        name !== tableName && s.foreignKeys.some(f => f.refSchema === 'public' && f.refTable === tableName));
+    return { kind: referenced ? 'read-only' : 'service-only' };
+}
+
+// ─── RLS SQL Recipe Generator ───
+function policy(name, table, command, clauses) {
+    return [
+        `DROP POLICY IF EXISTS "${name}" ON public.${table};`,
+        `CREATE POLICY "${name}" ON public.${table}`,
+        `  FOR ${command} TO authenticated ${clauses};`,
+    ];
+}
+
+function generateRLSRecipe(tableName, plan: RLSPlan = { kind: 'owner', column: 'user_id' }, extras: { dropPolicies?: string[]; forceRls?: boolean } = {}) {
+    const lines = [`-- 🛡️ RLS: "${tableName}"`];
+    for (const name of extras.dropPolicies || []) {
+        lines.push(`DROP POLICY IF EXISTS "${name}" ON public.${tableName};`);
+    }
+    lines.push(`ALTER TABLE public.${tableName} ENABLE ROW LEVEL SECURITY;`);
+    if (extras.forceRls) lines.push(`ALTER TABLE public.${tableName} FORCE ROW LEVEL SECURITY;`);
+    lines.push(``);
+
+    if (plan.kind === 'owner') {
+        if (plan.inferred) lines.push(`-- ⚠️ ${t('recipes.inferredColumn', { column: plan.column })}`);
+        const own = `auth.uid() = ${plan.column}`;
+        lines.push(...policy(`${tableName}_select_own`, tableName, 'SELECT', `USING (${own})`), ``);
+        lines.push(...policy(`${tableName}_insert_own`, tableName, 'INSERT', `WITH CHECK (${own})`), ``);
+        lines.push(...policy(`${tableName}_update_own`, tableName, 'UPDATE', `USING (${own})\n  WITH CHECK (${own})`), ``);
+        lines.push(...policy(`${tableName}_delete_own`, tableName, 'DELETE', `USING (${own})`));
+    } else if (plan.kind === 'membership') {
+        const member = `EXISTS (\n    SELECT 1 FROM public.${plan.membershipTable} m\n    WHERE m.${plan.membershipColumn} = ${tableName}.${plan.column}\n    AND m.${plan.memberUserColumn} = auth.uid()\n  )`;
+        lines.push(`-- ${t('recipes.membership', { table: plan.membershipTable, column: plan.column })}`);
+        lines.push(...policy(`${tableName}_select_member`, tableName, 'SELECT', `USING (${member})`), ``);
+        lines.push(...policy(`${tableName}_insert_member`, tableName, 'INSERT', `WITH CHECK (${member})`), ``);
+        lines.push(...policy(`${tableName}_update_member`, tableName, 'UPDATE', `USING (${member})\n  WITH CHECK (${member})`), ``);
+        lines.push(...policy(`${tableName}_delete_member`, tableName, 'DELETE', `USING (${member})`));
+    } else if (plan.kind === 'read-only') {
+        lines.push(`-- ${t('recipes.readOnly')}`);
+        lines.push(`DROP POLICY IF EXISTS "${tableName}_read_all" ON public.${tableName};`);
+        lines.push(`CREATE POLICY "${tableName}_read_all" ON public.${tableName}`);
+        lines.push(`  FOR SELECT TO anon, authenticated USING (true);`);
+    } else {
+        lines.push(`-- ${t('recipes.serviceOnly')}`);
+        lines.push(`REVOKE ALL ON public.${tableName} FROM anon, authenticated;`);
+    }
+
+    return lines.join('\n');
+}
+
+// ─── Database Surface Recipes ───
+// Tablo dışı nesneler (view, fonksiyon, storage, şema) için db-surface.ts bulgularına eklenen SQL
+function generateViewRecipe(view) {
+    const lines = [`-- 🛡️ VIEW: "${view.schema}.${view.name}" (${view.tables.join(', ')})`];
+    lines.push(`-- ${t('recipes.viewInvoker')}`);
+    lines.push(`ALTER VIEW ${view.schema}.${view.name} SET (security_invoker = true);`);
+    lines.push(``);
+    lines.push(`-- ${t('recipes.viewRevoke')}`);
+    lines.push(`-- REVOKE SELECT ON ${view.schema}.${view.name} FROM anon;`);
+    return lines.join('\n');
+}
+
+function generateFunctionRecipe(fn, extras: { revoke?: 'anon' | 'all' | null; searchPath?: boolean } = {}) {
+    const signature = `${fn.schema}.${fn.name}(${fn.args || ''})`;
+    const lines = [`-- 🛡️ FUNCTION: ${signature}`];
+    if (extras.revoke) {
+        lines.push(`-- ${t('recipes.definer')}`);
+        lines.push(`REVOKE EXECUTE ON FUNCTION ${signature} FROM public, anon${extras.revoke === 'all' ? ', authenticated' : ''};`);
+        lines.push(`-- ${t('recipes.definerInvoker')}`);
+        lines.push(`-- ALTER FUNCTION ${signature} SECURITY INVOKER;`);
+    }
+    if (extras.searchPath) {
+        if (extras.revoke) lines.push(``);
+        lines.push(`-- ${t('recipes.searchPath')}`);
+        lines.push(`ALTER FUNCTION ${signature} SET search_path = '';`);
+        lines.push(`-- ${t('recipes.qualifyNames')}`);
+    }
+    return lines.join('\n');
+}
+
+function generateBucketRecipe(bucket, extras: { makePrivate?: boolean; addPolicies?: boolean } = {}) {
+    const lines = [`-- 🛡️ STORAGE: "${bucket}"`];
+    if (extras.makePrivate) {
+        lines.push(`-- ${t('recipes.publicBucket')}`);
+        lines.push(`UPDATE storage.buckets SET public = false WHERE id = '${bucket}';`);
+    }
+    if (extras.addPolicies) {
+        if (extras.makePrivate) lines.push(``);
+        lines.push(`-- ${t('recipes.userFolders')}`);
+        const own = `bucket_id = '${bucket}' AND (storage.foldername(name))[1] = auth.uid()::text`;
+        for (const [command, clause] of [['SELECT', `USING (${own})`], ['INSERT', `WITH CHECK (${own})`], ['UPDATE', `USING (${own})`], ['DELETE', `USING (${own})`]]) {
+            const name = `${bucket}_${command.toLowerCase()}_own`;
+            lines.push(`DROP POLICY IF EXISTS "${name}" ON storage.objects;`);
+            lines.push(`CREATE POLICY "${name}" ON storage.objects`);
+            lines.push(`  FOR ${command} TO authenticated ${clause};`);
+            lines.push(``);
+        }
+        lines.pop();
+    }
+    return lines.join('\n');
+}
+
+function generateSchemaRecipe(schema, tables) {
+    const lines = [`-- 🛡️ SCHEMA: "${schema}" ${t('recipes.schemaExposed')}`];
+    for (const table of tables) {
+        lines.push(`ALTER TABLE ${schema}.${table} ENABLE ROW LEVEL SECURITY;`);
+    }
+    lines.push(``);
+    lines.push(`-- ${t('recipes.schemaRemove')}`);
+    lines.push(`-- REVOKE USAGE ON SCHEMA ${schema} FROM anon, authenticated;`);
+    return lines.join('\n');
+}
+
+// ─── Recipe Selection ───
+// Sadece kritik/uyarı seviyesinde RLS bulgusu olan tablolar için reçete üretilir
+function buildRecipes(issues, schemas, whitelisted = []) {
+    const flagged = new Map();
+    for (const issue of issues) {
+        if (issue.category !== 'rls-check' || !issue.table || issue.severity === 'info') continue;
+        if (whitelisted.includes(issue.table)) continue;
+        if (!flagged.has(issue.table)) flagged.set(issue.table, { dropPolicies: new Set(), forceRls: false });
+        const entry = flagged.get(issue.table);
+        if (issue.policy) entry.dropPolicies.add(issue.policy);
+        if (issue.ruleId === 'rls-check/force-rls-off') entry.forceRls = true;
+    }
+
+    const recipes = new Map();
+    for (const [table, entry] of flagged) {
+        const plan = pickOwnership(table, schemas || new Map());
+        recipes.set(table, {
+            plan,
+            sql: generateRLSRecipe(table, plan, { dropPolicies: [...entry.dropPolicies], forceRls: entry.forceRls }),
+        });
+    }
+
+    // db-surface bulguları reçetesini kendisi taşır; aynı nesnenin reçeteleri birleştirilir
+    for (const issue of issues) {
+        if (issue.category !== 'db-surface' || !issue.recipe || issue.severity === 'info') continue;
+        const existing = recipes.get(issue.object);
+        if (existing && existing.sql.includes(issue.recipe)) continue;
+        recipes.set(issue.object, {
+            plan: { kind: issue.ruleId.split('/')[1] },
+            sql: existing ? `${existing.sql}\n\n${issue.recipe}` : issue.recipe,
+        });
+    }
+    return recipes;
+}
+
+// ─── Migration Writer ───
+// Supabase CLI formatı: supabase/migrations/YYYYMMDDHHMMSS_<ad>.sql (UTC)
+function writeMigration(projectRoot, recipes, name = 'vibe_sec_rls') {
+    const stamp = new Date().toISOString().replace(/[-:T]/g, '').substring(0, 14);
+    const dir = path.join(projectRoot, MIGRATIONS_DIR);
+    const filePath = path.join(dir, `${stamp}_${name}.sql`);
+    const body = [
+        `-- ${t('recipes.generated', { date: new Date().toISOString() })}`,
+        `-- ${t('recipes.review')}`,
+        ``,
+        ...[...recipes.values()].map(r => r.sql + '\n'),
+    ].join('\n');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(filePath, body, 'utf-8');
+    return filePath;
+}
+
+module.exports = {
+    OWNER_COLUMNS,
+    loadTableSchemas,
+    pickOwnership,
+    generateRLSRecipe,
+    generateViewRecipe,
+    generateFunctionRecipe,
+    generateBucketRecipe,
+    generateSchemaRecipe,
+    buildRecipes,
+    writeMigration,
+};
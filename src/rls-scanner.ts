@@ -1,107 +1,348 @@
+import type { RLSScannerConfig } from './types';
 const { Client } = require('pg');
+const { loadTableSchemas } = require('./rls-recipes');
+const { scanDatabaseSurface } = require('./db-surface');
+const { t, ruleText } = require('./i18n');
 
-async function scanRLS(databaseUrl, whitelisted) {
+const COMMANDS = ['SELECT', 'INSERT', 'UPDATE', 'DELETE'];
+const WRITE_COMMANDS = ['INSERT', 'UPDATE', 'DELETE', 'ALL'];
+const PUBLIC_ROLES = ['public', 'anon'];
+const AUTH_REFERENCE = /\bauth\s*\.\s*(uid|jwt)\s*\(/i;
+
+// ─── Connection ───
+// Önce SSL ile dener, sunucu SSL desteklemiyorsa düz bağlantıya düşer
+async function connectClient(databaseUrl) {
+    let client = new Client({
+        connectionString: databaseUrl,
+        ssl: { rejectUnauthorized: false }
+    });
+    try {
+        await client.connect();
+    } catch (sslErr) {
+        if (sslErr.message && sslErr.message.includes('SSL')) {
+            client = new Client({ connectionString: databaseUrl });
+            await client.connect();
+        } else {
+            throw sslErr;
+        }
+    }
+    return client;
+}
+
+// ─── Policy Expression Helpers ───
+function normalizeExpr(expr) {
+    let e = String(expr || '').replace(/\s+/g, ' ').trim().toLowerCase();
+    // Dıştaki gereksiz parantezleri soy: ((true)) → true
+    while (e.startsWith('(') && e.endsWith(')') && balanced(e.substring(1, e.length - 1))) {
+        e = e.substring(1, e.length - 1).trim();
+    }
+    // Postgres'in eklediği tip cast'lerini kaldır: 'a'::text → 'a'
+    return e.replace(/::[a-z_ ]+(\[\])?/g, '');
+}
+
+function balanced(e) {
+    let depth = 0;
+    for (const ch of e) {
+        if (ch === '(') depth++;
+        if (ch === ')' && --depth < 0) return false;
+    }
+    return depth === 0;
+}
+
+// USING (true), (1 = 1), ('a' = 'a'), (... OR true)
+function isTautology(expr) {
+    if (expr === null || expr === undefined) return false;
+    const e = normalizeExpr(expr);
+    return e === 'true' ||
+        /^(\d+) ?= ?\1$/.test(e) ||
+        /^('[^']*') ?= ?\1$/.test(e) ||
+        /\bor \(?true\)?$/.test(e) ||
+        /^\(?true\)? or\b/.test(e);
+}
+
+function quotePolicy(policy) {
+    const parts = [];
+    if (policy.qual) parts.push(`USING (${policy.qual})`);
+    if (policy.withCheck) parts.push(`WITH CHECK (${policy.withCheck})`);
+    return `"${policy.name}" FOR ${policy.cmd} TO ${policy.roles.join(', ')}${parts.length ? ' ' + parts.join(' ') : ''}`;
+}
+
+// Postgres: erişim = (permissive politikaların OR'u) AND (restrictive politikaların AND'i).
+// Auth kontrolü yapan bir restrictive politika aynı komut ve rollerde permissive politikanın koşulsuzluğunu sınırlar.
+function appliesTo(restrictive, policy) {
+    const cmd = restrictive.cmd === 'ALL' || restrictive.cmd === policy.cmd;
+    const roles = restrictive.roles.includes('public') || policy.roles.every(r => restrictive.roles.includes(r));
+    return cmd && roles;
+}
+
+function restrictedByAuth(policy, restrictives) {
+    return restrictives.some(r => appliesTo(r, policy) && !isTautology(r.qual) &&
+        (AUTH_REFERENCE.test(r.qual || '') || AUTH_REFERENCE.test(r.withCheck || '')));
+}
+
+function coveredCommands(policies) {
+    const covered = new Set();
+    for (const p of policies) {
+        if (p.cmd === 'ALL') COMMANDS.forEach(c => covered.add(c));
+        else covered.add(p.cmd);
+    }
+    return covered;
+}
+
+// ─── Table Analysis ───
+/**
+ * Normalize edilmiş tablo durumundan RLS bulgularını üretir.
+ * Hem canlı veritabanı (scanRLS) hem de migration tabanlı tarama aynı analizi kullanır.
+ *
+ * table: { name, rlsEnabled, forceRls, owner, policies: [{ name, cmd, roles, qual, withCheck, permissive }] }
+ * context: { appRole, location: { file, line } }
+ */
+function analyzeTable(table, context: { appRole?: string; location?: { file: string; line?: number } } = {}) {
+    const issues = [];
+    const location = context.location || { file: '(direct db)' };
+    const base = { category: 'rls-check', table: table.name, ...location };
+    const policies = table.policies || [];
+    const permissive = policies.filter(p => p.permissive !== false);
+    const restrictive = policies.filter(p => p.permissive === false);
+
+    if (!table.rlsEnabled) {
+        issues.push({
+            ...base,
+            severity: 'critical',
+            ruleId: 'rls-check/rls-disabled',
+            ...ruleText('rls-check/rls-disabled', { table: table.name }),
+        });
+        return issues;
+    }
+
+    if (policies.length === 0) {
+        issues.push({
+            ...base,
+            severity: 'warning',
+            ruleId: 'rls-check/no-policy',
+            ...ruleText('rls-check/no-policy', { table: table.name }),
+        });
+    }
+
+    // Sadece restrictive politika: hiçbir satıra erişim verilmez
+    if (policies.length > 0 && permissive.length === 0) {
+        issues.push({
+            ...base,
+            severity: 'warning',
+            ruleId: 'rls-check/restrictive-only',
+            ...ruleText('rls-check/restrictive-only', { table: table.name, count: restrictive.length }),
+        });
+    }
+
+    // Restrictive politikalar erişim vermez; koşulsuz / anon bulguları sadece permissive politikalar için geçerlidir
+    for (const policy of permissive) {
+        if (restrictedByAuth(policy, restrictive)) continue;
+        const isWrite = WRITE_COMMANDS.includes(policy.cmd);
+        const publicRoles = policy.roles.filter(r => PUBLIC_ROLES.includes(r));
+        const referencesAuth = AUTH_REFERENCE.test(policy.qual || '') || AUTH_REFERENCE.test(policy.withCheck || '');
+        const tautology = isTautology(policy.qual) || isTautology(policy.withCheck);
+
+        if (tautology) {
+            issues.push({
+                ...base,
+                severity: isWrite ? 'critical' : 'warning',
+                ruleId: 'rls-check/tautological-policy',
+                ...ruleText('rls-check/tautological-policy', { icon: isWrite ? '🔴' : '🟡', table: table.name, policy: policy.name, cmd: policy.cmd, write: isWrite }),
+                policy: policy.name,
+                context: quotePolicy(policy),
+            });
+        }
+
+        if (isWrite && publicRoles.length > 0) {
+            issues.push({
+                ...base,
+                severity: referencesAuth ? 'warning' : 'critical',
+                ruleId: 'rls-check/anon-write',
+                ...ruleText('rls-check/anon-write', { icon: referencesAuth ? '🟡' : '🔴', table: table.name, policy: policy.name, roles: publicRoles.join('/'), cmd: policy.cmd }),
+                policy: policy.name,
+                context: quotePolicy(policy),
+            });
+        }
+
+        if (policy.cmd === 'UPDATE' && !policy.withCheck) {
+            issues.push({
+                ...base,
+                severity: 'warning',
+                ruleId: 'rls-check/update-without-check',
+                ...ruleText('rls-check/update-without-check', { table: table.name, policy: policy.name }),
+                policy: policy.name,
+                context: quotePolicy(policy),
+            });
+        }
+
+        if (!referencesAuth && !tautology) {
+            issues.push({
+                ...base,
+                severity: 'warning',
+                ruleId: 'rls-check/no-auth-reference',
+                ...ruleText('rls-check/no-auth-reference', { table: table.name, policy: policy.name }),
+                policy: policy.name,
+                context: quotePolicy(policy),
+            });
+        }
+    }
+
+    if (permissive.length > 0) {
+        const covered = coveredCommands(permissive);
+        const missing = COMMANDS.filter(c => !covered.has(c));
+        if (missing.length > 0) {
+            issues.push({
+                ...base,
+                severity: 'info',
+                ruleId: 'rls-check/missing-command',
+                ...ruleText('rls-check/missing-command', { table: table.name, missing: missing.join(', ') }),
+                context: t('rls.covered', { commands: [...covered].join(', ') }),
+                stableContext: [...covered].join(', '),
+            });
+        }
+    }
+
+    if (!table.forceRls && context.appRole && table.owner === context.appRole) {
+        issues.push({
+            ...base,
+            severity: 'warning',
+            ruleId: 'rls-check/force-rls-off',
+            ...ruleText('rls-check/force-rls-off', { table: table.name, owner: table.owner }),
+        });
+    }
+
+    if (issues.length === 0) {
+        // Sorun yoksa canlı ve migration taramasında aynı bilgi satırı
+        issues.push({
+            ...base,
+            severity: 'info',
+            ruleId: 'rls-check/ok',
+            ...ruleText('rls-check/ok', { table: table.name, count: policies.length }),
+        });
+    }
+
+    return issues;
+}
+
+// ─── DB Scan ───
+// options.exposedSchemas: public dışında PostgREST'e açık şemalar (db-surface.ts)
+async function scanRLS(databaseUrl, whitelisted, options: Pick<RLSScannerConfig, 'exposedSchemas'> = {}) {
     const issues = [];
     const filteredTables = new Map();
+    const relations = new Set();
+    let schemas = new Map();
 
     if (!databaseUrl) {
         issues.push({
             severity: 'warning',
             category: 'rls-check',
-            title: '⚠️ Veritabanı URL bulunamadı!',
-            message: 'RLS taraması için DATABASE_URL (ör. .env.local içinde) gerekli.',
+            ruleId: 'rls-check/no-database-url',
+            ...ruleText('rls-check/no-database-url'),
             file: '.env.local'
         });
-        return { issues, filteredTables };
+        return { issues, filteredTables, relations, schemas };
     }
 
-    let client = new Client({
-        connectionString: databaseUrl,
-        ssl: { rejectUnauthorized: false }
-    });
+    let client = null;
 
     try {
-        try {
-            await client.connect();
-        } catch (sslErr) {
-            if (sslErr.message && sslErr.message.includes('SSL')) {
-                client = new Client({ connectionString: databaseUrl });
-                await client.connect();
-            } else {
-                throw sslErr;
-            }
-        }
+        client = await connectClient(databaseUrl);
 
-        const query = `
-            SELECT 
+        const tableQuery = `
+            SELECT
                 c.relname as table_name,
                 c.relrowsecurity as rls_enabled,
-                (SELECT count(*) FROM pg_policy p WHERE p.polrelid = c.oid) as policy_count
+                c.relforcerowsecurity as force_rls,
+                pg_get_userbyid(c.relowner) as owner
             FROM pg_class c
             JOIN pg_namespace n ON n.oid = c.relnamespace
-            WHERE n.nspname = 'public' 
+            WHERE n.nspname = 'public'
             AND c.relkind = 'r'
-            AND c.relname NOT LIKE 'pg_%' 
+            AND c.relname NOT LIKE 'pg_%'
             AND c.relname NOT LIKE 'sql_%';
         `;
 
-        const res = await client.query(query);
+        // .from() ile sorgulanabilen ama RLS analizi yapılmayan ilişkiler (view, matview, foreign table, partitioned)
+        const relationQuery = `
+            SELECT c.relname as name
+            FROM pg_class c
+            JOIN pg_namespace n ON n.oid = c.relnamespace
+            WHERE n.nspname = 'public'
+            AND c.relkind IN ('v', 'm', 'f', 'p');
+        `;
+
+        const policyQuery = `
+            SELECT
+                tablename as table_name,
+                policyname as policy_name,
+                permissive,
+                array_to_string(roles, ',') as roles,
+                cmd,
+                qual,
+                with_check
+            FROM pg_policies
+            WHERE schemaname = 'public';
+        `;
 
-        for (const row of res.rows) {
+        const tableRes = await client.query(tableQuery);
+        const relationRes = await client.query(relationQuery);
+        const policyRes = await client.query(policyQuery);
+        const roleRes = await client.query('SELECT current_user as app_role;');
+        const appRole = roleRes.rows[0]?.app_role;
+        schemas = await loadTableSchemas(client);
+
+        const policiesByTable = new Map();
+        for (const row of policyRes.rows) {
+            if (!policiesByTable.has(row.table_name)) policiesByTable.set(row.table_name, []);
+            policiesByTable.get(row.table_name).push({
+                name: row.policy_name,
+                cmd: row.cmd,
+                roles: String(row.roles || 'public').split(','),
+                qual: row.qual,
+                withCheck: row.with_check,
+                permissive: row.permissive !== 'RESTRICTIVE',
+            });
+        }
+
+        for (const row of relationRes.rows) relations.add(row.name);
+
+        for (const row of tableRes.rows) {
             const tableName = row.table_name;
-            const rlsEnabled = row.rls_enabled;
-            const policyCount = parseInt(row.policy_count, 10);
 
-            // Mock file usage for vibe-summary compatibility
-            filteredTables.set(tableName, [{ file: 'database -> public', line: 1 }]);
+            // Canlı veritabanında tanım konumu yok; kod kullanımları table-usage.ts ile eklenir
+            filteredTables.set(tableName, []);
 
             if (whitelisted && whitelisted.includes(tableName)) continue;
 
-            if (!rlsEnabled) {
-                issues.push({
-                    severity: 'critical',
-                    category: 'rls-check',
-                    table: tableName,
-                    title: `🔴 RLS KAPALI: '${tableName}' tablosu savunmasız!`,
-                    message: `Bu tabloda RLS etkinleştirilmemiş. Herkes veri okuyabilir veya yazabilir.`,
-                    file: '(direct db)'
-                });
-            } else if (policyCount === 0) {
-                issues.push({
-                    severity: 'warning',
-                    category: 'rls-check',
-                    table: tableName,
-                    title: `🟡 RLS AÇIK AMA POLİTİKA YOK: '${tableName}'`,
-                    message: `RLS açık ancak hiç policy tanımlanmamış. Kimse veriye erişemez, bu kasıtlı değilse bir hata olabilir.`,
-                    file: '(direct db)'
-                });
-            } else {
-                // Info for standard scan matching legacy behavior
-                issues.push({
-                    severity: 'info',
-                    category: 'rls-check',
-                    table: tableName,
-                    title: `✅ RLS AÇIK: '${tableName}' tablosunda ${policyCount} politika var.`,
-                    message: `Standart kontrol başarılı.`,
-                    file: '(direct db)'
-                });
-            }
+            issues.push(...analyzeTable({
+                name: tableName,
+                rlsEnabled: row.rls_enabled,
+                forceRls: row.force_rls,
+                owner: row.owner,
+                policies: policiesByTable.get(tableName) || [],
+            }, { appRole }));
         }
+
+        // View, SECURITY DEFINER fonksiyon, storage ve ek şemalar
+        issues.push(...await scanDatabaseSurface(client, { exposedSchemas: options.exposedSchemas }));
     } catch (err) {
         issues.push({
             severity: 'critical',
             category: 'rls-check',
-            title: `🔴 Veritabanı Bağlantı Hatası: ${err.message}`,
-            message: `RLS taraması için veritabanına bağlanılamadı. IP kısıtlamaları veya yanlış URL olabilir.`,
+            ruleId: 'rls-check/db-connection',
+            ...ruleText('rls-check/db-connection', { error: err.message }),
             file: '.env.local'
         });
     } finally {
-        await client.end();
+        if (client) await client.end();
     }
 
-    return { issues, filteredTables };
+    return { issues, filteredTables, relations, schemas };
 }
 
 module.exports = {
-    scanRLS
+    scanRLS,
+    analyzeTable,
+    isTautology,
+    connectClient
 };
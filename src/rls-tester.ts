@@ -0,0 +1,230 @@
+const { connectClient } = require('./rls-scanner');
+const { loadTableSchemas, pickOwnership } = require('./rls-recipes');
+const { t, ruleText } = require('./i18n');
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1', '[::1]', 'host.docker.internal'];
+// İki sentetik kullanıcı: saldırgan (A) kurbanın (B) satırına erişmeye çalışır
+const USER_A = '00000000-0000-4000-8000-00000000000a';
+const USER_B = '00000000-0000-4000-8000-00000000000b';
+const STATEMENT_TIMEOUT = '5s';
+
+// supabase start dışında (düz Docker Postgres) migration'ları uygulamadan önce çalıştırılacak asgari stub
+const AUTH_STUB_SQL = `CREATE SCHEMA IF NOT EXISTS auth;
+CREATE TABLE IF NOT EXISTS auth.users (id uuid PRIMARY KEY);
+CREATE OR REPLACE FUNCTION auth.jwt() RETURNS jsonb LANGUAGE sql STABLE AS $$
+  SELECT coalesce(nullif(current_setting('request.jwt.claims', true), '')::jsonb, '{}'::jsonb) $$;
+CREATE OR REPLACE FUNCTION auth.uid() RETURNS uuid LANGUAGE sql STABLE AS $$
+  SELECT nullif(auth.jwt() ->> 'sub', '')::uuid $$;
+CREATE OR REPLACE FUNCTION auth.role() RETURNS text LANGUAGE sql STABLE AS $$
+  SELECT auth.jwt() ->> 'role' $$;
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN CREATE ROLE anon NOLOGIN; END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN CREATE ROLE authenticated NOLOGIN; END IF;
+END $$;
+GRANT USAGE ON SCHEMA public, auth TO anon, authenticated;
+GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA auth TO anon, authenticated;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated;`;
+
+// ─── Safety ───
+// Testler her tabloda ROLLBACK ile biter, yine de uzak (prod) veritabanlarına varsayılan olarak bağlanılmaz
+function isLocalDatabase(databaseUrl, extraHosts = []) {
+    try {
+        const host = new URL(databaseUrl).hostname;
+        return [...LOCAL_HOSTS, ...extraHosts].includes(host);
+    } catch {
+        return false;
+    }
+}
+
+// ─── Row Generation ───
+// NOT NULL ve varsayılanı olmayan sütunlar için tipine uygun SQL ifadesi
+function valueFor(column) {
+    const type = column.type;
+    if (type === 'uuid') return 'gen_random_uuid()';
+    if (/char|text|citext/.test(type)) return `'vibe-sec-' || substr(md5(random()::text), 1, 8)`;
+    if (/^(smallint|integer|bigint)$/.test(type)) return '(floor(random() * 1000000000))::int';
+    if (/numeric|real|double|decimal/.test(type)) return '1';
+    if (type === 'boolean') return 'false';
+    if (/timestamp|date|time/.test(type)) return 'now()';
+    if (/^jsonb?$/.test(type)) return `'{}'`;
+    if (type === 'ARRAY') return `'{}'`;
+    if (type === 'bytea') return `'\\x00'`;
+    if (type === 'inet') return `'127.0.0.1'`;
+    if (type === 'USER-DEFINED') return `enum_first(NULL::"${column.udtSchema}"."${column.udtName}")`;
+    return 'NULL';
+}
+
+async function loadRequiredColumns(client, table) {
+    const res = await client.query(`
+        SELECT column_name, data_type, udt_schema, udt_name
+        FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = $1
+        AND is_nullable = 'NO' AND column_default IS NULL
+        AND is_identity = 'NO' AND is_generated = 'NEVER'
+        ORDER BY ordinal_position;
+    `, [table]);
+    return res.rows.map(r => ({ name: r.column_name, type: r.data_type, udtSchema: r.udt_schema, udtName: r.udt_name }));
+}
+
+function insertStatement(client, table, ownerColumn, ownerId, required) {
+    const columns = [ownerColumn, ...required.map(c => c.name).filter(c => c !== ownerColumn)];
+    const values = [client.escapeLiteral(ownerId), ...required.filter(c => c.name !== ownerColumn).map(valueFor)];
+    return `INSERT INTO public."${table}" (${columns.map(c => `"${c}"`).join(', ')}) VALUES (${values.join(', ')})`;
+}
+
+function claimsFor(persona) {
+    return persona.role === 'anon'
+        ? { role: 'anon' }
+        : { sub: persona.user, role: 'authenticated', aud: 'authenticated' };
+}
+
+// ─── Attempts ───
+/**
+ * Her deneme kendi SAVEPOINT'inde çalışır ve geri alınır; hata (RLS ihlali, yetki yok) = engellendi.
+ * Dönüş: { allowed, statement, error }
+ */
+async function attempt(client, statement, succeeded) {
+    await client.query('SAVEPOINT vibe_sec_attempt');
+    try {
+        const res = await client.query(statement);
+        return { allowed: succeeded(res), statement };
+    } catch (err) {
+        return { allowed: false, statement, error: err.message };
+    } finally {
+        await client.query('ROLLBACK TO SAVEPOINT vibe_sec_attempt');
+    }
+}
+
+async function testTable(client, table, plan, required) {
+    const outcomes = [];
+    await client.query('BEGIN');
+    try {
+        await client.query(`SET LOCAL statement_timeout = '${STATEMENT_TIMEOUT}'`);
+        // FK tetikleyicilerini kapatır: B kullanıcısının satırı auth.users / profiles kaydı olmadan eklenebilir
+        try {
+            await client.query('SAVEPOINT vibe_sec_replica');
+            await client.query(`SET LOCAL session_replication_role = replica`);
+        } catch {
+            await client.query('ROLLBACK TO SAVEPOINT vibe_sec_replica');
+        }
+
+        const seed = await client.query(`${insertStatement(client, table, plan.column, USER_B, required)} RETURNING ctid::text as ctid`);
+        const target = `ctid = ${client.escapeLiteral(seed.rows[0].ctid)}::tid`;
+
+        const personas = [
+            { label: `authenticated (A: ${USER_A.slice(-4)})`, role: 'authenticated', user: USER_A },
+            { label: 'anon', role: 'anon', user: null },
+        ];
+        for (const persona of personas) {
+            await client.query('RESET ROLE');
+            await client.query(`SET LOCAL ROLE ${persona.role}`);
+            await client.query(`SELECT set_config('request.jwt.claims', $1, true), set_config('request.jwt.claim.sub', $2, true)`,
+                [JSON.stringify(claimsFor(persona)), persona.user || '']);
+
+            const checks = [
+                ['SELECT', `SELECT * FROM public."${table}" WHERE ${target}`, (res) => res.rowCount > 0],
+                ['UPDATE', `UPDATE public."${table}" SET "${plan.column}" = "${plan.column}" WHERE ${target}`, (res) => res.rowCount > 0],
+                ['DELETE', `DELETE FROM public."${table}" WHERE ${target}`, (res) => res.rowCount > 0],
+                ['INSERT', insertStatement(client, table, plan.column, USER_B, required), (res) => res.rowCount > 0],
+            ];
+            for (const [op, statement, succeeded] of checks) {
+                outcomes.push({ persona: persona.label, role: persona.role, op, ...await attempt(client, statement, succeeded) });
+            }
+        }
+    } finally {
+        await client.query('ROLLBACK');
+    }
+    return outcomes;
+}
+
+async function checkPrerequisites(client) {
+    const res = await client.query(`
+        SELECT
+            (SELECT count(*) FROM pg_roles WHERE rolname IN ('anon', 'authenticated')) as roles,
+            to_regprocedure('auth.uid()') IS NOT NULL as auth_uid;
+    `);
+    const missing = [];
+    if (Number(res.rows[0].roles) < 2) missing.push(t('rlsTest.missingRoles'));
+    if (!res.rows[0].auth_uid) missing.push(t('rlsTest.missingAuthUid'));
+    return missing;
+}
+
+// ─── Runner ───
+/**
+ * options: { whitelisted, tables (sadece bu tablolar) }
+ * Dönüş: { issues, results: [{ table, plan, outcomes, skipped }], setupError }
+ */
+async function runRLSBehaviorTests(databaseUrl, options: { whitelisted?: string[]; tables?: string[] | null } = {}) {
+    const issues = [];
+    const results = [];
+    const client = await connectClient(databaseUrl);
+
+    try {
+        const missing = await checkPrerequisites(client);
+        if (missing.length > 0) {
+            return { issues, results, setupError: t('rlsTest.missing', { missing: missing.join(', ') }) };
+        }
+
+        const schemas = await loadTableSchemas(client);
+        const tableRes = await client.query(`
+            SELECT c.relname as table_name
+            FROM pg_class c
+            JOIN pg_namespace n ON n.oid = c.relnamespace
+            WHERE n.nspname = 'public' AND c.relkind IN ('r', 'p')
+            ORDER BY c.relname;
+        `);
+        const only = options.tables && options.tables.length > 0 ? options.tables : null;
+
+        for (const { table_name: table } of tableRes.rows) {
+            if ((options.whitelisted || []).includes(table) || (only && !only.includes(table))) continue;
+            const plan = pickOwnership(table, schemas);
+            // Kiracılar arası izolasyon sadece sahiplik sütunu olan tablolarda tanımlı
+            if (plan.kind !== 'owner') {
+                results.push({ table, plan, outcomes: [], skipped: t('rlsTest.noOwner', { kind: plan.kind }) });
+                continue;
+            }
+
+            let outcomes;
+            try {
+                outcomes = await testTable(client, table, plan, await loadRequiredColumns(client, table));
+            } catch (err) {
+                results.push({ table, plan, outcomes: [], skipped: t('rlsTest.insertFailed', { error: err.message }) });
+                continue;
+            }
+            results.push({ table, plan, outcomes });
+
+            for (const outcome of outcomes.filter(o => o.allowed)) {
+                const write = outcome.op !== 'SELECT';
+                issues.push({
+                    severity: 'critical', category: 'rls-check',
+                    ruleId: write ? 'rls-check/cross-tenant-write' : 'rls-check/cross-tenant-read',
+                    table,
+                    ...ruleText(write ? 'rls-check/cross-tenant-write' : 'rls-check/cross-tenant-read', {
+                        table, persona: outcome.persona, op: outcome.op, role: outcome.role, column: plan.column, user: USER_B,
+                    }),
+                    file: '(rls:test)',
+                    context: outcome.statement,
+                });
+            }
+        }
+    } finally {
+        await client.end();
+    }
+
+    for (const result of results.filter(r => r.skipped)) {
+        issues.push({
+            severity: 'info', category: 'rls-check', ruleId: 'rls-check/test-skipped',
+            table: result.table,
+            ...ruleText('rls-check/test-skipped', { table: result.table, reason: result.skipped }),
+            file: '(rls:test)',
+        });
+    }
+
+    return { issues, results, setupError: null };
+}
+
+module.exports = {
+    AUTH_STUB_SQL,
+    isLocalDatabase,
+    runRLSBehaviorTests,
+};
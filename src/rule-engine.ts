@@ -0,0 +1,300 @@
+import type { Issue, RuleContext, RuleMatch } from './types';
+const path = require('path');
+const fs = require('fs');
+const ts = require('typescript');
+const { readSource } = require('./source-reader');
+const { builtinRules } = require('./builtin-rules');
+const { t, ruleText, registerMessages } = require('./i18n');
+
+const SEVERITIES = ['critical', 'warning', 'info'];
+const SCOPES = ['client', 'server', 'all'];
+
+// ─── Rule Shape ───
+/**
+ * Ortak kural şekli (yerleşik, config ve plugin kuralları):
+ *   id           'kategori/ad' — suppression ve baseline için kararlı kimlik
+ *   severity     'critical' | 'warning' | 'info'
+ *   codeSeverity kod eşleşmeleri için farklı seviye (opsiyonel)
+ *   files        glob string | RegExp | (relPath) => boolean listesi (opsiyonel)
+ *   scope        'client' | 'server' | 'all' — dosya türü filtresi (varsayılan 'all')
+ *   envKeys      NEXT_PUBLIC_ anahtar eşleyicileri (regex string, büyük/küçük harf duyarsız, ya da RegExp)
+ *   codePatterns satır bazlı kod eşleyicileri (regex string ya da RegExp)
+ *   visitor      (node, ctx) => void — TypeScript AST ziyaretçisi, ctx.report({ node, ... })
+ *   analyze      (ctx) => void — dosya bazlı analiz, ctx.report({ line, ... })
+ *                context çevrilmiş metin içeriyorsa report({ stableContext }) fingerprint için dilden bağımsız değeri verir
+ *   title, message  string ("{key}", "{match}" yer tutucuları) ya da (match) => string
+ *   fix          düzeltme önerisi
+ * Metinler locales/*.ts rules[id] kataloğundan da gelebilir; plugin'ler { rules, messages: { en: { rules: { ... } } } }
+ * ile kendi çevirilerini ekler. Öncelik: report() metni > aktif dil kataloğu > kuralın kendi metni > varsayılan dil.
+ */
+
+// ─── File Matching ───
+function globToRegExp(glob) {
+    let re = '';
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*' && glob[i + 1] === '*') {
+            re += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += glob[i + 2] === '/' ? 2 : 1;
+        } else if (ch === '*') re += '[^/]*';
+        else if (ch === '?') re += '[^/]';
+        else re += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+    return new RegExp(`^${re}$`);
+}
+
+function toMatcher(spec) {
+    if (typeof spec === 'function') return spec;
+    if (spec instanceof RegExp) return (rel) => spec.test(rel);
+    const re = globToRegExp(String(spec));
+    return (rel) => re.test(rel);
+}
+
+// Modül grafı yoksa kullanılan yedek sezgi: "use client" direktifi veya App Router / components altındaki
+// (API route olmayan) dosyalar. Tarama sırasında istemci kümesi module-graph.ts'ten gelir.
+function isClientFile(rel, content) {
+    return /^['"`]use client['"`]/m.test(content) ||
+        rel.startsWith('src/components/') || (rel.startsWith('src/app/') && !rel.includes('/api/'));
+}
+
+function toRegExp(pattern, flags = '') {
+    return pattern instanceof RegExp ? new RegExp(pattern.source, pattern.flags.replace('g', '')) : new RegExp(pattern, flags);
+}
+
+function render(template, match) {
+    if (typeof template === 'function') return template(match);
+    return String(template || '')
+        .replace(/\{key\}/g, match.key || '')
+        .replace(/\{match\}/g, match.match || '')
+        .replace(/\{file\}/g, match.file || '');
+}
+
+function localized(field, rule, match) {
+    if (match[field]) return render(match[field], match);
+    const params = { ...match, key: match.key || '', match: match.match || '', file: match.file || '' };
+    const text = ruleText(rule.id, params, { fallback: false });
+    if (text[field] !== undefined) return text[field];
+    if (rule[field]) return render(rule[field], match);
+    return ruleText(rule.id, params)[field];
+}
+
+// ─── Normalization ───
+function normalizeRule(rule, source) {
+    if (!rule || typeof rule !== 'object') throw new Error(t('ruleEngine.notObject'));
+    if (!rule.id || typeof rule.id !== 'string') throw new Error(t('ruleEngine.missingId'));
+    const severity = rule.severity || 'warning';
+    if (!SEVERITIES.includes(severity)) throw new Error(t('ruleEngine.invalidField', { id: rule.id, field: 'severity', value: severity }));
+    if (rule.codeSeverity && !SEVERITIES.includes(rule.codeSeverity)) throw new Error(t('ruleEngine.invalidField', { id: rule.id, field: 'codeSeverity', value: rule.codeSeverity }));
+    const scope = rule.scope || 'all';
+    if (!SCOPES.includes(scope)) throw new Error(t('ruleEngine.invalidField', { id: rule.id, field: 'scope', value: scope }));
+    if (!rule.envKeys && !rule.codePatterns && !rule.visitor && !rule.analyze) {
+        throw new Error(t('ruleEngine.noMatcher', { id: rule.id }));
+    }
+
+    return {
+        ...rule,
+        severity,
+        scope,
+        source,
+        category: rule.category || (rule.id.includes('/') ? rule.id.split('/')[0] : 'custom'),
+        envMatchers: (rule.envKeys || []).map(k => toRegExp(k, 'i')),
+        codeMatchers: (rule.codePatterns || []).map(p => toRegExp(p)),
+        fileMatchers: rule.files ? [].concat(rule.files).map(toMatcher) : null,
+    };
+}
+
+function registerCatalogs(messages) {
+    for (const [locale, catalog] of Object.entries(messages || {})) registerMessages(locale, catalog);
+}
+
+// Plugin modülü: kural dizisi, { rules: [...], messages? } ya da config alan bir fonksiyon
+function loadPlugin(name, projectRoot, config) {
+    const resolved = require.resolve(name, { paths: [projectRoot] });
+    const mod = require(resolved);
+    const exported = mod && mod.__esModule && mod.default ? mod.default : mod;
+    const value = typeof exported === 'function' ? exported(config) : exported;
+    if (Array.isArray(value)) return value;
+    registerCatalogs(value && value.messages);
+    return (value && value.rules) || [];
+}
+
+/**
+ * Yerleşik kurallar + config.rules + config.plugins.
+ * Aynı id ile tanımlanan config kuralı yerleşik kuralı günceller; { id, enabled: false } kuralı kapatır.
+ * config.messages plugin çevirilerinden sonra kaydedilir (proje çevirileri önceliklidir).
+ * Dönüş: { rules, errors }
+ */
+function loadRules(config, projectRoot) {
+    const byId = new Map();
+    const errors = [];
+
+    const add = (rule, source) => {
+        try {
+            if (rule && rule.enabled === false && rule.id) {
+                byId.delete(rule.id);
+                return;
+            }
+            const base = byId.get(rule && rule.id);
+            const merged = base ? { ...base, ...rule } : rule;
+            byId.set(rule.id, normalizeRule(merged, base ? `${base.source} + ${source}` : source));
+        } catch (err) {
+            errors.push(`${source}: ${err.message}`);
+        }
+    };
+
+    for (const rule of builtinRules(config)) add(rule, t('ruleEngine.builtin'));
+    for (const name of (config && config.plugins) || []) {
+        try {
+            for (const rule of loadPlugin(name, projectRoot, config)) add(rule, name);
+        } catch (err) {
+            errors.push(t('ruleEngine.pluginFailed', { name, error: err.message.split('\n')[0] }));
+        }
+    }
+    for (const rule of (config && config.rules) || []) add(rule, 'config');
+    registerCatalogs(config && config.messages);
+
+    return { rules: [...byId.values()], errors };
+}
+
+// ─── Runner ───
+function makeIssue(rule, match, kind) {
+    const severity = match.severity || (kind === 'env' ? rule.severity : rule.codeSeverity || rule.severity);
+    const params = { ...match, kind };
+    const issue: Issue = {
+        severity, category: rule.category, ruleId: rule.id,
+        title: localized('title', rule, params) || rule.id,
+        message: localized('message', rule, params) || '',
+        file: match.file, line: match.line,
+    };
+    if (match.context) issue.context = match.context;
+    if (match.stableContext) issue.stableContext = match.stableContext;
+    if (match.key) issue.key = match.key;
+    const fix = localized('fix', rule, params);
+    if (fix) issue.fix = fix;
+    return issue;
+}
+
+function runEnvRules(rules, envEntries) {
+    const issues = [];
+    for (const entry of envEntries) {
+        if (!entry.key.startsWith('NEXT_PUBLIC_')) continue;
+        for (const rule of rules) {
+            const hit = rule.envMatchers.find(re => re.test(entry.key));
+            if (!hit) continue;
+            issues.push(makeIssue(rule, { file: entry.file, line: entry.line, key: entry.key, match: entry.key }, 'env'));
+        }
+    }
+    return issues;
+}
+
+function runFileRules(rules, filePath, projectRoot, clientFiles) {
+    const content = readSource(filePath);
+    const rel = path.relative(projectRoot, filePath).replace(/\\/g, '/');
+    if (rel.includes('security-watchdog')) return [];
+
+    const client = clientFiles ? clientFiles.has(filePath) : isClientFile(rel, content);
+    const applicable = rules.filter(rule =>
+        (rule.scope === 'all' || (rule.scope === 'client') === client) &&
+        (!rule.fileMatchers || rule.fileMatchers.some(m => m(rel))));
+    if (applicable.length === 0) return [];
+
+    const issues = [];
+    const lines = content.split(/\r?\n/);
+    const cache = new Map();
+    let sourceFile = null;
+
+    const ctx: Omit<RuleContext, 'report'> = {
+        ts, filePath, file: rel, content, lines, client,
+        get sourceFile() {
+            if (!sourceFile) sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKindFor(filePath));
+            return sourceFile;
+        },
+        // Aynı dosyada birden çok kuralın paylaştığı pahalı analizler için
+        cached(key, compute) {
+            if (!cache.has(key)) cache.set(key, compute());
+            return cache.get(key);
+        },
+    };
+
+    for (const rule of applicable.filter(r => r.codeMatchers.length > 0)) {
+        lines.forEach((line, idx) => {
+            for (const re of rule.codeMatchers) {
+                const m = re.exec(line);
+                if (m) issues.push(makeIssue(rule, { file: rel, line: idx + 1, context: line.trim(), match: m[0] }, 'code'));
+            }
+        });
+    }
+
+    // Her kural kendi report fonksiyonunu alır; AST tek geçişte tüm ziyaretçilere dağıtılır
+    const reporterFor = (rule) => (match: RuleMatch = {}) => {
+        let line = match.line;
+        if (!line && match.node) line = ctx.sourceFile.getLineAndCharacterOfPosition(match.node.getStart(ctx.sourceFile)).line + 1;
+        const context = match.context ?? (line ? (lines[line - 1] || '').trim() : undefined);
+        issues.push(makeIssue(rule, { ...match, file: rel, line, context }, 'code'));
+    };
+
+    // sourceFile getter'ı miras alınır; AST sadece ihtiyaç duyulursa oluşturulur
+    const ruleContext = (rule) => Object.assign(Object.create(ctx), { report: reporterFor(rule) });
+
+    for (const rule of applicable.filter(r => r.analyze)) {
+        rule.analyze(ruleContext(rule));
+    }
+
+    const visitors = applicable.filter(r => r.visitor).map(rule => ({ rule, ruleCtx: ruleContext(rule) }));
+    if (visitors.length > 0) {
+        const walk = (node) => {
+            for (const { rule, ruleCtx } of visitors) rule.visitor(node, ruleCtx);
+            ts.forEachChild(node, walk);
+        };
+        walk(ctx.sourceFile);
+    }
+
+    return issues;
+}
+
+function scriptKindFor(fileName) {
+    if (fileName.endsWith('.tsx')) return ts.ScriptKind.TSX;
+    if (fileName.endsWith('.jsx')) return ts.ScriptKind.JSX;
+    if (/\.[mc]?js$/.test(fileName)) return ts.ScriptKind.JS;
+    return ts.ScriptKind.TS;
+}
+
+/**
+ * Tüm kuralları .env girdileri ve kaynak dosyalar üzerinde çalıştırır.
+ * clientFiles: buildModuleGraph().clientFiles — verilmezse isClientFile sezgisi kullanılır
+ */
+function runRules(rules, { files, projectRoot, envEntries, clientFiles }: { files: string[]; projectRoot: string; envEntries?: { key: string; file?: string; line: number }[]; clientFiles?: Set<string> }) {
+    const issues = runEnvRules(rules.filter(r => r.envMatchers.length > 0), envEntries || []);
+    const fileRules = rules.filter(r => r.codeMatchers.length > 0 || r.visitor || r.analyze);
+    for (const filePath of files) {
+        try {
+            issues.push(...runFileRules(fileRules, filePath, projectRoot, clientFiles));
+        } catch { }
+    }
+    return issues;
+}
+
+// `vibe-sec rules list` için tek satırlık özet
+function describeRule(rule) {
+    const kinds = [];
+    if (rule.envMatchers.length > 0) kinds.push('env');
+    if (rule.codeMatchers.length > 0) kinds.push(t('ruleEngine.kindCode'));
+    if (rule.visitor || rule.analyze) kinds.push('AST');
+    return {
+        id: rule.id,
+        category: rule.category,
+        severity: rule.codeSeverity && rule.codeSeverity !== rule.severity ? `${rule.severity}/${rule.codeSeverity}` : rule.severity,
+        scope: rule.scope,
+        kinds,
+        source: rule.source,
+        fix: localized('fix', rule, { kind: rule.envMatchers.length > 0 ? 'env' : 'code' }),
+    };
+}
+
+module.exports = {
+    isClientFile,
+    normalizeRule,
+    loadRules,
+    runRules,
+    describeRule,
+};
@@ -0,0 +1,76 @@
+const crypto = require('crypto');
+const { fingerprintIssue } = require('./suppressions');
+const { readSource } = require('./source-reader');
+
+// ─── Scan Session ───
+/**
+ * Taramalar arasında korunan durum (izleme modunda tek bir oturum kullanılır):
+ *   files   Map<dosya, { hash, issues, tables }> — içerik hash'ine göre dosya bazlı sonuçlar
+ *   rls     son RLS durumu; null ise bir sonraki taramada yeniden okunur
+ *   rlsKey  RLS durumunun okunduğu veritabanı URL'i (değişirse yeniden okunur)
+ *   git     son git hijyen sonucu; null ise yeniden taranır
+ *   graph   Map<dosya, { hash, info }> — modül grafı için dosya bazlı import/direktif önbelleği
+ *   previous önceki taramanın bulguları (yeni / çözülen farkı için)
+ */
+function createScanSession() {
+    return { files: new Map(), rls: null, rlsKey: null, git: null, graph: new Map(), previous: null };
+}
+
+function hashContent(content) {
+    return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+// ─── Incremental File Scan ───
+/**
+ * Sadece içeriği (veya keyOf(filePath) ek anahtarı) değişen dosyalar için scanFile(filePath) çağrılır.
+ * keyOf: dosyanın sonucunu etkileyen dış durum — ör. başka bir dosyadaki değişiklikle istemci bundle'ına girmesi
+ * scanFile dönüşü: { issues, tables: Map<table, usages[]> }
+ * Dönüş: { issues, tables, rescanned }
+ */
+function scanFilesIncremental(session, files, scanFile, keyOf = (filePath) => '') {
+    const issues = [];
+    const tables = new Map();
+    let rescanned = 0;
+
+    const present = new Set(files);
+    for (const cached of [...session.files.keys()]) {
+        if (!present.has(cached)) session.files.delete(cached);
+    }
+
+    for (const filePath of files) {
+        let hash;
+        try { hash = hashContent(readSource(filePath)) + keyOf(filePath); } catch { continue; }
+
+        let entry = session.files.get(filePath);
+        if (!entry || entry.hash !== hash) {
+            entry = { hash, ...scanFile(filePath) };
+            session.files.set(filePath, entry);
+            rescanned++;
+        }
+
+        issues.push(...entry.issues);
+        for (const [table, usages] of entry.tables) {
+            if (!tables.has(table)) tables.set(table, []);
+            tables.get(table).push(...usages);
+        }
+    }
+
+    return { issues, tables, rescanned };
+}
+
+// ─── Diff ───
+function diffIssues(previous, current) {
+    const key = (issue) => issue.fingerprint || fingerprintIssue(issue);
+    const before = new Set(previous.map(key));
+    const after = new Set(current.map(key));
+    return {
+        added: current.filter(i => !before.has(key(i))),
+        resolved: previous.filter(i => !after.has(key(i))),
+    };
+}
+
+module.exports = {
+    createScanSession,
+    scanFilesIncremental,
+    diffIssues,
+};
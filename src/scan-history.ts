@@ -0,0 +1,89 @@
+import type { HistoryConfig } from './types';
+const path = require('path');
+const fs = require('fs');
+const { git, isGitRepo } = require('./git-scanner');
+
+const HISTORY_FILE = path.join('.vibe-sec', 'history.jsonl');
+const DEFAULT_MAX_RUNS = 500;
+
+// ─── Record ───
+function gitState(projectRoot) {
+    if (!isGitRepo(projectRoot)) return { commit: null, branch: null };
+    let commit = null;
+    let branch = null;
+    try { commit = git(projectRoot, ['rev-parse', 'HEAD']).trim(); } catch { }
+    try { branch = git(projectRoot, ['rev-parse', '--abbrev-ref', 'HEAD']).trim(); } catch { }
+    return { commit, branch: branch === 'HEAD' ? null : branch };
+}
+
+/**
+ * Tek bir taramanın özeti: önem derecesi / kategori sayıları ve bulgu fingerprint'leri.
+ * fingerprints: { [fingerprint]: ruleId } — çözülen bulgular sonraki çalıştırmada kural adıyla gösterilebilsin diye
+ * known: baseline ile gizlenen bulgular (sayılara dahil değildir)
+ */
+function createHistoryRecord(projectRoot, issues, options: { known?: number; date?: Date } = {}) {
+    const severities = { critical: 0, warning: 0, info: 0 };
+    const categories = {};
+    const fingerprints = {};
+    for (const issue of issues) {
+        severities[issue.severity] = (severities[issue.severity] || 0) + 1;
+        categories[issue.category] = (categories[issue.category] || 0) + 1;
+        if (issue.fingerprint) fingerprints[issue.fingerprint] = issue.ruleId || issue.category;
+    }
+    return {
+        timestamp: (options.date || new Date()).toISOString(),
+        ...gitState(projectRoot),
+        total: issues.length,
+        severities,
+        categories,
+        known: options.known || 0,
+        fingerprints,
+    };
+}
+
+// ─── Storage ───
+// Satır başına bir JSON kaydı; maxRuns aşılınca en eski kayıtlar atılır
+function appendHistory(projectRoot, record, options: HistoryConfig = {}) {
+    const filePath = path.join(projectRoot, HISTORY_FILE);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.appendFileSync(filePath, JSON.stringify(record) + '\n', 'utf-8');
+
+    const maxRuns = options.maxRuns || DEFAULT_MAX_RUNS;
+    const lines = fs.readFileSync(filePath, 'utf-8').split('\n').filter(Boolean);
+    if (lines.length > maxRuns) fs.writeFileSync(filePath, lines.slice(-maxRuns).join('\n') + '\n', 'utf-8');
+    return filePath;
+}
+
+// Bozuk satırlar (yarım yazılmış kayıt, elle düzenleme) atlanır
+function readHistory(projectRoot, options: { limit?: number } = {}) {
+    const filePath = path.join(projectRoot, HISTORY_FILE);
+    if (!fs.existsSync(filePath)) return [];
+    const records = [];
+    for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            const record = JSON.parse(line);
+            if (record && record.timestamp && record.severities) records.push(record);
+        } catch { }
+    }
+    return options.limit ? records.slice(-options.limit) : records;
+}
+
+// ─── Trend ───
+// İki çalıştırma arasında eklenen / çözülen fingerprint'ler
+function diffRecords(previous, current) {
+    const before = previous ? previous.fingerprints || {} : {};
+    const after = current.fingerprints || {};
+    return {
+        added: Object.keys(after).filter(f => !(f in before)).map(fingerprint => ({ fingerprint, ruleId: after[fingerprint] })),
+        resolved: Object.keys(before).filter(f => !(f in after)).map(fingerprint => ({ fingerprint, ruleId: before[fingerprint] })),
+    };
+}
+
+module.exports = {
+    HISTORY_FILE,
+    createHistoryRecord,
+    appendHistory,
+    readHistory,
+    diffRecords,
+};
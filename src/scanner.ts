@@ -0,0 +1,375 @@
+import type { ScanOptions, ScanStats } from './types';
+const path = require('path');
+const fs = require('fs');
+const { scanRLS: performRLSScan } = require('./rls-scanner');
+const { buildRecipes } = require('./rls-recipes');
+const { hasMigrations, scanRLSOffline } = require('./migration-parser');
+const { crossReferenceTables, crossReferenceRpc } = require('./table-usage');
+const { scanEnvValues, scanSourceLiterals } = require('./secret-detector');
+const { loadRules, runRules } = require('./rule-engine');
+const { createScanSession, scanFilesIncremental } = require('./scan-cache');
+const { scanBuildArtifacts } = require('./build-scanner');
+const { scanGitHygiene } = require('./git-scanner');
+const { buildModuleGraph, scanClientBoundary } = require('./module-graph');
+const { scanAuthGuards } = require('./auth-guard');
+const { scanNextConfig } = require('./next-config');
+const { FUNCTIONS_DIR, scanEdgeFunctions } = require('./edge-functions');
+const { loadConfig, validateConfig } = require('./config');
+const { applySuppressions, assignFingerprints, dedupeIssues, loadBaseline, filterBaseline } = require('./suppressions');
+const { readSource, withSourceOverlay } = require('./source-reader');
+const { resolveDiffScope, inDiffScope } = require('./diff-scope');
+const { t, ruleText, withLocale } = require('./i18n');
+
+const DEFAULT_SCAN_DIRS = ['src'];
+const DEFAULT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+const DEFAULT_EXCLUDE_DIRS = ['node_modules', '.next', 'dist', '.git'];
+const DEFAULT_ENV_FILES = ['.env', '.env.local'];
+
+// ─── .env Parser ───
+function parseEnvFile(filePath) {
+    const entries = [];
+    try {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        content.split(/\r?\n/).forEach((rawLine, index) => {
+            const trimmed = rawLine.trim();
+            if (!trimmed || trimmed.startsWith('#')) return;
+            const cleaned = trimmed.replace(/^export\s+/, '');
+            const eqIndex = cleaned.indexOf('=');
+            if (eqIndex === -1) return;
+            const key = cleaned.substring(0, eqIndex).trim();
+            const value = cleaned.substring(eqIndex + 1).replace(/\s+#\s*vibe-sec-ignore\b.*$/, '').trim().replace(/^["']|["']$/g, '');
+            entries.push({ key, value, line: index + 1 });
+        });
+    } catch { }
+    return entries;
+}
+
+// config.secretScanner.envFiles içindeki mevcut dosyaların anahtarları; her giriş kaynak dosyasını taşır
+function collectEnvEntries(projectRoot, config) {
+    const entries = [];
+    for (const envPattern of config.secretScanner?.envFiles || DEFAULT_ENV_FILES) {
+        const envPath = path.join(projectRoot, envPattern);
+        if (!fs.existsSync(envPath)) continue;
+        for (const entry of parseEnvFile(envPath)) entries.push({ ...entry, file: envPattern });
+    }
+    return entries;
+}
+
+// ─── File Walker ───
+function walkDir(currentDir, extensions, excludeDirs) {
+    const results = [];
+    try {
+        const entries = fs.readdirSync(currentDir, { withFileTypes: true });
+        for (const entry of entries) {
+            const fullPath = path.join(currentDir, entry.name);
+            if (entry.isDirectory()) {
+                if (!excludeDirs.includes(entry.name)) walkDir(fullPath, extensions, excludeDirs).forEach(r => results.push(r));
+            } else if (entry.isFile() && extensions.some(ext => entry.name.endsWith(ext))) {
+                results.push(fullPath);
+            }
+        }
+    } catch { }
+    return results;
+}
+
+// config.rlsScanner.scanDirs altındaki kaynak dosyalar (mutlak yollar)
+function collectSourceFiles(projectRoot, config) {
+    const files = [];
+    for (const dir of config.rlsScanner?.scanDirs || DEFAULT_SCAN_DIRS) {
+        const dirPath = path.join(projectRoot, dir);
+        if (fs.existsSync(dirPath)) files.push(...walkDir(dirPath, config.rlsScanner?.extensions || DEFAULT_EXTENSIONS, config.rlsScanner?.excludeDirs || DEFAULT_EXCLUDE_DIRS));
+    }
+    return files;
+}
+
+// ─── Supabase From Finder ───
+// supabase.storage.from('bucket') çağrıları tablo sayılmaz
+function findSupabaseFromCalls(files, projectRoot, clientFiles) {
+    const tables = new Map();
+    const regex = /(?<!storage\s*)\.from\(\s*['"`]([a-zA-Z_][a-zA-Z0-9_]*)['"`]\s*\)/g;
+    for (const filePath of files) {
+        try {
+            const content = readSource(filePath);
+            const client = clientFiles ? clientFiles.has(filePath) : /^['"`]use client['"`]/m.test(content);
+            content.split(/\r?\n/).forEach((line, idx) => {
+                let match;
+                const lr = new RegExp(regex.source, 'g');
+                while ((match = lr.exec(line)) !== null) {
+                    const table = match[1];
+                    if (!tables.has(table)) tables.set(table, []);
+                    tables.get(table).push({ file: path.relative(projectRoot, filePath), line: idx + 1, context: line.trim(), client });
+                }
+            });
+        } catch { }
+    }
+    return tables;
+}
+
+// ─── Supabase RPC Finder ───
+// supabase.rpc('fonksiyon') çağrıları; SECURITY DEFINER bulgularını çağrı noktasına bağlamak için
+function findSupabaseRpcCalls(files, projectRoot, clientFiles) {
+    const calls = new Map();
+    const regex = /\.rpc\(\s*['"`]([a-zA-Z_][a-zA-Z0-9_]*)['"`]/g;
+    for (const filePath of files) {
+        try {
+            const content = readSource(filePath);
+            if (!content.includes('.rpc(')) continue;
+            const client = clientFiles.has(filePath);
+            content.split(/\r?\n/).forEach((line, idx) => {
+                let match;
+                const lr = new RegExp(regex.source, 'g');
+                while ((match = lr.exec(line)) !== null) {
+                    if (!calls.has(match[1])) calls.set(match[1], []);
+                    calls.get(match[1]).push({ file: path.relative(projectRoot, filePath), line: idx + 1, context: line.trim(), client });
+                }
+            });
+        } catch { }
+    }
+    return calls;
+}
+
+// ─── Source File Scan ───
+// Sadece tek dosyaya ve istemci/sunucu durumuna bağlı tarayıcılar; sonuç içerik hash'ine göre önbelleğe alınabilir
+function scanSourceFile(filePath, projectRoot, rules, clientFiles) {
+    return {
+        issues: [...scanSourceLiterals([filePath], projectRoot), ...runRules(rules, { files: [filePath], projectRoot, clientFiles })],
+        tables: findSupabaseFromCalls([filePath], projectRoot, clientFiles),
+    };
+}
+
+// ─── Database URL ───
+// Önce process.env, sonra .env dosyalarındaki bağlantı anahtarları
+function resolveDatabaseUrl(envEntries) {
+    if (process.env.DATABASE_URL) return process.env.DATABASE_URL;
+    const dbEntry = envEntries.find(e =>
+        e.key === 'DATABASE_URL' ||
+        e.key === 'SUPABASE_DB_URL' ||
+        e.key === 'NEXT_PUBLIC_DATABASE_URL' ||
+        e.key === 'NEXT_PUBLIC_SUPABASE_DB_URL'
+    );
+    return dbEntry ? dbEntry.value : undefined;
+}
+
+// ─── RLS State (DB veya Offline) ───
+// offline verilmişse ya da DATABASE_URL yoksa supabase/migrations/*.sql tekrar oynatılır.
+// Veritabanına bağlanılamazsa ve migration'lar varsa offline moda düşülür (fallback: true).
+async function collectRLSState(projectRoot, envEntries, whitelisted, options: { offline?: boolean; exposedSchemas?: string[] } = {}) {
+    const databaseUrl = resolveDatabaseUrl(envEntries);
+    const migrationsAvailable = hasMigrations(projectRoot);
+
+    if (options.offline || (!databaseUrl && migrationsAvailable)) {
+        return { ...scanRLSOffline(projectRoot, whitelisted), mode: 'offline', fallback: false };
+    }
+
+    const result = await performRLSScan(databaseUrl, whitelisted, { exposedSchemas: options.exposedSchemas || [] });
+    const connectionIssue = result.issues.find(i => i.ruleId === 'rls-check/db-connection');
+    if (!connectionIssue || !migrationsAvailable) return { ...result, mode: 'db', fallback: false };
+
+    const offline = scanRLSOffline(projectRoot, whitelisted);
+    offline.issues.unshift({
+        ...connectionIssue,
+        severity: 'warning',
+        message: `${connectionIssue.message} ${t('rls.offlineFallback')}`,
+    });
+    return { ...offline, mode: 'offline', fallback: true };
+}
+
+// ─── Scan ───
+/**
+ * Tüm tarayıcıları çalıştırır; terminal çıktısı üretmez ve dosya yazmaz (CLI bunu ScanResult'tan yapar).
+ * Bkz. types.ts ScanOptions / ScanResult.
+ */
+async function scan(options: ScanOptions = {}) {
+    const projectRoot = options.projectRoot || process.cwd();
+    let config = options.config;
+    if (config) {
+        const errors = validateConfig(config);
+        if (errors.length > 0) throw new Error(`${t('config.invalid')}\n${errors.map(e => `  - ${e}`).join('\n')}`);
+    } else {
+        config = (await loadConfig(projectRoot))?.config || {};
+    }
+    const session = options.session || createScanSession();
+    // Bulgu metinleri tarama sırasında üretilir: options.locale > config.locale > aktif dil
+    const locale = options.locale || config.locale;
+
+    // --since <ref> / --staged: sadece değişen dosyalar taranır, sadece değişen satırlardaki bulgular raporlanır
+    const scope = resolveDiffScope(projectRoot, { since: options.since, staged: options.staged });
+    return withLocale(locale, () => withSourceOverlay(scope?.overlay, () => runScan(projectRoot, config, session, scope, options)));
+}
+
+async function runScan(projectRoot, config, session, scope, options) {
+    const issues = [];
+    const stats: Partial<ScanStats> = {};
+
+    // Kaynak dosyaları topla (--staged: index'ten silinmiş dosyalar hariç)
+    const allFiles = collectSourceFiles(projectRoot, config).filter(f => !scope?.overlay || scope.overlay.get(f) !== null);
+    const changedFiles = scope ? allFiles.filter(f => scope.changed.has(path.relative(projectRoot, f).replace(/\\/g, '/'))) : allFiles;
+    const { rules, errors: ruleErrors } = loadRules(config, projectRoot);
+    stats.rules = rules.length;
+    stats.ruleErrors = ruleErrors;
+
+    // İstemci/sunucu ayrımı import grafı üzerinden ("use client" sınırı + tsconfig paths)
+    const graph = buildModuleGraph(allFiles, projectRoot, session.graph);
+    const { clientFiles } = graph;
+    // Import grafı ve auth guard tüm dosyalar üzerinden kurulur (değişen bir dosya başka dosyaların sınırını etkiler)
+    const { issues: fileIssues, tables: codeTables, rescanned } = scanFilesIncremental(
+        session, changedFiles, f => scanSourceFile(f, projectRoot, rules, clientFiles), f => clientFiles.has(f) ? ':client' : '');
+    stats.files = changedFiles.length;
+    stats.rescanned = rescanned;
+    stats.diff = scope ? { label: scope.label, base: scope.base, files: changedFiles.length, changed: scope.changed.size } : null;
+
+    // ─── 1. Secret Scanner ───
+    const envPatterns = config.secretScanner?.envFiles || DEFAULT_ENV_FILES;
+    const sensitivePatterns = config.secretScanner?.sensitivePatterns || [];
+    const allEnvEntries = collectEnvEntries(projectRoot, config);
+    stats.envFiles = envPatterns
+        .map(file => ({ file, keys: allEnvEntries.filter(e => e.file === file).length }))
+        .filter(({ file }) => fs.existsSync(path.join(projectRoot, file)));
+
+    for (const entry of allEnvEntries) {
+        if (!entry.key.startsWith('NEXT_PUBLIC_')) continue;
+        const strippedKey = entry.key.replace(/^NEXT_PUBLIC_/, '');
+        for (const pattern of sensitivePatterns) {
+            const regex = new RegExp(pattern.pattern, 'i');
+            if (regex.test(entry.key) || regex.test(strippedKey)) {
+                const text = ruleText('secret-leak/next-public', { key: entry.key });
+                issues.push({
+                    severity: pattern.severity, category: 'secret-leak', ruleId: 'secret-leak/next-public',
+                    ...text, message: pattern.message || text.message, file: entry.file, line: entry.line, key: entry.key
+                });
+            }
+        }
+    }
+
+    // Değer tabanlı tespit: sağlayıcı imzaları, JWT rolü, entropi
+    const valueIssues = [...scanEnvValues(allEnvEntries), ...fileIssues.filter(i => i.ruleId.startsWith('secret-value/'))];
+    stats.valueIssues = valueIssues.length;
+    issues.push(...valueIssues);
+
+    // ─── 2. RLS Scanner ───
+    let recipes = new Map();
+    stats.rls = null;
+    if (config.rlsScanner?.enabled) {
+        const whitelisted = config.rlsScanner.whitelistedTables || [];
+        // Veritabanı / migration durumu sadece bağlantı değiştiğinde veya oturum sıfırlandığında yeniden okunur
+        const rlsKey = `${resolveDatabaseUrl(allEnvEntries) || ''}|${Boolean(options.offline)}`;
+        const cached = Boolean(session.rls) && session.rlsKey === rlsKey;
+        if (!cached) {
+            session.rls = await collectRLSState(projectRoot, allEnvEntries, whitelisted, { offline: options.offline, exposedSchemas: config.rlsScanner.exposedSchemas });
+            session.rlsKey = rlsKey;
+        }
+        const { issues: rlsIssues, filteredTables, relations, schemas, mode, fallback } = session.rls;
+        recipes = buildRecipes(rlsIssues, schemas, whitelisted);
+
+        // Kod kullanımlarıyla birleştir ve sorunları ana listeye ekle
+        const dbAvailable = !rlsIssues.some(i => i.ruleId === 'rls-check/db-connection' || i.ruleId === 'rls-check/no-database-url') || mode === 'offline';
+        const rpcCalls = findSupabaseRpcCalls(changedFiles, projectRoot, clientFiles);
+        issues.push(...crossReferenceRpc(crossReferenceTables(rlsIssues, filteredTables, codeTables, { whitelisted, dbAvailable, relations }), rpcCalls));
+        stats.rls = {
+            mode, cached, fallback,
+            tables: filteredTables.size,
+            codeTables: codeTables.size,
+            surface: rlsIssues.filter(i => i.category === 'db-surface').length,
+        };
+    }
+
+    // ─── 3-4. Kural Motoru (SQL Injection + API Key Guardian + özel kurallar) ───
+    const ruleIds = new Set(rules.map(r => r.id));
+    const ruleIssues = [
+        ...runRules(rules, { files: [], projectRoot, envEntries: allEnvEntries }),
+        ...fileIssues.filter(i => ruleIds.has(i.ruleId)),
+    ];
+    stats.ruleCounts = {};
+    for (const category of new Set(rules.map(r => r.category))) {
+        stats.ruleCounts[category as string] = ruleIssues.filter(i => i.category === category).length;
+    }
+    issues.push(...ruleIssues);
+
+    // ─── İstemci / Sunucu Sınırı ───
+    const boundaryIssues = scanClientBoundary(graph, projectRoot);
+    stats.boundary = boundaryIssues.length;
+    issues.push(...boundaryIssues);
+
+    // ─── Auth Guard Denetçisi ───
+    let routes = [];
+    stats.authGuard = null;
+    const authConfig = config.authGuard || {};
+    if (authConfig.enabled !== false) {
+        const auth = scanAuthGuards(allFiles, projectRoot, { guards: authConfig.guards, publicRoutes: authConfig.publicRoutes });
+        routes = auth.routes;
+        stats.authGuard = { routes: routes.length, issues: auth.issues.length, middleware: auth.middleware };
+        issues.push(...auth.issues);
+    }
+
+    // ─── Next.js Config & Güvenlik Başlıkları ───
+    stats.nextConfig = null;
+    const nextConfig = config.nextConfig || {};
+    if (nextConfig.enabled !== false) {
+        const audit = scanNextConfig(allFiles, projectRoot, { externalHeaders: nextConfig.externalHeaders, sensitivePatterns });
+        if (audit) {
+            stats.nextConfig = { file: audit.file, headers: audit.headers.length, issues: audit.issues.length };
+            issues.push(...audit.issues);
+        }
+    }
+
+    // ─── Supabase Edge Functions ───
+    // Deno fonksiyonları scanDirs dışında kalır; kendi dizinleri ayrıca taranır
+    let edgeFunctions = [];
+    stats.edgeFunctions = null;
+    const edgeConfig = config.edgeFunctions || {};
+    const functionsDir = path.join(projectRoot, edgeConfig.dir || FUNCTIONS_DIR);
+    if (edgeConfig.enabled !== false && fs.existsSync(functionsDir)) {
+        const functionFiles = walkDir(functionsDir, ['.ts', '.tsx', '.js', '.mjs'], DEFAULT_EXCLUDE_DIRS)
+            .filter(f => !scope?.overlay || scope.overlay.get(f) !== null);
+        const edge = scanEdgeFunctions(functionFiles, projectRoot, { dir: edgeConfig.dir, guards: edgeConfig.guards });
+        edgeFunctions = edge.functions;
+        stats.edgeFunctions = { functions: edge.functions.length, noVerify: edge.functions.filter(f => !f.verifyJwt).length, issues: edge.issues.length };
+        issues.push(...edge.issues);
+    }
+
+    // ─── 5. Build Artifact Scanner (opsiyonel) ───
+    stats.build = null;
+    if (options.build) {
+        const { issues: buildIssues, filesScanned } = scanBuildArtifacts(projectRoot, allEnvEntries);
+        stats.build = { filesScanned, leaks: buildIssues.filter(i => i.severity === 'critical').length };
+        issues.push(...buildIssues);
+    }
+
+    // ─── 6. Git Hygiene ───
+    // Diff modunda geçmiş taranmaz: sadece çalışma ağacı / index hijyeni
+    const gitConfig = config.gitScanner || {};
+    if (!session.git) {
+        session.git = scanGitHygiene(projectRoot, {
+            envPatterns,
+            since: options.since,
+            history: scope ? false : gitConfig.history,
+            maxCommits: gitConfig.maxCommits,
+        });
+    }
+    const { issues: gitIssues, repo, historyScanned } = session.git;
+    stats.git = { repo, historyScanned, issues: gitIssues.length };
+    issues.push(...gitIssues);
+
+    // ─── Diff Scope, Suppressions & Baseline ───
+    // Tekrar numaraları tüm dosya üzerinden verilir; diff kapsamı sadece raporlananları daraltır
+    const fingerprinted = assignFingerprints(issues);
+    const scoped = scope ? fingerprinted.filter(issue => inDiffScope(issue, scope)) : fingerprinted;
+    const { kept, suppressed } = applySuppressions(scoped, projectRoot);
+    const unique = dedupeIssues(kept);
+    stats.duplicates = kept.length - unique.length;
+
+    const baseline = options.baseline === false ? null : loadBaseline(projectRoot);
+    const { fresh, known } = filterBaseline(unique, baseline);
+
+    return { issues: fresh, suppressed, known, routes, edgeFunctions, tables: codeTables, recipes, files: allFiles, clientFiles, stats };
+}
+
+module.exports = {
+    parseEnvFile,
+    collectEnvEntries,
+    walkDir,
+    collectSourceFiles,
+    resolveDatabaseUrl,
+    collectRLSState,
+    scan,
+};
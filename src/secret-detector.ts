@@ -0,0 +1,189 @@
+const path = require('path');
+const fs = require('fs');
+const crypto = require('crypto');
+const ts = require('typescript');
+const { readSource } = require('./source-reader');
+const { t, ruleText } = require('./i18n');
+
+// ─── Provider Signatures ───
+// Sıra önemli: daha özel kalıplar (sk-ant-) genel olanlardan (sk-) önce gelir
+const SIGNATURES = [
+    { id: 'stripe-live-key', provider: 'Stripe (live secret/restricted key)', regex: /\b(?:sk|rk)_live_[0-9a-zA-Z]{20,}\b/, severity: 'critical' },
+    { id: 'aws-access-key', provider: 'AWS Access Key ID', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/, severity: 'critical' },
+    { id: 'anthropic-key', provider: 'Anthropic API key', regex: /\bsk-ant-[A-Za-z0-9_-]{20,}/, severity: 'critical' },
+    { id: 'openai-key', provider: 'OpenAI API key', regex: /\bsk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}/, severity: 'critical' },
+    { id: 'github-token', provider: 'GitHub token', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/, severity: 'critical' },
+    { id: 'slack-token', provider: 'Slack token', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}/, severity: 'critical' },
+    { id: 'private-key', provider: 'PEM private key', regex: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----/, severity: 'critical' },
+    { id: 'google-api-key', provider: 'Google API key', regex: /\bAIza[0-9A-Za-z_-]{35}\b/, severity: 'warning' },
+];
+
+const JWT = /^eyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/;
+const SECRET_NAME = /key|secret|token|passw|pwd|credential|auth/i;
+const MIN_ENTROPY_LENGTH = 20;
+
+// ─── Helpers ───
+function maskSecret(value) {
+    const v = String(value);
+    if (v.length <= 8) return '*'.repeat(v.length);
+    return t('secrets.masked', { start: v.substring(0, 4), end: v.substring(v.length - 2), length: v.length });
+}
+
+// maskSecret çevrilmiş metin döndürür; fingerprint (stableContext) için değerin dilden bağımsız kısa özeti
+function secretDigest(value) {
+    return `sha256:${crypto.createHash('sha256').update(String(value)).digest('hex').substring(0, 12)}`;
+}
+
+function shannonEntropy(value) {
+    const counts = new Map();
+    for (const ch of value) counts.set(ch, (counts.get(ch) || 0) + 1);
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const p = count / value.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy;
+}
+
+// Hex için ~3.0, base64 benzeri karakter setleri için ~4.0 bit/karakter eşik
+function isHighEntropy(value) {
+    if (value.length < MIN_ENTROPY_LENGTH || /\s/.test(value)) return false;
+    if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) return false;
+    if (/^(https?:|\/|\.\/|[\w-]+\.(?:com|io|dev|app|co)\b)/i.test(value)) return false;
+    if (/^[0-9a-f]+$/i.test(value)) return value.length >= 32 && shannonEntropy(value) > 3.0;
+    if (!/^[A-Za-z0-9+/=_\-.]+$/.test(value)) return false;
+    return /[0-9]/.test(value) && /[A-Za-z]/.test(value) && shannonEntropy(value) > 4.0;
+}
+
+function decodeJwtPayload(value) {
+    if (!JWT.test(value)) return null;
+    try {
+        const payload = value.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+        return JSON.parse(Buffer.from(payload, 'base64').toString('utf-8'));
+    } catch {
+        return null;
+    }
+}
+
+function matchSignature(value) {
+    return SIGNATURES.find(sig => sig.regex.test(value)) || null;
+}
+
+// ─── Value Classifier ───
+/**
+ * Tek bir değeri sınıflandırır.
+ * Dönüş: { ruleId, severity, label } | null
+ */
+function classifyValue(value) {
+    if (!value) return null;
+
+    const jwt = decodeJwtPayload(value);
+    if (jwt) {
+        if (jwt.role === 'service_role') {
+            return { ruleId: 'secret-value/service-role-jwt', severity: 'critical', label: jwt.ref ? t('secrets.serviceRoleJwtProject', { ref: jwt.ref }) : t('secrets.serviceRoleJwt') };
+        }
+        // anon / authenticated JWT'leri istemcide kullanılmak üzere tasarlanmıştır
+        return null;
+    }
+
+    const sig = matchSignature(value);
+    if (sig) return { ruleId: `secret-value/${sig.id}`, severity: sig.severity, label: sig.provider };
+
+    if (isHighEntropy(value)) return { ruleId: 'secret-value/high-entropy', severity: 'warning', label: t('secrets.highEntropy') };
+    return null;
+}
+
+// ─── Env Values ───
+// Sunucu tarafı .env değerleri gizli tutulabilir; sadece NEXT_PUBLIC_ değerleri istemciye gider
+function scanEnvValues(envEntries) {
+    const issues = [];
+    for (const entry of envEntries) {
+        if (!entry.key.startsWith('NEXT_PUBLIC_')) continue;
+        const hit = classifyValue(entry.value);
+        if (!hit) continue;
+        // Bilinmeyen yüksek entropili public değerler (analytics anahtarları vb.) çoğunlukla kasıtlıdır
+        const severity = hit.ruleId === 'secret-value/high-entropy' ? 'info' : hit.severity;
+        issues.push({
+            severity, category: 'secret-leak', ruleId: hit.ruleId,
+            ...ruleText(hit.ruleId, { label: hit.label, key: entry.key, origin: 'env' }),
+            file: entry.file, line: entry.line, key: entry.key,
+            context: `${entry.key}=${maskSecret(entry.value)}`,
+            stableContext: `${entry.key}=${secretDigest(entry.value)}`,
+        });
+    }
+    return issues;
+}
+
+// ─── Source Literals ───
+function literalName(node) {
+    const parent = node.parent;
+    if (!parent) return '';
+    if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) return parent.name.text;
+    if (ts.isPropertyAssignment(parent)) return parent.name.getText();
+    if (ts.isBinaryExpression(parent)) return parent.left.getText();
+    if (ts.isJsxAttribute(parent)) return parent.name.getText();
+    if (ts.isCallExpression(parent) && ts.isPropertyAccessExpression(parent.expression)) return parent.expression.name.text;
+    return '';
+}
+
+function scriptKindFor(fileName) {
+    if (fileName.endsWith('.tsx')) return ts.ScriptKind.TSX;
+    if (fileName.endsWith('.jsx')) return ts.ScriptKind.JSX;
+    if (/\.[mc]?js$/.test(fileName)) return ts.ScriptKind.JS;
+    return ts.ScriptKind.TS;
+}
+
+function scanSourceLiterals(files, projectRoot) {
+    const issues = [];
+    for (const filePath of files) {
+        try {
+            const content = readSource(filePath);
+            const rel = path.relative(projectRoot, filePath);
+            if (rel.includes('security-watchdog')) continue;
+
+            const sf = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKindFor(filePath));
+            const lines = content.split(/\r?\n/);
+
+            const visit = (node) => {
+                if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+                    const value = node.text;
+                    const hit = classifyValue(value);
+                    const name = literalName(node);
+                    // Kaynak kodda entropi tek başına yeterli değil; değişken/özellik adı da gizli bir değere işaret etmeli
+                    if (hit && !(hit.ruleId === 'secret-value/high-entropy' && !SECRET_NAME.test(name))) {
+                        const line = sf.getLineAndCharacterOfPosition(node.getStart(sf)).line + 1;
+                        // Ham literal satırda yoksa (çok satırlı / escape içeren) satırı hiç göstermeyiz
+                        const raw = node.getText(sf);
+                        const sourceLine = lines[line - 1] || '';
+                        const context = sourceLine.includes(raw)
+                            ? sourceLine.split(raw).join(`'${maskSecret(value)}'`).trim()
+                            : `${name || t('secrets.value')} = '${maskSecret(value)}'`;
+                        const stableContext = sourceLine.includes(raw)
+                            ? sourceLine.split(raw).join(`'${secretDigest(value)}'`).trim()
+                            : `${name} = '${secretDigest(value)}'`;
+                        issues.push({
+                            severity: hit.severity, category: 'secret-leak', ruleId: hit.ruleId,
+                            ...ruleText(hit.ruleId, { label: hit.label, name, origin: 'source' }),
+                            file: rel, line,
+                            context, stableContext,
+                        });
+                    }
+                }
+                ts.forEachChild(node, visit);
+            };
+            visit(sf);
+        } catch { }
+    }
+    return issues;
+}
+
+module.exports = {
+    SIGNATURES,
+    maskSecret,
+    secretDigest,
+    shannonEntropy,
+    classifyValue,
+    decodeJwtPayload,
+    scanEnvValues,
+    scanSourceLiterals,
+};
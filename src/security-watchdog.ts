@@ -4,11 +4,46 @@
 // ============================================================
 // npm run security        → Tek seferlik tarama
 // npm run security:watch  → Sürekli izleme
+// vibe-sec --format json|sarif|junit --output <dosya> --fail-on critical|warning
+// vibe-sec baseline        → Mevcut bulguları .vibe-sec-baseline.json'a yazar
+// vibe-sec rls:migrate     → RLS reçetelerini supabase/migrations/ altına yazar
+// vibe-sec fix [--apply]  → Otomatik düzeltilebilir bulgular için diff gösterir, --apply ile yazar
+// vibe-sec rls:test [--db <url>] [--table <ad>] → Yerel veritabanında rolleri taklit ederek RLS izolasyonunu test eder
+// vibe-sec --offline       → RLS'i veritabanı yerine supabase/migrations/*.sql'den denetler
+// vibe-sec scan --build    → .next/static bundle'larında ve source map'lerde sızan sırları arar
+// vibe-sec --since <ref|tarih> → Ref'ten bu yana değişen satırları tarar (tarih: git geçmişi taramasını sınırlar)
+// vibe-sec scan --staged   → Sadece stage edilmiş değişiklikleri git index'indeki hâliyle tarar
+// vibe-sec hook install [--force] → Yeni kritik bulgu getiren commit'leri engelleyen pre-commit hook'u kurar (husky destekli)
+// vibe-sec rules list      → Aktif kuralları (yerleşik, config, plugin) listeler
+// vibe-sec report --html [--output <dosya>] → Bulgular, trend grafiği ve çalıştırmalar arası farklarla çevrimdışı HTML panosu
+// vibe-sec --lang tr|en    → Çıktı dili (config: locale); mesajlar locales/ kataloglarından gelir
+// vibe-sec --watch [--db-poll <saniye>] → Artımlı izleme modu
+// İstemci/sunucu sınırı: "use client" import grafı üzerinden (tsconfig paths dahil) hesaplanır
+// Geçmiş: her tam tarama .vibe-sec/history.jsonl'e özet satırı ekler (config: history)
+// Next.js config: next.config headers() / middleware.ts / vercel.json güvenlik başlıkları ve riskli ayarlar (nextConfig config)
+// Edge Functions: supabase/functions/* ve config.toml verify_jwt ayarları (edgeFunctions config)
+// Route envanteri: route handler / Server Action / pages/api kimlik doğrulama durumu (authGuard config)
+// Config: vibe-security.config.{js,cjs,mjs,ts} veya package.json#vibeSec — şemaya göre doğrulanır
+// Programatik API: require('vibe-security') → scan(), defineConfig() ve tek tek tarayıcılar (bkz. index.ts)
 // ============================================================
 
 const path = require('path');
 const fs = require('fs');
-const { scanRLS: performRLSScan } = require('./rls-scanner');
+const { FORMATS, formatReport, exceedsThreshold } = require('./reporters');
+const { buildRecipes, writeMigration } = require('./rls-recipes');
+const { formatUsage } = require('./table-usage');
+const { loadRules, describeRule } = require('./rule-engine');
+const { createScanSession, diffIssues } = require('./scan-cache');
+const { startOverlayServer } = require('./overlay-server');
+const { AUTH_STUB_SQL, isLocalDatabase, runRLSBehaviorTests } = require('./rls-tester');
+const { planFixes, applyFixes, formatDiff } = require('./fixer');
+const { CONFIG_FILES, loadConfig } = require('./config');
+const { scan, collectEnvEntries, resolveDatabaseUrl, collectRLSState } = require('./scanner');
+const { BASELINE_FILE, writeBaseline } = require('./suppressions');
+const { HOOK_COMMAND, installHook } = require('./git-hook');
+const { t, setLocale, getLocale, formatTime, formatDateTime } = require('./i18n');
+const { HISTORY_FILE, createHistoryRecord, appendHistory, readHistory } = require('./scan-history');
+const { renderHtmlReport } = require('./html-report');
 
 // ─── ANSI Colors ───
 const C = {
@@ -21,183 +56,30 @@ const C = {
 const LINE = `${C.dim}${'─'.repeat(70)}${C.reset}`;
 const DLINE = `${C.dim}${'═'.repeat(70)}${C.reset}`;
 
-// ─── .env Parser ───
-function parseEnvFile(filePath) {
-    const entries = [];
-    try {
-        const content = fs.readFileSync(filePath, 'utf-8');
-        content.split(/\r?\n/).forEach((rawLine, index) => {
-            const trimmed = rawLine.trim();
-            if (!trimmed || trimmed.startsWith('#')) return;
-            const cleaned = trimmed.replace(/^export\s+/, '');
-            const eqIndex = cleaned.indexOf('=');
-            if (eqIndex === -1) return;
-            const key = cleaned.substring(0, eqIndex).trim();
-            const value = cleaned.substring(eqIndex + 1).trim().replace(/^["']|["']$/g, '');
-            entries.push({ key, value, line: index + 1 });
-        });
-    } catch { }
-    return entries;
-}
-
-// ─── File Walker ───
-function walkDir(currentDir, extensions, excludeDirs) {
-    const results = [];
-    try {
-        const entries = fs.readdirSync(currentDir, { withFileTypes: true });
-        for (const entry of entries) {
-            const fullPath = path.join(currentDir, entry.name);
-            if (entry.isDirectory()) {
-                if (!excludeDirs.includes(entry.name)) walkDir(fullPath, extensions, excludeDirs).forEach(r => results.push(r));
-            } else if (entry.isFile() && extensions.some(ext => entry.name.endsWith(ext))) {
-                results.push(fullPath);
-            }
-        }
-    } catch { }
-    return results;
-}
-
-// ─── Supabase From Finder ───
-function findSupabaseFromCalls(files, projectRoot) {
-    const tables = new Map();
-    const regex = /\.from\(\s*['"`]([a-zA-Z_][a-zA-Z0-9_]*)['"`]\s*\)/g;
-    for (const filePath of files) {
-        try {
-            const content = fs.readFileSync(filePath, 'utf-8');
-            content.split(/\r?\n/).forEach((line, idx) => {
-                let match;
-                const lr = new RegExp(regex.source, 'g');
-                while ((match = lr.exec(line)) !== null) {
-                    const table = match[1];
-                    if (!tables.has(table)) tables.set(table, []);
-                    tables.get(table).push({ file: path.relative(projectRoot, filePath), line: idx + 1, context: line.trim() });
-                }
-            });
-        } catch { }
-    }
-    return tables;
-}
-
-// ─── SQL Injection Scanner ───
-function scanSQLInjection(files, projectRoot) {
-    const issues = [];
-    const patterns = [
-        { regex: /\.rpc\(\s*['"`]\w+['"`]\s*,\s*\{[^}]*`[^`]*\$\{[^}]+\}[^`]*`[^}]*\}/g, id: 'rpc-template', title: 'supabase.rpc() içinde template literal' },
-        { regex: /\.rpc\(\s*['"`]\w+['"`]\s*,\s*\{[^}]*:\s*[a-zA-Z_$]\w*\s*\+\s*['"`]/g, id: 'rpc-concat', title: 'supabase.rpc() içinde string birleştirme' },
-        { regex: /`\s*(?:SELECT|INSERT|UPDATE|DELETE|ALTER|DROP|CREATE|TRUNCATE)\b[^`]*\$\{[^}]+\}[^`]*`/gi, id: 'raw-sql-tpl', title: 'Ham SQL\'de template literal' },
-        { regex: /['"`]\s*(?:SELECT|INSERT|UPDATE|DELETE|ALTER|DROP|CREATE)\b[^'"`]*['"`]\s*\+\s*[a-zA-Z_$]\w*/gi, id: 'raw-sql-concat', title: 'Ham SQL\'de string birleştirme' },
-        { regex: /\.(?:filter|or|and)\(\s*`[^`]*\$\{[^}]+\}[^`]*`\s*\)/g, id: 'filter-tpl', title: '.filter()/.or() içinde template literal' },
-    ];
-
-    for (const filePath of files) {
-        try {
-            const content = fs.readFileSync(filePath, 'utf-8');
-            const rel = path.relative(projectRoot, filePath);
-            // Skip scanner's own files
-            if (rel.includes('security-watchdog')) continue;
-
-            content.split(/\r?\n/).forEach((line, idx) => {
-                for (const p of patterns) {
-                    const r = new RegExp(p.regex.source, p.regex.flags);
-                    if (r.test(line)) {
-                        issues.push({
-                            severity: 'critical', category: 'sql-injection',
-                            title: `💉 SQL INJECTION RİSKİ: ${p.title}`,
-                            message: `Parametreli sorgu kullanın. String interpolation/concatenation ile SQL oluşturmayın.`,
-                            file: rel, line: idx + 1, context: line.trim(),
-                        });
-                    }
-                }
-            });
-        } catch { }
-    }
-    return issues;
+// Yapılandırılmış rapor stdout'a yazılıyorsa terminal çıktısı stderr'e yönlendirilir
+let logToStderr = false;
+// İzleme modundaki artımlı taramalarda modül ilerleme satırları gizlenir
+let logQuiet = false;
+function log(...args) {
+    if (logQuiet) return;
+    if (logToStderr) console.error(...args);
+    else console.log(...args);
 }
 
-// ─── API Key Guardian ───
-function scanAPIKeys(files, projectRoot, envEntries) {
-    const issues = [];
-    const rules = [
-        { id: 'serper', service: 'Serper.dev', envKeys: ['SERPER', 'SERP_API'], codePatterns: [/serper\.dev/gi, /SERPER_API_KEY/g, /SERP_API_KEY/g] },
-        { id: 'openai', service: 'OpenAI', envKeys: ['OPENAI_API_KEY', 'OPENAI_SECRET'], codePatterns: [/OPENAI_API_KEY/g, /openai\.com\/v1/gi, /new\s+OpenAI\s*\(/g] },
-        { id: 'anthropic', service: 'Anthropic', envKeys: ['ANTHROPIC_API_KEY', 'CLAUDE_API_KEY'], codePatterns: [/ANTHROPIC_API_KEY/g, /anthropic\.com/gi] },
-        { id: 'google-ai', service: 'Google AI', envKeys: ['GOOGLE_API_KEY', 'GEMINI_API_KEY'], codePatterns: [/GOOGLE_API_KEY/g, /GEMINI_API_KEY/g, /generativelanguage\.googleapis\.com/gi] },
-    ];
-
-    // .env kontrolü
-    for (const entry of envEntries) {
-        if (!entry.key.startsWith('NEXT_PUBLIC_')) continue;
-        for (const rule of rules) {
-            for (const keyPattern of rule.envKeys) {
-                if (new RegExp(keyPattern, 'i').test(entry.key)) {
-                    issues.push({
-                        severity: 'critical', category: 'api-key',
-                        title: `🔑 ${rule.service} API anahtarı NEXT_PUBLIC_ ile ifşa ediliyor!`,
-                        message: `NEXT_PUBLIC_ önekini kaldırın ve API Route üzerinden proksileyin.`,
-                        file: entry.file, line: entry.line, key: entry.key,
-                    });
-                }
-            }
-        }
-    }
-
-    // Kod kontrolü — "use client" dosyaları
-    for (const filePath of files) {
-        try {
-            const content = fs.readFileSync(filePath, 'utf-8');
-            const rel = path.relative(projectRoot, filePath).replace(/\\/g, '/');
-            if (rel.includes('security-watchdog')) continue;
-
-            const isClient = /^['"`]use client['"`]/m.test(content) ||
-                (rel.startsWith('src/components/') || (rel.startsWith('src/app/') && !rel.includes('/api/')));
-
-            if (!isClient) continue;
-
-            for (const rule of rules) {
-                for (const cp of rule.codePatterns) {
-                    const lines = content.split(/\r?\n/);
-                    lines.forEach((line, idx) => {
-                        if (new RegExp(cp.source, cp.flags).test(line)) {
-                            issues.push({
-                                severity: 'warning', category: 'api-key',
-                                title: `🔑 ${rule.service} istemci tarafı kodda referans ediliyor!`,
-                                message: `API çağrısını sunucu tarafına (API Route) taşıyın.`,
-                                file: rel, line: idx + 1,
-                            });
-                        }
-                    });
-                }
-            }
-        } catch { }
-    }
-
-    return issues;
-}
-
-// ─── RLS SQL Recipe Generator ───
-function generateRLSRecipe(tableName) {
-    return [
-        `-- 🛡️ RLS: "${tableName}"`,
-        `ALTER TABLE public.${tableName} ENABLE ROW LEVEL SECURITY;`,
-        ``,
-        `CREATE POLICY "${tableName}_select_own" ON public.${tableName}`,
-        `  FOR SELECT USING (auth.uid() = user_id);`,
-        ``,
-        `CREATE POLICY "${tableName}_insert_own" ON public.${tableName}`,
-        `  FOR INSERT WITH CHECK (auth.uid() = user_id);`,
-        ``,
-        `CREATE POLICY "${tableName}_update_own" ON public.${tableName}`,
-        `  FOR UPDATE USING (auth.uid() = user_id)`,
-        `  WITH CHECK (auth.uid() = user_id);`,
-        ``,
-        `CREATE POLICY "${tableName}_delete_own" ON public.${tableName}`,
-        `  FOR DELETE USING (auth.uid() = user_id);`,
-    ].join('\n');
+// ─── CLI Args ───
+// --format json veya --format=json
+function getArgValue(name) {
+    const argv = process.argv.slice(2);
+    const idx = argv.indexOf(name);
+    if (idx !== -1 && argv[idx + 1] && !argv[idx + 1].startsWith('--')) return argv[idx + 1];
+    const inline = argv.find(a => a.startsWith(`${name}=`));
+    return inline ? inline.substring(name.length + 1) : undefined;
 }
 
 // ─── Vibe Summary Generator ───
-function generateVibeSummary(config, issues, tables) {
-    const now = new Date().toLocaleString('tr-TR');
+// Başlıklar ve kural metinleri aktif dilin summary.* kataloğundan gelir (bkz. locales/tr.ts)
+function generateVibeSummary(config, issues, tables, recipes = new Map(), routes = [], edgeFunctions = []) {
+    const now = formatDateTime();
     const criticalCount = issues.filter(i => i.severity === 'critical').length;
     const warningCount = issues.filter(i => i.severity === 'warning').length;
     const infoCount = issues.filter(i => i.severity === 'info').length;
@@ -206,65 +88,89 @@ function generateVibeSummary(config, issues, tables) {
 
     const lines = [];
     lines.push(`# 🛡️ VIBE SECURITY SUMMARY`);
-    lines.push(`# Otomatik üretildi: ${now}`);
-    lines.push(`# Bu dosyayı AI araçlarına (Cursor, Copilot, vb.) context olarak verin.`);
+    lines.push(`# ${t('summary.generated', { date: now })}`);
+    lines.push(`# ${t('summary.hint')}`);
     lines.push(``);
 
     // Durum
-    lines.push(`## 📊 PROJE GÜVENLİK DURUMU`);
+    lines.push(`## 📊 ${t('summary.statusHeading')}`);
     if (criticalCount === 0 && warningCount === 0) {
-        lines.push(`✅ DURUM: TEMİZ — Bilinen güvenlik sorunu yok.`);
+        lines.push(`✅ ${t('summary.statusClean')}`);
     } else if (criticalCount > 0) {
-        lines.push(`🚨 DURUM: KRİTİK — ${criticalCount} kritik, ${warningCount} uyarı, ${infoCount} bilgi`);
+        lines.push(`🚨 ${t('summary.statusCritical', { critical: criticalCount, warning: warningCount, info: infoCount })}`);
     } else {
-        lines.push(`⚠️ DURUM: UYARI — ${warningCount} uyarı, ${infoCount} bilgi`);
+        lines.push(`⚠️ ${t('summary.statusWarning', { warning: warningCount, info: infoCount })}`);
     }
     lines.push(``);
 
     // Kurallar
-    lines.push(`## 📜 ZORUNLU GÜVENLİK KURALLARI`);
+    lines.push(`## 📜 ${t('summary.rulesHeading')}`);
     lines.push(``);
 
-    lines.push(`### 1. ÇEVRE DEĞİŞKENLERİ`);
-    lines.push(`- NEXT_PUBLIC_ öneki SADECE istemci tarafında güvenli değerler için kullanılır.`);
-    lines.push(`- SUPABASE_SERVICE_ROLE_KEY, DATABASE_URL, *_SECRET, *_PRIVATE_KEY → ASLA NEXT_PUBLIC_ ile kullanılmaz.`);
+    lines.push(`### 1. ${t('summary.envHeading')}`);
+    lines.push(t('summary.envRules'));
     if (exposedKeys.length > 0) {
-        lines.push(`- ⚠️ İFŞA EDİLEN: ${exposedKeys.join(', ')}`);
+        lines.push(`- ⚠️ ${t('summary.exposed', { keys: exposedKeys.join(', ') })}`);
     }
     lines.push(``);
 
     lines.push(`### 2. SUPABASE RLS`);
-    lines.push(`- Bu projede RLS ZORUNLUDUR.`);
-    lines.push(`- Her tabloda auth.uid() bazlı politikalar olmalıdır.`);
+    lines.push(t('summary.rlsRules'));
     if (tableNames.length > 0) {
-        lines.push(`- Kullanılan tablolar: ${tableNames.join(', ')}`);
+        lines.push(`- ${t('summary.tables')}`);
+        for (const [table, usages] of tables) {
+            const shown = [...usages].sort((a, b) => Number(b.client) - Number(a.client)).slice(0, 5).map(formatUsage);
+            lines.push(`  - ${table} → ${shown.join(', ')}${usages.length > 5 ? ` (+${usages.length - 5})` : ''}`);
+        }
     }
     lines.push(``);
 
     lines.push(`### 3. SQL INJECTION`);
-    lines.push(`- Template literal (\${}) ile SQL OLUŞTURULMAZ.`);
-    lines.push(`- String concatenation (+) ile SQL OLUŞTURULMAZ.`);
-    lines.push(`- Parametreli sorgular ZORUNLUDUR.`);
+    lines.push(t('summary.sqlRules'));
+    lines.push(``);
+
+    lines.push(`### 4. ${t('summary.apiHeading')}`);
+    lines.push(t('summary.apiRules'));
+    lines.push(``);
+
+    lines.push(`### 5. ${t('summary.authHeading')}`);
+    lines.push(t('summary.authRules'));
+    if (routes.length > 0) {
+        const icons = { guarded: '✅', middleware: '🛡️', public: '🌐', 'no-data': '⚪', unguarded: '🔓' };
+        lines.push(`- ${t('summary.routes')}`);
+        for (const route of routes) {
+            lines.push(`  - ${icons[route.status] || '•'} ${route.method === '*' ? '' : route.method + ' '}${route.route} → ${route.status}${route.guard ? ` (${route.guard})` : ''} — ${route.file}:${route.line}`);
+        }
+    }
+    lines.push(``);
+
+    lines.push(`### 6. ${t('summary.headersHeading')}`);
+    lines.push(t('summary.headersRules'));
     lines.push(``);
 
-    lines.push(`### 4. API ANAHTARI GÜVENLİĞİ`);
-    lines.push(`- Serper.dev, OpenAI, Anthropic, Google AI → SADECE sunucu tarafında.`);
-    lines.push(`- İstemci tarafından erişim: API Route (/api/*) proxy ile.`);
-    lines.push(`- "use client" dosyalarında bu servislere doğrudan erişim YASAKTIR.`);
+    lines.push(`### 7. ${t('summary.xssHeading')}`);
+    lines.push(t('summary.xssRules'));
     lines.push(``);
 
+    if (edgeFunctions.length > 0) {
+        lines.push(`### 8. SUPABASE EDGE FUNCTIONS`);
+        lines.push(t('summary.edgeRules'));
+        lines.push(`- ${t('summary.edgeFunctions')}`);
+        for (const fn of edgeFunctions) {
+            const status = fn.verifyJwt ? 'verify_jwt' : fn.guard ? `verify_jwt = false (${fn.guard})` : 'verify_jwt = false';
+            lines.push(`  - ${fn.verifyJwt || fn.guard ? '✅' : '🔓'} ${fn.name} → ${status}${fn.serviceRole ? ' · service_role' : ''} — ${fn.file}`);
+        }
+        lines.push(``);
+    }
+
     // Mimari
-    lines.push(`## 🏗️ MİMARİ`);
-    lines.push(`- Next.js App Router`);
-    lines.push(`- Hassas işlemler → Server Components, API Routes, Server Actions`);
-    lines.push(`- İstemci → Sadece UI rendering`);
-    lines.push(`- Veritabanı → RLS korumalı Supabase client`);
-    lines.push(`- Harici API → /api/* proxy`);
+    lines.push(`## 🏗️ ${t('summary.architectureHeading')}`);
+    lines.push(t('summary.architecture'));
     lines.push(``);
 
     // Aktif sorunlar
     if (issues.length > 0) {
-        lines.push(`## 🚨 AKTİF SORUNLAR`);
+        lines.push(`## 🚨 ${t('summary.issuesHeading')}`);
         const sorted = [...issues].sort((a, b) => {
             const order = { critical: 0, warning: 1, info: 2 };
             return (order[a.severity] ?? 2) - (order[b.severity] ?? 2);
@@ -276,12 +182,12 @@ function generateVibeSummary(config, issues, tables) {
         lines.push(``);
     }
 
-    // SQL Reçeteleri
-    if (tableNames.length > 0) {
-        lines.push(`## 📝 HAZIR SQL REÇETELERİ`);
+    // SQL Reçeteleri — sadece bulgusu olan tablolar
+    if (recipes.size > 0) {
+        lines.push(`## 📝 ${t('summary.recipesHeading')}`);
         lines.push(`\`\`\`sql`);
-        for (const t of tableNames) {
-            lines.push(generateRLSRecipe(t));
+        for (const recipe of recipes.values()) {
+            lines.push(recipe.sql);
             lines.push(``);
         }
         lines.push(`\`\`\``);
@@ -289,177 +195,133 @@ function generateVibeSummary(config, issues, tables) {
     }
 
     lines.push(`---`);
-    lines.push(`Güncelleme: npm run security | Config: vibe-security.config.js`);
+    lines.push(t('summary.footer'));
 
     return lines.join('\n');
 }
 
-// ─── Load Config ───
-function loadConfig(projectRoot) {
-    const configPath = path.join(projectRoot, 'vibe-security.config.js');
-    if (fs.existsSync(configPath)) {
-        delete require.cache[require.resolve(configPath)];
-        return require(configPath);
+// ─── Locale ───
+// --lang, config'deki locale'den önceliklidir
+function applyLocale(config = null) {
+    try {
+        setLocale(getArgValue('--lang') || config?.locale || getLocale());
+    } catch (err) {
+        console.error(`${C.red}❌ ${err.message}${C.reset}`);
+        process.exit(1);
+    }
+}
+
+// Config okunmadan önce de uygulanır: config hataları seçilen dilde yazdırılır
+applyLocale();
+
+// ─── Config ───
+// Geçersiz config'de hatalar okunabilir liste olarak yazdırılır ve çıkılır
+async function readConfig(projectRoot) {
+    try {
+        const loaded = await loadConfig(projectRoot);
+        if (loaded) applyLocale(loaded.config);
+        return loaded ? loaded.config : null;
+    } catch (err) {
+        console.error(`${C.red}❌ ${err.message}${C.reset}`);
+        process.exit(1);
     }
-    return null;
 }
 
 // ================================================================
 // ─── MAIN SCAN ───
 // ================================================================
-async function runScan() {
+async function runScan(session = createScanSession()) {
     const projectRoot = process.cwd();
-    const config = loadConfig(projectRoot);
+    const format = getArgValue('--format') || 'text';
+    const outputPath = getArgValue('--output');
+    const failOn = getArgValue('--fail-on') || 'critical';
 
-    if (!config) { console.error(`${C.red}❌ vibe-security.config.js bulunamadı!${C.reset}`); process.exit(1); }
-    if (!config.enabled) { console.log(`${C.dim}🛡️  Devre dışı.${C.reset}`); return; }
-
-    console.log('');
-    console.log(DLINE);
-    console.log(`${C.bold}${C.cyan}  🛡️  VIBE SECURITY WATCHDOG v2.0 — GÜVENLİK TARAMASI${C.reset}`);
-    console.log(`${C.dim}  Modüller: Secret Scanner | RLS Denetçisi | SQL Injection | API Key Guardian${C.reset}`);
-    console.log(DLINE);
-    console.log('');
-
-    const issues = [];
-    const scanDirs = config.rlsScanner?.scanDirs || ['src'];
-    const extensions = config.rlsScanner?.extensions || ['.ts', '.tsx', '.js', '.jsx'];
-    const excludeDirs = config.rlsScanner?.excludeDirs || ['node_modules', '.next', 'dist', '.git'];
-
-    // Kaynak dosyaları topla
-    const allFiles = [];
-    for (const dir of scanDirs) {
-        const dirPath = path.join(projectRoot, dir);
-        if (fs.existsSync(dirPath)) allFiles.push(...walkDir(dirPath, extensions, excludeDirs));
+    if (!FORMATS.includes(format)) {
+        console.error(`${C.red}❌ ${t('cli.invalidOption', { option: '--format', value: format, choices: FORMATS.join(' | ') })}${C.reset}`);
+        process.exitCode = 1;
+        return;
     }
-
-    // ─── 1. Secret Scanner ───
-    console.log(`${C.cyan}  🔐 Secret Scanner çalışıyor...${C.reset}`);
-    const envPatterns = config.secretScanner?.envFiles || ['.env', '.env.local'];
-    const sensitivePatterns = config.secretScanner?.sensitivePatterns || [];
-    const allEnvEntries = []; // API Key Guardian'a da geçirilecek
-
-    for (const envPattern of envPatterns) {
-        const envPath = path.join(projectRoot, envPattern);
-        if (!fs.existsSync(envPath)) continue;
-        const entries = parseEnvFile(envPath);
-        entries.forEach(e => { e.file = envPattern; allEnvEntries.push(e); });
-        console.log(`${C.dim}     ├─ ${envPattern}: ${entries.length} anahtar${C.reset}`);
-
-        for (const entry of entries) {
-            if (!entry.key.startsWith('NEXT_PUBLIC_')) continue;
-            const strippedKey = entry.key.replace(/^NEXT_PUBLIC_/, '');
-            for (const pattern of sensitivePatterns) {
-                const regex = new RegExp(pattern.pattern, 'i');
-                if (regex.test(entry.key) || regex.test(strippedKey)) {
-                    issues.push({
-                        severity: pattern.severity, category: 'secret-leak',
-                        title: `🚨 GÜVENLİK RİSKİ: '${entry.key}' istemci tarafına ifşa ediliyor!`,
-                        message: pattern.message, file: envPattern, line: entry.line, key: entry.key
-                    });
-                }
-            }
-        }
+    if (!['critical', 'warning'].includes(failOn)) {
+        console.error(`${C.red}❌ ${t('cli.invalidOption', { option: '--fail-on', value: failOn, choices: 'critical | warning' })}${C.reset}`);
+        process.exitCode = 1;
+        return;
+    }
+    logToStderr = format !== 'text' && !outputPath;
+
+    const config = await readConfig(projectRoot);
+
+    if (!config) { console.error(`${C.red}❌ ${t('cli.configMissing')}${C.reset}`); process.exit(1); }
+    if (!config.enabled) { log(`${C.dim}🛡️  ${t('cli.disabled')}${C.reset}`); return; }
+
+    // İzleme modunda ilk taramadan sonra sadece yeni / çözülen bulgular yazdırılır
+    const incremental = session.previous !== null;
+    logQuiet = incremental;
+
+    log('');
+    log(DLINE);
+    log(`${C.bold}${C.cyan}  🛡️  VIBE SECURITY WATCHDOG v2.0 — ${t('cli.scanTitle')}${C.reset}`);
+    log(`${C.dim}  ${t('cli.modules')}${C.reset}`);
+    log(DLINE);
+    log('');
+
+    const baselineCommand = process.argv.slice(2).includes('baseline');
+    const result = await scan({
+        projectRoot, config, session,
+        offline: process.argv.includes('--offline'),
+        build: process.argv.includes('--build'),
+        since: getArgValue('--since'),
+        staged: process.argv.includes('--staged'),
+        locale: getLocale(),
+        baseline: !baselineCommand && !process.argv.includes('--no-baseline'),
+    });
+    const { recipes, routes, edgeFunctions, tables: codeTables } = result;
+    printScanStats(result);
+
+    if (baselineCommand) {
+        writeBaseline(projectRoot, result.issues);
+        log('');
+        log(`${C.green}${C.bold}  📌 ${t('cli.baselineWritten', { file: BASELINE_FILE, count: result.issues.length })}${C.reset}`);
+        log(`${C.dim}     ${t('cli.baselineHint')}${C.reset}`);
+        return;
     }
 
-    let dbTables = new Map();
-    // ─── 2. RLS Scanner ───
-    if (config.rlsScanner?.enabled) {
-        console.log(`${C.cyan}  🛡️ RLS Denetçisi (DB Modu) çalışıyor...${C.reset}`);
-        const whitelisted = config.rlsScanner.whitelistedTables || [];
-
-        // ENV üzerinden DATABASE_URL bulalım
-        let databaseUrl = process.env.DATABASE_URL;
-        if (!databaseUrl) {
-            const dbEntry = allEnvEntries.find(e =>
-                e.key === 'DATABASE_URL' ||
-                e.key === 'SUPABASE_DB_URL' ||
-                e.key === 'NEXT_PUBLIC_DATABASE_URL' ||
-                e.key === 'NEXT_PUBLIC_SUPABASE_DB_URL'
-            );
-            if (dbEntry) databaseUrl = dbEntry.value;
-        }
-
-        const { issues: rlsIssues, filteredTables } = await performRLSScan(databaseUrl, whitelisted);
-        dbTables = filteredTables;
-
-        console.log(`${C.dim}     ├─ ${filteredTables.size} benzersiz tablo bulundu (Veritabanı)${C.reset}`);
-
-        // Sorunları ana listeye ekle
-        issues.push(...rlsIssues);
+    // Diff modu ve izleme modundaki artımlı taramalar proje genelini yansıtmadığından geçmişe yazılmaz
+    if (!incremental && !result.stats.diff) recordHistory(projectRoot, config, result);
 
-        // ─── SQL Reçeteleri ───
-        if (filteredTables.size > 0) {
-            console.log('');
-            console.log(`${C.cyan}${C.bold}  📝 OTOMATİK SQL REÇETELERİ${C.reset}`);
-            console.log(`${C.dim}  Aşağıdaki SQL'i Supabase SQL Editor'a yapıştırın:${C.reset}`);
-            console.log('');
+    if (result.known.length > 0) log(`${C.dim}  📌 ${t('cli.baselineKnown', { count: result.known.length, file: BASELINE_FILE })}${C.reset}`);
+    const issues = result.issues;
 
-            for (const [tableName] of filteredTables) {
-                if (whitelisted.includes(tableName)) continue;
-                console.log(`${C.yellow}${C.bold}  ── ${tableName} ──${C.reset}`);
-                console.log(`${C.green}  ALTER TABLE public.${tableName} ENABLE ROW LEVEL SECURITY;${C.reset}`);
-                console.log(`${C.dim}  CREATE POLICY "${tableName}_select_own" ON public.${tableName}${C.reset}`);
-                console.log(`${C.dim}    FOR SELECT USING (auth.uid() = user_id);${C.reset}`);
-                console.log(`${C.dim}  CREATE POLICY "${tableName}_insert_own" ON public.${tableName}${C.reset}`);
-                console.log(`${C.dim}    FOR INSERT WITH CHECK (auth.uid() = user_id);${C.reset}`);
-                console.log(`${C.dim}  CREATE POLICY "${tableName}_update_own" ON public.${tableName}${C.reset}`);
-                console.log(`${C.dim}    FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);${C.reset}`);
-                console.log(`${C.dim}  CREATE POLICY "${tableName}_delete_own" ON public.${tableName}${C.reset}`);
-                console.log(`${C.dim}    FOR DELETE USING (auth.uid() = user_id);${C.reset}`);
-                console.log('');
-            }
-            console.log(`${C.dim}  ⚠️  "user_id" sütununu tablolarınıza göre düzenleyin.${C.reset}`);
-        }
-    }
-
-    // ─── 3. SQL Injection Scanner ───
-    console.log(`${C.cyan}  💉 SQL Injection Scanner çalışıyor...${C.reset}`);
-    const sqlIssues = scanSQLInjection(allFiles, projectRoot);
-    console.log(`${C.dim}     ├─ ${sqlIssues.length} risk tespit edildi${C.reset}`);
-    issues.push(...sqlIssues);
-
-    // ─── 4. API Key Guardian ───
-    console.log(`${C.cyan}  🔑 API Key Guardian çalışıyor...${C.reset}`);
-    const apiIssues = scanAPIKeys(allFiles, projectRoot, allEnvEntries);
-    console.log(`${C.dim}     ├─ ${apiIssues.length} risk tespit edildi${C.reset}`);
-    issues.push(...apiIssues);
-
-    // ─── .gitignore Check ───
-    const gitignorePath = path.join(projectRoot, '.gitignore');
-    if (fs.existsSync(gitignorePath)) {
-        const content = fs.readFileSync(gitignorePath, 'utf-8');
-        if (!content.includes('.env')) {
-            issues.push({
-                severity: 'warning', category: 'general',
-                title: '⚠️ .env dosyaları .gitignore\'a eklenmemiş!',
-                message: '.env dosyalarınız yanlışlıkla commit edilebilir.', file: '.gitignore'
-            });
-        }
+    if (incremental) {
+        printIssueDiff(diffIssues(session.previous, issues), issues);
+        session.previous = issues;
+        generateAndWriteSummary(projectRoot, config, issues, codeTables, recipes, routes, edgeFunctions);
+        emitReport(projectRoot, format, outputPath, issues, routes);
+        return;
     }
+    session.previous = issues;
 
     // ─── Report ───
-    console.log('');
+    log('');
 
     if (issues.length === 0) {
-        console.log(`${C.green}${C.bold}  ✅ Güvenlik taraması tamamlandı — sorun bulunamadı!${C.reset}`);
-        generateAndWriteSummary(projectRoot, config, issues, new Map());
+        log(`${C.green}${C.bold}  ✅ ${t('cli.scanClean')}${C.reset}`);
+        if (!result.stats.diff) generateAndWriteSummary(projectRoot, config, issues, codeTables, recipes, routes, edgeFunctions);
+        emitReport(projectRoot, format, outputPath, issues, routes);
         return;
     }
-
     const criticalCount = issues.filter(i => i.severity === 'critical').length;
     const warningCount = issues.filter(i => i.severity === 'warning').length;
     const infoCount = issues.filter(i => i.severity === 'info').length;
 
     const parts = [];
-    if (criticalCount > 0) parts.push(`${C.red}${C.bold}${criticalCount} Kritik${C.reset}`);
-    if (warningCount > 0) parts.push(`${C.yellow}${warningCount} Uyarı${C.reset}`);
-    if (infoCount > 0) parts.push(`${C.blue}${infoCount} Bilgi${C.reset}`);
+    if (criticalCount > 0) parts.push(`${C.red}${C.bold}${t('cli.countCritical', { count: criticalCount })}${C.reset}`);
+    if (warningCount > 0) parts.push(`${C.yellow}${t('cli.countWarning', { count: warningCount })}${C.reset}`);
+    if (infoCount > 0) parts.push(`${C.blue}${t('cli.countInfo', { count: infoCount })}${C.reset}`);
 
-    console.log(DLINE);
-    console.log(`${C.bold}  📊 SONUÇ: ${issues.length} sorun — ${parts.join(' · ')}${C.reset}`);
-    console.log(DLINE);
-    console.log('');
+    log(DLINE);
+    log(`${C.bold}  📊 ${t('cli.result', { count: issues.length, parts: parts.join(' · ') })}${C.reset}`);
+    log(DLINE);
+    log('');
 
     const sorted = [...issues].sort((a, b) => {
         const order = { critical: 0, warning: 1, info: 2 };
@@ -473,35 +335,185 @@ async function runScan() {
                 ? `${C.bgYellow}${C.bold} WARNING ${C.reset}`
                 : `${C.bgBlue}${C.white} INFO ${C.reset}`;
 
-        console.log(LINE);
-        console.log(`  ${badge} ${issue.title}`);
-        if (issue.file) console.log(`  ${C.dim}📄 ${issue.file}${issue.line ? `:${issue.line}` : ''}${C.reset}`);
-        console.log(`  ${C.dim}${issue.message}${C.reset}`);
-        if (issue.context) console.log(`  ${C.dim}📝 ${issue.context.substring(0, 120)}${C.reset}`);
-        console.log('');
+        log(LINE);
+        log(`  ${badge} ${issue.title}`);
+        if (issue.file) log(`  ${C.dim}📄 ${issue.file}${issue.line ? `:${issue.line}` : ''}${C.reset}`);
+        log(`  ${C.dim}${issue.message}${C.reset}`);
+        if (issue.fix) log(`  ${C.green}💡 ${issue.fix}${C.reset}`);
+        if (issue.context) log(`  ${C.dim}📝 ${issue.context.substring(0, 120)}${C.reset}`);
+        log('');
     }
 
     // ─── vibe-summary.txt ───
-    generateAndWriteSummary(projectRoot, config, issues, dbTables);
+    // Diff modunda özet proje geneli olmadığından yazılmaz
+    if (!result.stats.diff) generateAndWriteSummary(projectRoot, config, issues, codeTables, recipes, routes, edgeFunctions);
+    emitReport(projectRoot, format, outputPath, issues, routes);
 
-    console.log(DLINE);
-    console.log(`  ${C.dim}Tarama: ${new Date().toLocaleTimeString('tr-TR')} | Config: vibe-security.config.js${C.reset}`);
-    console.log(DLINE);
-    console.log('');
+    log(DLINE);
+    log(`  ${C.dim}${t('cli.scanFooter', { time: formatTime() })}${C.reset}`);
+    log(DLINE);
+    log('');
+
+    if (exceedsThreshold(issues, failOn)) process.exitCode = 1;
+}
+
+// ─── Module Progress ───
+// scan() sonucundaki modül istatistikleri tarama sırasıyla yazdırılır
+function printScanStats(result) {
+    const { stats, recipes, routes } = result;
+    for (const error of stats.ruleErrors) log(`${C.yellow}  ⚠️ ${t('cli.ruleLoadFailed', { error })}${C.reset}`);
+    if (stats.diff) log(`${C.cyan}  🔀 ${t('cli.diffMode', { label: `${stats.diff.label}${stats.diff.base !== 'index' ? ` (${stats.diff.base})` : ''}`, changed: stats.diff.changed })}${C.reset}`);
+    log(`${C.dim}  📂 ${t('cli.sourceFiles', { files: stats.files, rescanned: stats.rescanned, cached: stats.files - stats.rescanned, client: result.clientFiles.size })}${C.reset}`);
+    log('');
+
+    // ─── 1. Secret Scanner ───
+    log(`${C.cyan}  🔐 ${t('cli.secretScanner')}${C.reset}`);
+    for (const { file, keys } of stats.envFiles) log(`${C.dim}     ├─ ${t('cli.envKeys', { file, keys })}${C.reset}`);
+    log(`${C.dim}     ├─ ${t('cli.valueIssues', { count: stats.valueIssues })}${C.reset}`);
+
+    // ─── 2. RLS Scanner ───
+    if (stats.rls) {
+        const { mode, cached, fallback } = stats.rls;
+        if (cached) log(`${C.cyan}  🛡️ ${t('cli.rlsCached')}${C.reset}`);
+        else if (mode === 'offline' && !fallback) log(`${C.cyan}  🛡️ ${t('cli.rlsOffline')}${C.reset}`);
+        else log(`${C.cyan}  🛡️ ${t('cli.rlsDb')}${C.reset}`);
+        if (fallback && !cached) log(`${C.yellow}     ├─ ${t('cli.rlsFallback')}${C.reset}`);
+
+        log(`${C.dim}     ├─ ${t('cli.rlsTables', { count: stats.rls.tables, source: mode === 'offline' ? 'supabase/migrations' : t('cli.database') })}${C.reset}`);
+        log(`${C.dim}     ├─ ${t('cli.rlsCodeTables', { count: stats.rls.codeTables })}${C.reset}`);
+        if (mode === 'db') log(`${C.dim}     ├─ ${t('cli.rlsSurface', { count: stats.rls.surface })}${C.reset}`);
+
+        // ─── SQL Reçeteleri ───
+        if (recipes.size > 0) {
+            log('');
+            log(`${C.cyan}${C.bold}  📝 ${t('cli.recipesTitle')}${C.reset}`);
+            log(`${C.dim}  ${t('cli.recipesHint')}${C.reset}`);
+            log('');
+
+            for (const [tableName, recipe] of recipes) {
+                log(`${C.yellow}${C.bold}  ── ${tableName} (${recipe.plan.kind}${recipe.plan.column ? ': ' + recipe.plan.column : ''}) ──${C.reset}`);
+                for (const sqlLine of recipe.sql.split('\n').slice(1)) {
+                    const color = sqlLine.startsWith('ALTER') ? C.green : C.dim;
+                    log(`${color}  ${sqlLine}${C.reset}`);
+                }
+                log('');
+            }
+        }
+    }
+
+    // ─── 3-4. Kural Motoru (SQL Injection + API Key Guardian + özel kurallar) ───
+    log(`${C.cyan}  ⚙️ ${t('cli.ruleEngine', { count: stats.rules })}${C.reset}`);
+    for (const [category, count] of Object.entries(stats.ruleCounts)) {
+        log(`${C.dim}     ├─ ${category}: ${t('cli.risks', { count })}${C.reset}`);
+    }
+
+    // ─── İstemci / Sunucu Sınırı ───
+    log(`${C.cyan}  🧭 ${t('cli.boundary')}${C.reset}`);
+    log(`${C.dim}     ├─ ${t('cli.boundaryCount', { count: stats.boundary })}${C.reset}`);
+
+    // ─── Auth Guard Denetçisi ───
+    if (stats.authGuard) {
+        const { middleware } = stats.authGuard;
+        log(`${C.cyan}  🔐 ${t('cli.authGuard')}${C.reset}`);
+        if (middleware) log(`${C.dim}     ├─ ${t('cli.middleware', { file: middleware.file, status: t(middleware.guarded ? 'cli.middlewareGuarded' : 'cli.middlewareUnguarded'), matchers: middleware.matchers ? middleware.matchers.join(', ') : t('cli.allRoutes') })}${C.reset}`);
+        const statusColors = { guarded: C.green, middleware: C.green, public: C.blue, 'no-data': C.dim, unguarded: C.red };
+        for (const route of routes) {
+            log(`${statusColors[route.status] || C.dim}     ├─ ${(route.method === '*' ? 'ALL' : route.method).padEnd(7)} ${route.route} → ${route.status}${route.guard ? ` (${route.guard})` : ''}${C.reset}`);
+        }
+        log(`${C.dim}     ├─ ${t('cli.authGuardCount', { routes: stats.authGuard.routes, issues: stats.authGuard.issues })}${C.reset}`);
+    }
+
+    // ─── Next.js Config & Güvenlik Başlıkları ───
+    if (stats.nextConfig) {
+        log(`${C.cyan}  🌐 ${t('cli.nextConfig')}${C.reset}`);
+        log(`${C.dim}     ├─ ${t('cli.nextConfigCount', { file: stats.nextConfig.file || t('cli.nextConfigMissing'), headers: stats.nextConfig.headers, issues: stats.nextConfig.issues })}${C.reset}`);
+    }
+
+    // ─── Supabase Edge Functions ───
+    if (stats.edgeFunctions) {
+        log(`${C.cyan}  ⚡ ${t('cli.edgeFunctions')}${C.reset}`);
+        log(`${C.dim}     ├─ ${t('cli.edgeFunctionsCount', stats.edgeFunctions)}${C.reset}`);
+    }
+
+    // ─── 5. Build Artifact Scanner (opsiyonel) ───
+    if (stats.build) {
+        log(`${C.cyan}  📦 ${t('cli.buildScanner')}${C.reset}`);
+        log(`${C.dim}     ├─ ${t('cli.buildCount', { files: stats.build.filesScanned, leaks: stats.build.leaks })}${C.reset}`);
+    }
+
+    // ─── 6. Git Hygiene ───
+    log(`${C.cyan}  🕰️ ${t('cli.gitHygiene')}${C.reset}`);
+    if (!stats.git.repo) log(`${C.dim}     ├─ ${t('cli.gitNotRepo')}${C.reset}`);
+    else log(`${C.dim}     ├─ ${t('cli.risks', { count: stats.git.issues })}${stats.git.historyScanned ? ` ${t('cli.withHistory')}` : ''}${C.reset}`);
+
+    // ─── Suppressions ───
+    if (result.suppressed.length > 0) log(`${C.dim}  🔕 ${t('cli.suppressed', { count: result.suppressed.length })}${C.reset}`);
+    if (stats.duplicates > 0) log(`${C.dim}  🧬 ${t('cli.duplicates', { count: stats.duplicates })}${C.reset}`);
+}
+
+// ─── Watch Diff ───
+function printIssueDiff({ added, resolved }, issues) {
+    const time = formatTime();
+    const counts = t('cli.watchCounts', {
+        critical: issues.filter(i => i.severity === 'critical').length,
+        warning: issues.filter(i => i.severity === 'warning').length,
+        info: issues.filter(i => i.severity === 'info').length,
+    });
+    if (added.length === 0 && resolved.length === 0) {
+        console.log(`${C.dim}  [${time}] ${t('cli.watchNoChange', { counts })}${C.reset}`);
+        return;
+    }
+    const colors = { critical: C.red, warning: C.yellow, info: C.blue };
+    const where = (issue) => issue.file ? ` ${C.dim}${issue.file}${issue.line ? `:${issue.line}` : ''}${C.reset}` : '';
+    console.log(`${C.bold}  [${time}] ${t('cli.watchChanged', { added: added.length, resolved: resolved.length, counts })}${C.reset}`);
+    for (const issue of added) {
+        console.log(`  ${colors[issue.severity] || C.dim}🆕 ${issue.title}${C.reset}${where(issue)}`);
+        if (issue.fix) console.log(`     ${C.green}💡 ${issue.fix}${C.reset}`);
+    }
+    for (const issue of resolved) {
+        console.log(`  ${C.green}✅ ${issue.title}${C.reset}${where(issue)}`);
+    }
+}
+
+// ─── Machine-readable Report (--format / --output) ───
+function emitReport(projectRoot, format, outputPath, issues, routes = []) {
+    if (format === 'text') return;
+    const report = formatReport(format, issues, { projectRoot, generatedAt: new Date().toISOString(), routes });
+    if (!outputPath) {
+        process.stdout.write(report.endsWith('\n') ? report : report + '\n');
+        return;
+    }
+    try {
+        const target = path.resolve(projectRoot, outputPath);
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, report, 'utf-8');
+        log(`${C.green}${C.bold}  📦 ${t('cli.reportWritten', { format: format.toUpperCase(), file: outputPath })}${C.reset}`);
+    } catch (err) {
+        console.error(`${C.red}❌ ${t('cli.writeFailed', { file: outputPath, error: err.message })}${C.reset}`);
+        process.exitCode = 1;
+    }
+}
 
-    if (criticalCount > 0) process.exit(1);
+function recordHistory(projectRoot, config, result) {
+    if (config.history?.enabled === false) return;
+    try {
+        const record = createHistoryRecord(projectRoot, result.issues, { known: result.known.length });
+        appendHistory(projectRoot, record, { maxRuns: config.history?.maxRuns });
+    } catch (err) {
+        console.error(`${C.red}❌ ${t('cli.writeFailed', { file: HISTORY_FILE, error: err.message })}${C.reset}`);
+    }
 }
 
-function generateAndWriteSummary(projectRoot, config, issues, tables) {
+function generateAndWriteSummary(projectRoot, config, issues, tables, recipes = new Map(), routes = [], edgeFunctions = []) {
     try {
-        const summary = generateVibeSummary(config, issues, tables);
+        const summary = generateVibeSummary(config, issues, tables, recipes, routes, edgeFunctions);
         const summaryPath = path.join(projectRoot, 'vibe-summary.txt');
         fs.writeFileSync(summaryPath, summary, 'utf-8');
-        console.log(`${C.green}${C.bold}  📋 vibe-summary.txt güncellendi.${C.reset}`);
-        console.log(`${C.dim}     AI araçlarına bu dosyayı context olarak verin.${C.reset}`);
-        console.log('');
+        log(`${C.green}${C.bold}  📋 ${t('cli.summaryWritten')}${C.reset}`);
+        log(`${C.dim}     ${t('cli.summaryHint')}${C.reset}`);
+        log('');
     } catch (err) {
-        console.error(`${C.red}❌ vibe-summary.txt yazılamadı: ${err.message}${C.reset}`);
+        console.error(`${C.red}❌ ${t('cli.writeFailed', { file: 'vibe-summary.txt', error: err.message })}${C.reset}`);
     }
 }
 
@@ -510,13 +522,15 @@ if (process.argv.includes('init')) {
     const projectRoot = process.cwd();
     const configPath = path.join(projectRoot, 'vibe-security.config.js');
     if (fs.existsSync(configPath)) {
-        console.log(`${C.yellow}⚠️ vibe-security.config.js zaten mevcut.${C.reset}`);
+        console.log(`${C.yellow}⚠️ ${t('cli.initExists')}${C.reset}`);
         process.exit(0);
     }
 
     const defaultConfig = `// Vibe Security Watchdog v2.0 Configuration
+/** @type {import('vibe-security').VibeSecurityConfig} */
 module.exports = {
   enabled: true,
+  locale: '${getLocale()}',
   secretScanner: {
     envFiles: ['.env', '.env.local', '.env.development'],
     sensitivePatterns: [
@@ -537,47 +551,375 @@ module.exports = {
 `;
     try {
         fs.writeFileSync(configPath, defaultConfig, 'utf-8');
-        console.log(`${C.green}${C.bold}✅ vibe-security.config.js başarıyla oluşturuldu!${C.reset}`);
-        console.log(`${C.dim}Artık özel kurallarınızı yapılandırabilirsiniz.${C.reset}`);
+        console.log(`${C.green}${C.bold}✅ ${t('cli.initCreated')}${C.reset}`);
+        console.log(`${C.dim}${t('cli.initHint')}${C.reset}`);
     } catch (err) {
-        console.error(`${C.red}❌ vibe-security.config.js oluşturulamadı: ${err.message}${C.reset}`);
+        console.error(`${C.red}❌ ${t('cli.writeFailed', { file: 'vibe-security.config.js', error: err.message })}${C.reset}`);
     }
     process.exit(0);
 }
 
+// ─── RLS Migrate Command ───
+async function runRLSMigrate() {
+    const projectRoot = process.cwd();
+    const config = await readConfig(projectRoot);
+    if (!config) { console.error(`${C.red}❌ ${t('cli.configMissing')}${C.reset}`); process.exit(1); }
+
+    const envEntries = collectEnvEntries(projectRoot, config);
+
+    const whitelisted = config.rlsScanner?.whitelistedTables || [];
+    const { issues, schemas } = await collectRLSState(projectRoot, envEntries, whitelisted, {
+        offline: process.argv.includes('--offline'),
+        exposedSchemas: config.rlsScanner?.exposedSchemas,
+    });
+    // Sadece hiç şema durumu okunamadıysa durulur; bağlantı hatasında migration'lardan üretilen durum kullanılabilir
+    const blocking = schemas.size === 0 && issues.find(i => !i.table && i.severity !== 'info');
+    if (blocking) {
+        console.error(`${C.red}❌ ${blocking.title}${C.reset}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    const recipes = buildRecipes(issues, schemas, whitelisted);
+    if (recipes.size === 0) {
+        console.log(`${C.green}${C.bold}  ✅ ${t('cli.migrateNone')}${C.reset}`);
+        return;
+    }
+
+    const filePath = writeMigration(projectRoot, recipes);
+    console.log(`${C.green}${C.bold}  📝 ${t('cli.migrateWritten', { count: recipes.size, file: path.relative(projectRoot, filePath) })}${C.reset}`);
+    for (const [tableName, recipe] of recipes) {
+        console.log(`${C.dim}     ├─ ${tableName}: ${recipe.plan.kind}${recipe.plan.column ? ` (${recipe.plan.column})` : ''}${C.reset}`);
+    }
+    console.log(`${C.dim}     ${t('cli.migrateHint')}${C.reset}`);
+}
+
+// ─── RLS Test Command ───
+// Her tablo ayrı bir transaction'da test edilir ve ROLLBACK ile geri alınır
+async function runRLSTest() {
+    const projectRoot = process.cwd();
+    const config = await readConfig(projectRoot);
+    if (!config) { console.error(`${C.red}❌ ${t('cli.configMissing')}${C.reset}`); process.exit(1); }
+    const format = getArgValue('--format') || 'text';
+    const outputPath = getArgValue('--output');
+    logToStderr = format !== 'text' && !outputPath;
+
+    const envEntries = collectEnvEntries(projectRoot, config);
+    const testerConfig = config.rlsTester || {};
+    const databaseUrl = getArgValue('--db') || process.env.VIBE_SEC_TEST_DATABASE_URL || testerConfig.databaseUrl || resolveDatabaseUrl(envEntries);
+    if (!databaseUrl) {
+        console.error(`${C.red}❌ ${t('cli.testNoDatabase')}${C.reset}`);
+        process.exitCode = 1;
+        return;
+    }
+    if (!isLocalDatabase(databaseUrl, testerConfig.allowedHosts) && !process.argv.includes('--allow-remote')) {
+        console.error(`${C.red}❌ ${t('cli.testRemote')}${C.reset}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    log(`${C.cyan}${C.bold}  🧪 ${t('cli.testTitle')}${C.reset}`);
+    const table = getArgValue('--table');
+    const { issues, results, setupError } = await runRLSBehaviorTests(databaseUrl, {
+        whitelisted: config.rlsScanner?.whitelistedTables || [],
+        tables: table ? table.split(',') : null,
+    });
+    if (setupError) {
+        console.error(`${C.red}❌ ${setupError}${C.reset}`);
+        console.error(`${C.dim}${AUTH_STUB_SQL}${C.reset}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    for (const result of results) {
+        if (result.skipped) {
+            log(`${C.dim}  ⏭️  ${result.table}: ${result.skipped}${C.reset}`);
+            continue;
+        }
+        const leaks = result.outcomes.filter(o => o.allowed);
+        log(`${leaks.length > 0 ? C.red : C.green}  ${leaks.length > 0 ? '🔴' : '✅'} ${result.table} (${result.plan.column})${C.reset}`);
+        for (const outcome of result.outcomes) {
+            const mark = outcome.allowed ? `${C.red}${t('cli.testAllowed')}` : `${C.green}${t('cli.testBlocked')}`;
+            log(`     ${C.dim}${outcome.persona.padEnd(24)} ${outcome.op.padEnd(6)}${C.reset} ${mark}${C.reset}`);
+            if (outcome.allowed) log(`     ${C.dim}📝 ${outcome.statement}${C.reset}`);
+        }
+    }
+
+    const leaking = issues.filter(i => i.severity === 'critical');
+    log('');
+    if (leaking.length === 0) log(`${C.green}${C.bold}  ✅ ${t('cli.testClean', { count: results.filter(r => !r.skipped).length })}${C.reset}`);
+    else log(`${C.red}${C.bold}  🚨 ${t('cli.testLeaks', { count: leaking.length })}${C.reset}`);
+    emitReport(projectRoot, format, outputPath, issues);
+    if (leaking.length > 0) process.exitCode = 1;
+}
+
+// ─── Fix Command ───
+// Varsayılan olarak sadece unified diff yazdırılır; dosyalar --apply ile değiştirilir
+async function runFix() {
+    const projectRoot = process.cwd();
+    const apply = process.argv.includes('--apply');
+    const config = await readConfig(projectRoot);
+    if (!config) { console.error(`${C.red}❌ ${t('cli.configMissing')}${C.reset}`); process.exit(1); }
+    if (!config.enabled) { log(`${C.dim}🛡️  ${t('cli.disabled')}${C.reset}`); return; }
+
+    // Baseline'daki bulgular da düzeltilebilir; sadece vibe-sec-ignore ile susturulanlar atlanır
+    const result = await scan({ projectRoot, config, offline: process.argv.includes('--offline'), baseline: false });
+    const { fixes, changes } = planFixes(projectRoot, result.issues, {
+        files: result.files,
+        clientFiles: result.clientFiles,
+        envPatterns: config.secretScanner?.envFiles,
+    });
+    if (fixes.length === 0) {
+        console.log(`${C.green}${C.bold}  ✅ ${t('cli.fixNone')}${C.reset}`);
+        return;
+    }
+
+    console.log(`${C.cyan}${C.bold}  🔧 ${t('cli.fixCount', { count: fixes.length })}${C.reset}`);
+    for (const fix of fixes) {
+        console.log(`${C.bold}  ── ${fix.title}${C.reset}`);
+        for (const file of fix.files) console.log(`${C.dim}     ├─ ${file}${C.reset}`);
+        for (const note of fix.notes) console.log(`${C.yellow}     ⚠️ ${note}${C.reset}`);
+    }
+    console.log('');
+
+    if (!apply) {
+        for (const change of changes) {
+            for (const line of formatDiff(change).split('\n')) {
+                const color = line.startsWith('@@') ? C.cyan : line.startsWith('+') ? C.green : line.startsWith('-') ? C.red : C.dim;
+                console.log(`${color}${line}${C.reset}`);
+            }
+            console.log('');
+        }
+        console.log(`${C.dim}  ${t('cli.fixHint')}${C.reset}`);
+        return;
+    }
+
+    applyFixes(projectRoot, changes);
+    console.log(`${C.green}${C.bold}  ✅ ${t('cli.fixApplied', { count: changes.length })}${C.reset}`);
+}
+
+// ─── Hook Install Command ───
+function runHookInstall() {
+    const projectRoot = process.cwd();
+    const { file, status } = installHook(projectRoot, { force: process.argv.includes('--force') });
+    if (status === 'foreign') {
+        console.error(`${C.yellow}⚠️ ${t('cli.hookForeign', { file })}${C.reset}`);
+        console.error(`${C.dim}   ${t('cli.hookForeignHint', { command: HOOK_COMMAND })}${C.reset}`);
+        process.exitCode = 1;
+        return;
+    }
+    console.log(`${C.green}${C.bold}  🪝 ${t(`cli.hook.${status}`, { file })}${C.reset}`);
+    console.log(`${C.dim}     ${t('cli.hookHint', { command: HOOK_COMMAND })}${C.reset}`);
+}
+
+// ─── Report Command ───
+// Tam tarama yapar, geçmişe ekler ve tek dosyalık HTML panosu yazar (varsayılan .vibe-sec/report.html)
+async function runReport() {
+    const projectRoot = process.cwd();
+    if (!process.argv.includes('--html')) {
+        console.error(`${C.red}❌ ${t('cli.reportUsage')}${C.reset}`);
+        process.exitCode = 1;
+        return;
+    }
+    const config = await readConfig(projectRoot);
+    if (!config) { console.error(`${C.red}❌ ${t('cli.configMissing')}${C.reset}`); process.exit(1); }
+    if (!config.enabled) { log(`${C.dim}🛡️  ${t('cli.disabled')}${C.reset}`); return; }
+
+    const result = await scan({
+        projectRoot, config,
+        offline: process.argv.includes('--offline'),
+        build: process.argv.includes('--build'),
+        locale: getLocale(),
+        baseline: !process.argv.includes('--no-baseline'),
+    });
+    recordHistory(projectRoot, config, result);
+    // Geçmiş kapalıysa pano sadece güncel bulguları gösterir
+    const history = config.history?.enabled === false ? [] : readHistory(projectRoot);
+
+    const outputPath = getArgValue('--output') || path.join('.vibe-sec', 'report.html');
+    const html = renderHtmlReport(result.issues, history, { projectRoot, generatedAt: new Date().toISOString(), known: result.known.length });
+    try {
+        const target = path.resolve(projectRoot, outputPath);
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, html, 'utf-8');
+        console.log(`${C.green}${C.bold}  📊 ${t('cli.reportWritten', { format: 'HTML', file: outputPath })}${C.reset}`);
+        console.log(`${C.dim}     ${t('cli.reportSummary', { issues: result.issues.length, runs: history.length })}${C.reset}`);
+    } catch (err) {
+        console.error(`${C.red}❌ ${t('cli.writeFailed', { file: outputPath, error: err.message })}${C.reset}`);
+        process.exitCode = 1;
+    }
+}
+
+// ─── Rules List Command ───
+async function runRulesList() {
+    const projectRoot = process.cwd();
+    const config = (await readConfig(projectRoot)) || {};
+    const { rules, errors } = loadRules(config, projectRoot);
+    const described = rules.map(describeRule);
+
+    if (getArgValue('--format') === 'json') {
+        process.stdout.write(JSON.stringify({ rules: described, errors }, null, 2) + '\n');
+        return;
+    }
+
+    const colors = { critical: C.red, warning: C.yellow, info: C.blue };
+    console.log(`${C.cyan}${C.bold}  ⚙️ ${t('cli.rulesTitle', { count: described.length })}${C.reset}`);
+    for (const category of [...new Set(described.map(r => r.category))]) {
+        console.log('');
+        console.log(`${C.bold}  ${category}${C.reset}`);
+        for (const rule of described.filter(r => r.category === category)) {
+            const color = colors[rule.severity.split('/')[0]] || C.dim;
+            console.log(`  ${color}${rule.severity.padEnd(17)}${C.reset} ${rule.id.padEnd(32)} ${C.dim}${rule.kinds.join('+').padEnd(10)} ${rule.scope.padEnd(7)} ${rule.source}${C.reset}`);
+        }
+    }
+    for (const error of errors) console.log(`${C.yellow}  ⚠️ ${error}${C.reset}`);
+}
+
 // ─── Watch Mode ───
-if (process.argv.includes('--watch')) {
+// Kaynak dosyalar içerik hash'iyle önbelleklenir; DB durumu sadece migration / config değişiminde
+// veya --db-poll <saniye> aralığında yenilenir.
+async function runWatch() {
     const chokidar = require('chokidar');
     const projectRoot = process.cwd();
+    const config = await readConfig(projectRoot);
+    if (!config) { console.error(`${C.red}❌ ${t('cli.configMissing')}${C.reset}`); process.exit(1); }
 
-    console.log(`${C.cyan}${C.bold}🛡️  Vibe Security Watchdog v2.0 — İzleme Modu${C.reset}`);
-    console.log(`${C.dim}   Modüller: Secret Scanner | RLS Denetçisi | SQL Injection | API Key Guardian${C.reset}`);
-    console.log(`${C.dim}   Dosya değişimleri izleniyor...${C.reset}`);
+    const scanDirs = config.rlsScanner?.scanDirs || ['src'];
+    const extensions = (config.rlsScanner?.extensions || ['.ts', '.tsx', '.js', '.jsx']).map(e => e.replace(/^\./, ''));
+    const excludeDirs = config.rlsScanner?.excludeDirs || ['node_modules', '.next', 'dist', '.git'];
+    const debounceMs = config.watcher?.debounceMs ?? 500;
+    const extGlob = extensions.length === 1 ? extensions[0] : `{${extensions.join(',')}}`;
 
-    runScan();
+    const patterns = [
+        '.env*',
+        '.gitignore',
+        ...CONFIG_FILES,
+        'package.json',
+        'tsconfig.json',
+        'jsconfig.json',
+        'middleware.{ts,js}',
+        'src/middleware.{ts,js}',
+        'next.config.{js,mjs,ts,cjs}',
+        'vercel.json',
+        'supabase/migrations/**/*.sql',
+        'supabase/seed.sql',
+        'supabase/config.toml',
+        'supabase/functions/**/*.{ts,js,mjs}',
+        ...scanDirs.map(dir => `${dir}/**/*.${extGlob}`),
+        ...(config.watcher?.additionalWatchPatterns || []),
+    ];
+
+    console.log(`${C.cyan}${C.bold}🛡️  Vibe Security Watchdog v2.0 — ${t('cli.watchTitle')}${C.reset}`);
+    console.log(`${C.dim}   ${t('cli.modules')}${C.reset}`);
+    console.log(`${C.dim}   ${t('cli.watching', { patterns: patterns.join(', ') })}${C.reset}`);
+
+    // ─── Browser Overlay ───
+    const reporter = config.reporter || {};
+    let overlay = null;
+    if (reporter.browserOverlay !== false) {
+        try {
+            overlay = await startOverlayServer({ projectRoot, reporter });
+            console.log(`${C.dim}   ${t('cli.overlay', { url: overlay.url })}${C.reset}`);
+        } catch (err) {
+            console.log(`${C.yellow}   ⚠️ ${t('cli.overlayFailed', { error: err.message })}${C.reset}`);
+        }
+    }
 
+    const session = createScanSession();
+    let running = false;
+    let pending = false;
     let debounce = null;
-    const watcher = chokidar.watch([
-        path.join(projectRoot, '.env*'),
-        path.join(projectRoot, 'src', '**', '*.{ts,tsx,js,jsx}'),
-        path.join(projectRoot, 'vibe-security.config.js'),
-    ], {
-        ignored: ['**/node_modules/**', '**/.next/**', '**/.git/**', '**/vibe-summary.txt'],
+
+    const scan = async () => {
+        if (running) { pending = true; return; }
+        running = true;
+        try {
+            await runScan(session);
+            if (overlay) overlay.broadcast(session.previous || []);
+        } catch (err) {
+            console.error(`${C.red}${t('cli.fatal', { error: err.message })}${C.reset}`);
+        }
+        running = false;
+        if (pending) { pending = false; scan(); }
+    };
+
+    const schedule = () => {
+        if (debounce) clearTimeout(debounce);
+        debounce = setTimeout(scan, debounceMs);
+    };
+
+    const dbPoll = Number(getArgValue('--db-poll'));
+    if (dbPoll > 0) {
+        console.log(`${C.dim}   ${t('cli.dbPoll', { seconds: dbPoll })}${C.reset}`);
+        setInterval(() => { session.rls = null; schedule(); }, dbPoll * 1000);
+    }
+
+    const watcher = chokidar.watch(patterns, {
+        cwd: projectRoot,
+        ignored: [...excludeDirs.map(dir => `**/${dir}/**`), '**/vibe-summary.txt'],
         persistent: true,
         ignoreInitial: true,
     });
 
     watcher.on('all', (event, filePath) => {
-        if (debounce) clearTimeout(debounce);
-        console.log(`${C.dim}🔄 ${event}: ${path.relative(projectRoot, filePath)}${C.reset}`);
-        debounce = setTimeout(() => {
-            console.clear();
-            runScan();
-        }, 500);
+        const rel = filePath.replace(/\\/g, '/');
+        if (CONFIG_FILES.includes(rel) || rel === 'package.json') {
+            // Kurallar ve dizinler değişmiş olabilir: tüm önbellek sıfırlanır
+            session.files.clear();
+            session.rls = null;
+            session.git = null;
+        } else if (rel.startsWith('supabase/')) {
+            session.rls = null;
+        } else if (rel.startsWith('.env') || rel === '.gitignore') {
+            session.git = null;
+        }
+        console.log(`${C.dim}🔄 ${event}: ${rel}${C.reset}`);
+        schedule();
+    });
+
+    scan();
+}
+
+if (process.argv.includes('rules')) {
+    runRulesList().catch(err => {
+        console.error(`${C.red}${t('cli.fatal', { error: err.message })}${C.reset}`);
+        process.exit(1);
+    });
+} else if (process.argv.includes('rls:test')) {
+    runRLSTest().catch(err => {
+        console.error(`${C.red}${t('cli.fatal', { error: err.message })}${C.reset}`);
+        process.exit(1);
+    });
+} else if (process.argv.slice(2).includes('hook')) {
+    try {
+        runHookInstall();
+    } catch (err) {
+        console.error(`${C.red}${t('cli.fatal', { error: err.message })}${C.reset}`);
+        process.exit(1);
+    }
+} else if (process.argv.slice(2).includes('report')) {
+    runReport().catch(err => {
+        console.error(`${C.red}${t('cli.fatal', { error: err.message })}${C.reset}`);
+        process.exit(1);
+    });
+} else if (process.argv.includes('fix')) {
+    runFix().catch(err => {
+        console.error(`${C.red}${t('cli.fatal', { error: err.message })}${C.reset}`);
+        process.exit(1);
+    });
+} else if (process.argv.includes('rls:migrate')) {
+    runRLSMigrate().catch(err => {
+        console.error(`${C.red}${t('cli.fatal', { error: err.message })}${C.reset}`);
+        process.exit(1);
+    });
+} else if (process.argv.includes('--watch')) {
+    runWatch().catch(err => {
+        console.error(`${C.red}${t('cli.fatal', { error: err.message })}${C.reset}`);
+        process.exit(1);
     });
 } else {
     runScan().catch(err => {
-        console.error(`${C.red}Kritik Hata: ${err.message}${C.reset}`);
+        console.error(`${C.red}${t('cli.fatal', { error: err.message })}${C.reset}`);
         process.exit(1);
     });
 }
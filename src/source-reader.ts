@@ -0,0 +1,32 @@
+const fs = require('fs');
+const { t } = require('./i18n');
+
+// ─── Source Overlay ───
+// Tarayıcılar kaynak dosyaları buradan okur. --staged modunda overlay git index'indeki içeriği taşır;
+// kısmen stage edilmiş dosyalar çalışma ağacındaki hâliyle değil, commit edilecek hâliyle değerlendirilir.
+// Map<mutlak yol, içerik | null> — null: dosya index'te yok (silinmiş)
+let overlay = null;
+
+function readSource(filePath) {
+    if (overlay && overlay.has(filePath)) {
+        const content = overlay.get(filePath);
+        if (content === null) throw Object.assign(new Error(t('diff.notInIndex', { file: filePath })), { code: 'ENOENT' });
+        return content;
+    }
+    return fs.readFileSync(filePath, 'utf-8');
+}
+
+async function withSourceOverlay(files, fn) {
+    const previous = overlay;
+    overlay = files || previous;
+    try {
+        return await fn();
+    } finally {
+        overlay = previous;
+    }
+}
+
+module.exports = {
+    readSource,
+    withSourceOverlay,
+};
@@ -0,0 +1,333 @@
+const ts = require('typescript');
+const { t } = require('./i18n');
+
+// ─── Taint Kaynakları ───
+// req.query.x, request.body, ctx.params.id, searchParams.get('q'), formData.get('name') ...
+const REQUEST_ROOTS = ['req', 'request', 'ctx', 'context', 'event'];
+const REQUEST_FIELDS = ['query', 'body', 'params', 'searchParams', 'cookies', 'headers', 'nextUrl'];
+const SOURCE_CONTAINERS = ['searchParams', 'formData', 'params', 'query'];
+const REQUEST_BODY_READERS = ['json', 'formData', 'text'];
+const SOURCE_HOOKS = ['useSearchParams', 'useParams'];
+
+// Değeri SQL için güvenli hale getiren çağrılar (sayıya çevirme, pg escape yardımcıları)
+const SANITIZERS = ['Number', 'parseInt', 'parseFloat', 'Boolean', 'BigInt', 'escapeLiteral', 'escapeIdentifier', 'literal', 'ident', 'escape'];
+// Değeri olduğu gibi taşıyan string metotları
+const PASSTHROUGH_METHODS = ['trim', 'trimStart', 'trimEnd', 'toLowerCase', 'toUpperCase', 'toString', 'replace', 'replaceAll', 'slice', 'substring', 'concat', 'join', 'padStart', 'padEnd', 'split', 'get', 'getAll'];
+
+// Parametreli tagged template helper'ları — interpolasyonlar bind parametresine dönüşür
+const SAFE_TAGS = ['sql', 'SQL', 'Prisma.sql', 'prisma.$queryRaw', 'prisma.$executeRaw', '$queryRaw', '$executeRaw', 'db.sql', 'sql.fragment', 'sql.type'];
+
+// ─── Sink Tanımları ───
+const RAW_QUERY_METHODS = ['query', 'execute', 'unsafe'];
+const RAW_UNSAFE_METHODS = ['$queryRawUnsafe', '$executeRawUnsafe'];
+const KNEX_RAW_METHODS = ['raw', 'whereRaw', 'orWhereRaw', 'havingRaw', 'orderByRaw', 'groupByRaw', 'joinRaw', 'selectRaw'];
+const FILTER_METHODS = ['or', 'and', 'filter', 'not'];
+
+// Her sink bir kural: sql-injection/<sink> (etiketler: locales/*.ts sql.sinks)
+const SINK_RULES = ['raw-query', 'raw-unsafe', 'knex-raw', 'rpc', 'filter'];
+
+function scriptKindFor(fileName) {
+    if (fileName.endsWith('.tsx')) return ts.ScriptKind.TSX;
+    if (fileName.endsWith('.jsx')) return ts.ScriptKind.JSX;
+    if (fileName.endsWith('.js') || fileName.endsWith('.mjs') || fileName.endsWith('.cjs')) return ts.ScriptKind.JS;
+    return ts.ScriptKind.TS;
+}
+
+function shorten(text, max = 60) {
+    const oneLine = text.replace(/\s+/g, ' ').trim();
+    return oneLine.length > max ? oneLine.substring(0, max - 1) + '…' : oneLine;
+}
+
+function withStep(taint, step, built = taint.built) {
+    const path = taint.path[taint.path.length - 1] === step ? taint.path : [...taint.path, step];
+    return { path, built };
+}
+
+function mergeTaints(taints, step) {
+    const hit = taints.find(Boolean);
+    return hit ? withStep(hit, step, true) : null;
+}
+
+// ─── Scope ───
+function createScope(parent) {
+    return { vars: new Map(), parent };
+}
+
+function lookup(scope, name) {
+    for (let s = scope; s; s = s.parent) {
+        if (s.vars.has(name)) return s.vars.get(name);
+    }
+    return null;
+}
+
+function bindName(scope, nameNode, taint) {
+    if (ts.isIdentifier(nameNode)) {
+        scope.vars.set(nameNode.text, taint ? withStep(taint, nameNode.text) : null);
+        return;
+    }
+    // const { id, name } = await req.json()
+    for (const element of nameNode.elements || []) {
+        if (ts.isOmittedExpression(element)) continue;
+        bindName(scope, element.name, taint);
+    }
+}
+
+function calleeName(expr) {
+    if (ts.isIdentifier(expr)) return expr.text;
+    if (ts.isPropertyAccessExpression(expr)) return expr.name.text;
+    return '';
+}
+
+function rootIdentifier(expr) {
+    let current = expr;
+    while (current) {
+        if (ts.isIdentifier(current)) return current.text;
+        if (ts.isPropertyAccessExpression(current) || ts.isElementAccessExpression(current) || ts.isCallExpression(current) ||
+            ts.isNonNullExpression(current) || ts.isParenthesizedExpression(current) || ts.isAwaitExpression(current)) {
+            current = current.expression;
+        } else {
+            return null;
+        }
+    }
+    return null;
+}
+
+// ─── Source Detection ───
+function sourceLabel(expr, sf) {
+    if (ts.isPropertyAccessExpression(expr)) {
+        const root = rootIdentifier(expr);
+        if (REQUEST_FIELDS.includes(expr.name.text) && root && REQUEST_ROOTS.includes(root)) return expr.getText(sf);
+        if (SOURCE_CONTAINERS.includes(expr.name.text) && ts.isIdentifier(expr.expression) && REQUEST_ROOTS.includes(expr.expression.text)) {
+            return expr.getText(sf);
+        }
+    }
+    if (ts.isCallExpression(expr)) {
+        const callee = expr.expression;
+        if (ts.isIdentifier(callee) && SOURCE_HOOKS.includes(callee.text)) return `${callee.text}()`;
+        if (ts.isPropertyAccessExpression(callee)) {
+            const method = callee.name.text;
+            const root = rootIdentifier(callee.expression);
+            if (REQUEST_BODY_READERS.includes(method) && root && REQUEST_ROOTS.includes(root)) return shorten(expr.getText(sf));
+            const container = calleeName(callee.expression);
+            if ((method === 'get' || method === 'getAll') && SOURCE_CONTAINERS.includes(container)) return shorten(expr.getText(sf));
+        }
+    }
+    return null;
+}
+
+// ─── Taint Evaluation ───
+// Dönüş: { path: string[], built: boolean } | null
+// built = değer, taint'li veriyle interpolasyon/birleştirme yapılarak üretilmiş bir string
+function taintOf(expr, scope, sf) {
+    if (!expr) return null;
+
+    const label = sourceLabel(expr, sf);
+    if (label) return { path: [label], built: false };
+
+    if (ts.isIdentifier(expr)) return lookup(scope, expr.text);
+
+    if (ts.isParenthesizedExpression(expr) || ts.isAsExpression(expr) || ts.isNonNullExpression(expr) ||
+        ts.isAwaitExpression(expr) || ts.isTypeAssertionExpression(expr) || (ts.isSatisfiesExpression && ts.isSatisfiesExpression(expr))) {
+        return taintOf(expr.expression, scope, sf);
+    }
+
+    if (ts.isTemplateExpression(expr)) {
+        return mergeTaints(expr.templateSpans.map(span => taintOf(span.expression, scope, sf)), 'template literal');
+    }
+
+    if (ts.isTaggedTemplateExpression(expr)) {
+        const tag = expr.tag.getText(sf);
+        if (SAFE_TAGS.includes(tag)) return null;
+        if (!ts.isTemplateExpression(expr.template)) return null;
+        return mergeTaints(expr.template.templateSpans.map(span => taintOf(span.expression, scope, sf)), `${shorten(tag, 30)}\`…\``);
+    }
+
+    if (ts.isBinaryExpression(expr)) {
+        const op = expr.operatorToken.kind;
+        if (op === ts.SyntaxKind.PlusToken) {
+            return mergeTaints([taintOf(expr.left, scope, sf), taintOf(expr.right, scope, sf)], t('sql.concat'));
+        }
+        if (op === ts.SyntaxKind.BarBarToken || op === ts.SyntaxKind.QuestionQuestionToken) {
+            return taintOf(expr.left, scope, sf) || taintOf(expr.right, scope, sf);
+        }
+        return null;
+    }
+
+    if (ts.isConditionalExpression(expr)) {
+        return taintOf(expr.whenTrue, scope, sf) || taintOf(expr.whenFalse, scope, sf);
+    }
+
+    if (ts.isArrayLiteralExpression(expr)) {
+        for (const element of expr.elements) {
+            const t = taintOf(ts.isSpreadElement(element) ? element.expression : element, scope, sf);
+            if (t) return t;
+        }
+        return null;
+    }
+
+    if (ts.isPropertyAccessExpression(expr) || ts.isElementAccessExpression(expr)) {
+        if (ts.isPropertyAccessExpression(expr) && ['length', 'size'].includes(expr.name.text)) return null;
+        return taintOf(expr.expression, scope, sf);
+    }
+
+    if (ts.isCallExpression(expr)) {
+        const callee = expr.expression;
+        const name = calleeName(callee);
+        if (SANITIZERS.includes(name)) return null;
+        if (ts.isIdentifier(callee) && (name === 'String' || name === 'decodeURIComponent')) {
+            return taintOf(expr.arguments[0], scope, sf);
+        }
+        if (ts.isPropertyAccessExpression(callee)) {
+            if (callee.getText(sf) === 'JSON.stringify') return taintOf(expr.arguments[0], scope, sf);
+            if (PASSTHROUGH_METHODS.includes(name)) {
+                const receiver = taintOf(callee.expression, scope, sf);
+                if (receiver) return receiver;
+                // "a".concat(x), [a, b].join(' ')
+                if (name === 'concat') return mergeTaints(expr.arguments.map(a => taintOf(a, scope, sf)), '.concat()');
+            }
+        }
+        return null;
+    }
+
+    return null;
+}
+
+// ─── Sink Detection ───
+// .filter()/.or() çağrısının dizi metodu değil Supabase sorgu zinciri olduğunu doğrular
+function isQueryBuilderChain(expr, sf) {
+    let current = expr;
+    while (current) {
+        if (ts.isCallExpression(current)) {
+            const method = calleeName(current.expression);
+            if (['from', 'select', 'rpc', 'update', 'delete', 'upsert', 'insert'].includes(method)) return true;
+            current = current.expression;
+        } else if (ts.isPropertyAccessExpression(current) || ts.isParenthesizedExpression(current) || ts.isAwaitExpression(current)) {
+            current = current.expression;
+        } else if (ts.isIdentifier(current)) {
+            return /supabase|query|builder/i.test(current.text);
+        } else {
+            return false;
+        }
+    }
+    return false;
+}
+
+function findSinkFlows(call, scope, sf) {
+    const callee = call.expression;
+    if (!ts.isPropertyAccessExpression(callee)) return [];
+    const method = callee.name.text;
+    const args = call.arguments;
+    const flows = [];
+
+    const check = (rule, arg, requireBuilt = false) => {
+        const taint = taintOf(arg, scope, sf);
+        if (taint && (!requireBuilt || taint.built)) flows.push({ rule, taint });
+    };
+
+    if (RAW_UNSAFE_METHODS.includes(method)) {
+        check('raw-unsafe', args[0]);
+    } else if (KNEX_RAW_METHODS.includes(method)) {
+        check('knex-raw', args[0]);
+    } else if (RAW_QUERY_METHODS.includes(method)) {
+        // client.query(text, values) — sadece sorgu metni kontrol edilir; values dizisi parametrelidir
+        if (args[0] && !ts.isObjectLiteralExpression(args[0])) check('raw-query', args[0]);
+    } else if (method === 'rpc') {
+        check('rpc', args[0]);
+        const params = args[1];
+        if (params && ts.isObjectLiteralExpression(params)) {
+            for (const prop of params.properties) {
+                if (ts.isPropertyAssignment(prop)) check('rpc', prop.initializer, true);
+                else if (ts.isShorthandPropertyAssignment(prop)) check('rpc', prop.name, true);
+            }
+        } else if (params) {
+            check('rpc', params, true);
+        }
+    } else if (FILTER_METHODS.includes(method) && isQueryBuilderChain(callee.expression, sf)) {
+        if (method === 'or' || method === 'and') {
+            check('filter', args[0]);
+        } else {
+            // .filter(column, operator, value) — kolon/operatör kullanıcıdan gelmemeli, değer string olarak inşa edilmemeli
+            check('filter', args[0]);
+            check('filter', args[1]);
+            check('filter', args[2], true);
+        }
+    }
+    return flows;
+}
+
+// ─── Analyzer ───
+function isFunctionLike(node) {
+    return ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node) ||
+        ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node) || ts.isGetAccessorDeclaration(node) ||
+        ts.isSetAccessorDeclaration(node);
+}
+
+/**
+ * Tek bir dosyayı analiz eder ve kaynak → sink akışlarını döndürür.
+ * Fonksiyon içi (intra-procedural) akış takibi yapar; fonksiyon parametreleri kaynak kabul edilir.
+ */
+function analyzeSource(fileName, content) {
+    const sf = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, scriptKindFor(fileName));
+    const findings = [];
+
+    const visit = (node, scope) => {
+        if (isFunctionLike(node)) {
+            const fnScope = createScope(scope);
+            for (const param of node.parameters) {
+                bindName(fnScope, param.name, { path: [t('sql.functionArgument')], built: false });
+            }
+            if (node.body) visit(node.body, fnScope);
+            return;
+        }
+
+        if (ts.isVariableDeclaration(node)) {
+            if (node.initializer) visit(node.initializer, scope);
+            bindName(scope, node.name, node.initializer ? taintOf(node.initializer, scope, sf) : null);
+            return;
+        }
+
+        if (ts.isBinaryExpression(node) && ts.isIdentifier(node.left)) {
+            const op = node.operatorToken.kind;
+            if (op === ts.SyntaxKind.EqualsToken || op === ts.SyntaxKind.PlusEqualsToken) {
+                visit(node.right, scope);
+                const right = taintOf(node.right, scope, sf);
+                const current = lookup(scope, node.left.text);
+                let next = right;
+                if (op === ts.SyntaxKind.PlusEqualsToken) next = mergeTaints([current, right], t('sql.appendConcat'));
+                // Değişkenin tanımlandığı scope'u güncelle
+                let target = scope;
+                for (let s = scope; s; s = s.parent) {
+                    if (s.vars.has(node.left.text)) { target = s; break; }
+                }
+                target.vars.set(node.left.text, next ? withStep(next, node.left.text) : null);
+                return;
+            }
+        }
+
+        if (ts.isCallExpression(node)) {
+            for (const flow of findSinkFlows(node, scope, sf)) {
+                const sink = `${shorten(node.expression.getText(sf), 50)}()`;
+                const start = sf.getLineAndCharacterOfPosition(node.getStart(sf));
+                findings.push({
+                    rule: flow.rule,
+                    label: t(`sql.sinks.${flow.rule}`),
+                    line: start.line + 1,
+                    path: [...flow.taint.path, sink],
+                    sink,
+                    code: shorten(node.getText(sf), 120),
+                });
+            }
+        }
+
+        ts.forEachChild(node, child => visit(child, scope));
+    };
+
+    visit(sf, createScope(null));
+    return findings;
+}
+
+module.exports = {
+    SAFE_TAGS,
+    SINK_RULES,
+    analyzeSource,
+};
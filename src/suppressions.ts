@@ -0,0 +1,175 @@
+const path = require('path');
+const fs = require('fs');
+const crypto = require('crypto');
+const { readSource } = require('./source-reader');
+const { t } = require('./i18n');
+
+const BASELINE_FILE = '.vibe-sec-baseline.json';
+const SEVERITY_ORDER = { critical: 0, warning: 1, info: 2 };
+
+// // vibe-sec-ignore-next-line sql-injection/raw-sql-tpl, api-key -- sebep
+// {/* vibe-sec-ignore-next-line api-key/openai -- sebep */}
+// -- vibe-sec-ignore-next-line rls-check/no-policy -- sebep   (migration .sql dosyaları)
+const CODE_IGNORE = /(?:\/\/|\/\*|--)\s*vibe-sec-ignore-next-line\b(.*)$/;
+// # vibe-sec-ignore secret-leak -- sebep   (satır üstünde veya satır sonunda)
+const ENV_IGNORE = /#\s*vibe-sec-ignore\b(.*)$/;
+
+// ─── Directive Parser ───
+// "rule-a, rule-b -- sebep */" → { rules: ['rule-a', 'rule-b'], reason: 'sebep' }
+function parseDirective(rest) {
+    const body = rest.replace(/\*\/.*$/, '').trim();
+    const sep = body.indexOf('--');
+    const rulePart = sep === -1 ? body : body.substring(0, sep);
+    const reason = sep === -1 ? '' : body.substring(sep + 2).trim();
+    const rules = rulePart.split(/[\s,]+/).filter(Boolean);
+    return { rules, reason };
+}
+
+// Kural eşleşmesi: tam ruleId, kategori öneki (sql-injection → sql-injection/*) veya kural verilmemişse hepsi
+function directiveMatches(directive, issue) {
+    if (directive.rules.length === 0 || directive.rules.includes('*')) return true;
+    const ruleId = issue.ruleId || issue.category;
+    return directive.rules.some(r => r === ruleId || r === issue.category || ruleId.startsWith(`${r}/`));
+}
+
+function isEnvFile(file) {
+    return /(^|[\\/])\.env(\.|$)/.test(file);
+}
+
+function findDirective(lines, lineNo, envFile) {
+    const current = lines[lineNo - 1];
+    const previous = lineNo >= 2 ? lines[lineNo - 2] : undefined;
+    if (envFile) {
+        const inline = current !== undefined ? ENV_IGNORE.exec(current) : null;
+        if (inline) return parseDirective(inline[1]);
+        const above = previous !== undefined && previous.trim().startsWith('#') ? ENV_IGNORE.exec(previous) : null;
+        return above ? parseDirective(above[1]) : null;
+    }
+    const above = previous !== undefined ? CODE_IGNORE.exec(previous) : null;
+    return above ? parseDirective(above[1]) : null;
+}
+
+// ─── Inline Suppressions ───
+function applySuppressions(issues, projectRoot) {
+    const kept = [];
+    const suppressed = [];
+    const cache = new Map();
+
+    const readLines = (file) => {
+        if (!cache.has(file)) {
+            try {
+                cache.set(file, readSource(path.join(projectRoot, file)).split(/\r?\n/));
+            } catch {
+                cache.set(file, null);
+            }
+        }
+        return cache.get(file);
+    };
+
+    for (const issue of issues) {
+        if (!issue.file || !issue.line) { kept.push(issue); continue; }
+        const lines = readLines(issue.file);
+        const directive = lines ? findDirective(lines, issue.line, isEnvFile(issue.file)) : null;
+        if (directive && directiveMatches(directive, issue)) {
+            suppressed.push({ ...issue, suppression: { kind: 'inline', reason: directive.reason } });
+        } else {
+            kept.push(issue);
+        }
+    }
+    return { kept, suppressed };
+}
+
+// ─── Fingerprints ───
+// Satır numarası fingerprint'e dahil değildir; kod yukarı/aşağı kaydığında aynı kalır.
+// Sadece dilden bağımsız alanlar kullanılır (başlık ve çevrilen bağlamlar değil); baseline --lang değişince de geçerli kalır.
+function fingerprintIssue(issue) {
+    const raw = issue.stableContext ?? issue.context;
+    const detail = raw ? raw.replace(/\s+/g, ' ').trim() : '';
+    const subject = [issue.object, issue.route, issue.pattern, Array.isArray(issue.chain) ? issue.chain.join(' → ') : issue.chain];
+    const anchor = [issue.key, issue.table, detail].filter(Boolean).join('|') || subject.filter(Boolean).join('|');
+    const material = [issue.ruleId || issue.category, (issue.file || '').replace(/\\/g, '/'), anchor].join('|');
+    return crypto.createHash('sha256').update(material).digest('hex').substring(0, 16);
+}
+
+/**
+ * Aynı (kural, dosya, bağlam) bulgularına satır sırasına göre tekrar numarası verir: ilk tekrar fingerprintIssue ile aynıdır,
+ * sonrakiler "#n" ekiyle ayrışır. Aynı satırdaki bulgular aynı tekrar sayılır (farklı tarayıcıların aynı bulgusu).
+ * Diff kapsamı ve suppression filtrelerinden önce çağrılmalıdır; aksi halde numaralar filtrelenen satırlara göre kayar.
+ * Dönüş: fingerprint alanı dolu bulgular (önceden fingerprint'i olanlar değişmez)
+ */
+function assignFingerprints(issues) {
+    const bases = issues.map(issue => (issue.fingerprint ? null : fingerprintIssue(issue)));
+    const linesByBase = new Map();
+    issues.forEach((issue, index) => {
+        if (!bases[index]) return;
+        if (!linesByBase.has(bases[index])) linesByBase.set(bases[index], new Set());
+        linesByBase.get(bases[index]).add(issue.line || 0);
+    });
+    return issues.map((issue, index) => {
+        const base = bases[index];
+        if (!base) return issue;
+        const occurrence = [...linesByBase.get(base)].sort((a, b) => a - b).indexOf(issue.line || 0);
+        const fingerprint = occurrence === 0 ? base : crypto.createHash('sha256').update(`${base}#${occurrence}`).digest('hex').substring(0, 16);
+        return { ...issue, fingerprint };
+    });
+}
+
+// Aynı fingerprint'e sahip bulgulardan en yüksek önem derecelisini tutar
+function dedupeIssues(issues) {
+    const byFingerprint = new Map();
+    for (const issue of assignFingerprints(issues)) {
+        const fingerprint = issue.fingerprint;
+        const existing = byFingerprint.get(fingerprint);
+        if (!existing || (SEVERITY_ORDER[issue.severity] ?? 2) < (SEVERITY_ORDER[existing.severity] ?? 2)) {
+            byFingerprint.set(fingerprint, { ...issue, fingerprint });
+        }
+    }
+    return [...byFingerprint.values()];
+}
+
+// ─── Baseline ───
+function loadBaseline(projectRoot) {
+    const baselinePath = path.join(projectRoot, BASELINE_FILE);
+    if (!fs.existsSync(baselinePath)) return null;
+    try {
+        const data = JSON.parse(fs.readFileSync(baselinePath, 'utf-8'));
+        return new Set((data.issues || []).map(i => i.fingerprint));
+    } catch (err) {
+        throw new Error(t('baseline.unreadable', { file: BASELINE_FILE, error: err.message }));
+    }
+}
+
+function writeBaseline(projectRoot, issues) {
+    const data = {
+        version: 1,
+        generatedAt: new Date().toISOString(),
+        issues: issues
+            .map(i => ({ fingerprint: i.fingerprint, ruleId: i.ruleId || i.category, severity: i.severity, file: i.file, title: i.title }))
+            .sort((a, b) => a.fingerprint.localeCompare(b.fingerprint)),
+    };
+    const baselinePath = path.join(projectRoot, BASELINE_FILE);
+    fs.writeFileSync(baselinePath, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+    return baselinePath;
+}
+
+function filterBaseline(issues, baseline) {
+    if (!baseline) return { fresh: issues, known: [] };
+    const fresh = [];
+    const known = [];
+    for (const issue of issues) {
+        (baseline.has(issue.fingerprint) ? known : fresh).push(issue);
+    }
+    return { fresh, known };
+}
+
+module.exports = {
+    BASELINE_FILE,
+    parseDirective,
+    applySuppressions,
+    fingerprintIssue,
+    assignFingerprints,
+    dedupeIssues,
+    loadBaseline,
+    writeBaseline,
+    filterBaseline,
+};
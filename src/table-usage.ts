@@ -0,0 +1,119 @@
+// ─── Table Usage Cross-Reference ───
+// Kod içindeki .from('tablo') çağrıları ile veritabanı / migration RLS durumunu birleştirir.
+const { t, ruleText } = require('./i18n');
+const { fingerprintIssue } = require('./suppressions');
+
+const ESCALATION = { info: 'info', warning: 'critical', critical: 'critical' };
+// Sadece tablo ile ilgili güvenlik bulguları çağrı noktasına taşınır
+const SKIP_RULES = ['rls-check/ok', 'rls-check/missing-command'];
+
+function formatUsage(usage) {
+    return `${usage.file}:${usage.line}${usage.client ? ' (client)' : ''}`;
+}
+
+// Fingerprint taşımadan önceki konumdan hesaplanır; çağrı noktası eklenip taşındığında baseline / ignore geçerli kalır
+function anchored(issue) {
+    return issue.fingerprint ? issue : { ...issue, fingerprint: fingerprintIssue(issue) };
+}
+
+// İstemci kullanımları önce gelir
+function sortUsages(usages) {
+    return [...usages].sort((a, b) => Number(b.client) - Number(a.client));
+}
+
+/**
+ * rlsIssues: scanRLS / scanRLSOffline bulguları
+ * dbTables: Map<table, definitionLocations[]> — veritabanında bilinen tablolar
+ * codeTables: Map<table, [{ file, line, context, client }]> — findSupabaseFromCalls çıktısı
+ * dbAvailable: tablo listesi güvenilir şekilde okunabildi mi (bağlantı hatası yoksa true)
+ * relations: view / materialized view / foreign table adları — bilinmeyen tablo sayılmaz
+ */
+function crossReferenceTables(rlsIssues, dbTables, codeTables, options: { whitelisted?: string[]; dbAvailable?: boolean; relations?: Set<string> } = {}) {
+    const whitelisted = options.whitelisted || [];
+    const relations = options.relations || new Set();
+    const issues = [];
+
+    for (const issue of rlsIssues) {
+        const usages = issue.table ? codeTables.get(issue.table) : null;
+        if (!usages || usages.length === 0 || SKIP_RULES.includes(issue.ruleId)) {
+            issues.push(issue);
+            continue;
+        }
+
+        const sorted = sortUsages(usages);
+        const clientUsages = sorted.filter(u => u.client);
+        const first = sorted[0];
+        const adjusted = {
+            ...anchored(issue),
+            file: first.file,
+            line: first.line,
+            usages: sorted.map(formatUsage),
+        };
+
+        if (clientUsages.length > 0) {
+            adjusted.severity = ESCALATION[issue.severity] || issue.severity;
+            adjusted.message = `${issue.message} ${t('tableUsage.client', { usages: `${clientUsages.slice(0, 3).map(formatUsage).join(', ')}${clientUsages.length > 3 ? ` (+${clientUsages.length - 3})` : ''}` })}`;
+        } else {
+            adjusted.message = `${issue.message} ${t('tableUsage.serverOnly')}`;
+        }
+        issues.push(adjusted);
+    }
+
+    if (options.dbAvailable) {
+        // Kodda kullanılıp veritabanında olmayan tablolar
+        for (const [table, usages] of codeTables) {
+            if (dbTables.has(table) || relations.has(table) || whitelisted.includes(table)) continue;
+            const sorted = sortUsages(usages);
+            // Konum ilk çağrı noktasıdır; fingerprint sadece tabloya bağlıdır
+            issues.push({
+                severity: 'warning', category: 'rls-check', ruleId: 'rls-check/unknown-table',
+                table,
+                ...ruleText('rls-check/unknown-table', { table }),
+                file: sorted[0].file, line: sorted[0].line, context: sorted[0].context,
+                usages: sorted.map(formatUsage),
+                fingerprint: fingerprintIssue({ ruleId: 'rls-check/unknown-table', table }),
+            });
+        }
+
+        // Veritabanında olup hiçbir kodda kullanılmayan tablolar
+        for (const [table, locations] of dbTables) {
+            if (codeTables.has(table) || whitelisted.includes(table)) continue;
+            const location = locations[0] || { file: '(direct db)' };
+            issues.push({
+                severity: 'info', category: 'rls-check', ruleId: 'rls-check/unused-table',
+                table,
+                ...ruleText('rls-check/unused-table', { table }),
+                ...location,
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * db-surface bulgularındaki fonksiyonları kod içindeki .rpc('fonksiyon') çağrılarıyla birleştirir.
+ * rpcCalls: Map<fonksiyon, [{ file, line, context, client }]>
+ */
+function crossReferenceRpc(issues, rpcCalls) {
+    return issues.map(issue => {
+        const usages = issue.rpc ? rpcCalls.get(issue.rpc) : null;
+        if (!usages || usages.length === 0) return issue;
+        const sorted = sortUsages(usages);
+        const clientUsages = sorted.filter(u => u.client);
+        return {
+            ...anchored(issue),
+            file: sorted[0].file,
+            line: sorted[0].line,
+            usages: sorted.map(formatUsage),
+            severity: clientUsages.length > 0 && issue.ruleId === 'db-surface/definer-function' ? ESCALATION[issue.severity] : issue.severity,
+            message: `${issue.message} ${t('tableUsage.rpc', { rpc: issue.rpc, usages: `${sorted.slice(0, 3).map(formatUsage).join(', ')}${sorted.length > 3 ? ` (+${sorted.length - 3})` : ''}` })}`,
+        };
+    });
+}
+
+module.exports = {
+    crossReferenceTables,
+    crossReferenceRpc,
+    formatUsage,
+};
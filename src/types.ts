@@ -0,0 +1,427 @@
+// ============================================================
+// 🛡️ Vibe Security — Genel Tipler
+// ============================================================
+// Programatik API (index.ts) ve vibe-security.config.* dosyaları için:
+//   /** @type {import('vibe-security').VibeSecurityConfig} */
+// ============================================================
+
+import type { Node, SourceFile } from 'typescript';
+
+export type Severity = 'critical' | 'warning' | 'info';
+
+// ─── Issue ───
+export interface Issue {
+    severity: Severity;
+    category: string;
+    ruleId: string;
+    title: string;
+    message: string;
+    /** Proje köküne göre dosya yolu; veritabanı bulgularında "(direct db)", "(rls:test)" gibi sözde konumlar */
+    file?: string;
+    line?: number;
+    context?: string;
+    /** context çevrilmiş metin içeriyorsa fingerprint için kullanılan dilden bağımsız karşılığı */
+    stableContext?: string;
+    fix?: string;
+    /** suppressions.ts tarafından dosya / kural / bağlam üzerinden hesaplanır */
+    fingerprint?: string;
+    /** .env anahtarı (NEXT_PUBLIC_* bulguları) */
+    key?: string;
+    table?: string;
+    /** db-surface bulgularında view / fonksiyon / bucket / şema adı */
+    object?: string;
+    route?: string;
+    /** İstemci bundle'ına giren import zinciri ("use client" → ... → modül) */
+    chain?: string[];
+    usages?: string[];
+    [extra: string]: unknown;
+}
+
+// ─── Config ───
+export interface SensitivePattern {
+    pattern: string;
+    severity: Severity;
+    message?: string;
+}
+
+export interface SecretScannerConfig {
+    envFiles?: string[];
+    sensitivePatterns?: SensitivePattern[];
+}
+
+export interface RLSScannerConfig {
+    enabled?: boolean;
+    scanDirs?: string[];
+    extensions?: string[];
+    excludeDirs?: string[];
+    supabaseUrl?: string;
+    supabaseServiceRoleKey?: string;
+    whitelistedTables?: string[];
+    /** public dışında PostgREST'e açık şemalar */
+    exposedSchemas?: string[];
+}
+
+export interface RLSTesterConfig {
+    databaseUrl?: string;
+    allowedHosts?: string[];
+}
+
+export interface GitScannerConfig {
+    history?: boolean;
+    maxCommits?: number;
+}
+
+export interface AuthGuardConfig {
+    enabled?: boolean;
+    guards?: string[];
+    publicRoutes?: string[];
+}
+
+/** next.config.* / middleware.ts / vercel.json güvenlik başlıkları ve riskli Next.js ayarları (next-config.ts) */
+export interface NextConfigAuditConfig {
+    /** false ise denetim çalışmaz (varsayılan true) */
+    enabled?: boolean;
+    /** CDN / reverse proxy tarafından eklendiği için eksik sayılmayacak başlıklar, ör. ['Strict-Transport-Security'] */
+    externalHeaders?: string[];
+}
+
+/** supabase/functions altındaki Deno Edge Function'lar ve supabase/config.toml (edge-functions.ts) */
+export interface EdgeFunctionsConfig {
+    /** false ise denetim çalışmaz (varsayılan true) */
+    enabled?: boolean;
+    /** Fonksiyon dizini (varsayılan 'supabase/functions') */
+    dir?: string;
+    /** Çağıranı doğrulayan ek fonksiyon adları; verify_jwt = false fonksiyonlarda aranır */
+    guards?: string[];
+}
+
+/** React bileşenlerinde XSS / open redirect akış analizi (xss-analyzer.ts) */
+export interface XSSScannerConfig {
+    /** Varsayılanlara (DOMPurify.sanitize, sanitizeHtml, filterXSS, encodeURIComponent...) ek sanitizer / URL allowlist yardımcı adları */
+    sanitizers?: string[];
+}
+
+export interface ReporterConfig {
+    terminal?: boolean;
+    browserOverlay?: boolean;
+    overlayAutoCloseMs?: number;
+    soundAlert?: boolean;
+    overlayPort?: number;
+    /** 'vscode' | 'cursor' | 'windsurf' | 'zed' | 'webstorm' ya da {file}/{line} içeren URL şablonu */
+    editor?: string;
+}
+
+export interface WatcherConfig {
+    debounceMs?: number;
+    additionalWatchPatterns?: string[];
+}
+
+/** CLI taramalarının .vibe-sec/history.jsonl kaydı (diff modu ve izleme modundaki artımlı taramalar hariç) */
+export interface HistoryConfig {
+    /** false ise geçmiş yazılmaz; report --html trend göstermez (varsayılan true) */
+    enabled?: boolean;
+    /** Dosyada tutulan en fazla çalıştırma sayısı (varsayılan 500) */
+    maxRuns?: number;
+}
+
+/** Özel kural; alanların tamamı için bkz. rule-engine.ts */
+export interface RuleConfig {
+    id: string;
+    enabled?: boolean;
+    severity?: Severity;
+    codeSeverity?: Severity;
+    scope?: 'client' | 'server' | 'all';
+    category?: string;
+    envKeys?: (string | RegExp)[];
+    codePatterns?: (string | RegExp)[];
+    files?: string | string[];
+    title?: string | ((match: RuleMatch) => string);
+    message?: string | ((match: RuleMatch) => string);
+    fix?: string | ((match: RuleMatch) => string);
+    visitor?: (node: Node, ctx: RuleContext) => void;
+    analyze?: (ctx: RuleContext) => void;
+}
+
+/** ctx.report() argümanı; title / message / fix şablonları da bunu alır */
+export interface RuleMatch {
+    line?: number;
+    /** line verilmezse satır bu düğümden hesaplanır (visitor kuralları) */
+    node?: Node;
+    context?: string;
+    /** context çevrilmiş metin içeriyorsa fingerprint için dilden bağımsız karşılığı */
+    stableContext?: string;
+    /** Kuralın severity / codeSeverity değerini bu eşleşme için ezer */
+    severity?: Severity;
+    key?: string;
+    match?: string;
+    file?: string;
+    kind?: 'env' | 'code';
+    [param: string]: unknown;
+}
+
+/** visitor / analyze kurallarına dosya başına verilen bağlam (rule-engine.ts runFileRules) */
+export interface RuleContext {
+    ts: typeof import('typescript');
+    /** Mutlak yol */
+    filePath: string;
+    /** Proje köküne göre yol */
+    file: string;
+    content: string;
+    lines: string[];
+    /** Dosya istemci bundle'ına giriyor mu */
+    client: boolean;
+    /** İlk erişimde oluşturulur */
+    readonly sourceFile: SourceFile;
+    /** Aynı dosyada birden çok kuralın paylaştığı pahalı analizler için */
+    cached<T>(key: string, compute: () => T): T;
+    report(match: RuleMatch): void;
+}
+
+/** loadRules çıktısı: varsayılanları doldurulmuş ve eşleyicileri derlenmiş kural */
+export interface LoadedRule extends RuleConfig {
+    severity: Severity;
+    scope: 'client' | 'server' | 'all';
+    category: string;
+    /** 'yerleşik', 'config', plugin adı ya da birleşimleri ("yerleşik + config") */
+    source: string;
+    envMatchers: RegExp[];
+    codeMatchers: RegExp[];
+    fileMatchers: ((rel: string) => boolean)[] | null;
+}
+
+// ─── Messages ───
+export type Locale = 'tr' | 'en';
+export type MessageParams = Record<string, unknown>;
+export type MessageTemplate = string | ((params: MessageParams) => string);
+
+/** Noktalı anahtarlarla okunan iç içe metinler, ör. t('rlsTest.missing') */
+export interface MessageTree {
+    [key: string]: MessageTemplate | MessageTree;
+}
+
+/** locales/tr.ts ile aynı şekil; rules kural ID'sine göre, diğer bölümler noktalı anahtarlarla okunur */
+export interface MessageCatalog {
+    rules?: Record<string, { title?: MessageTemplate; message?: MessageTemplate; fix?: MessageTemplate }>;
+    [section: string]: MessageTemplate | MessageTree;
+}
+
+export interface VibeSecurityConfig {
+    /** Sadece CLI ve izleme modu için; programatik scan() bu alanı yok sayar */
+    enabled?: boolean;
+    /** Bulgu, terminal ve vibe-summary.txt dili (varsayılan 'tr'); CLI'da --lang önceliklidir */
+    locale?: Locale;
+    /** Dil koduna göre ek / düzeltilmiş çeviriler, ör. { en: { rules: { 'acme/no-eval': { title: '...' } } } } */
+    messages?: Record<string, MessageCatalog>;
+    secretScanner?: SecretScannerConfig;
+    rlsScanner?: RLSScannerConfig;
+    rlsTester?: RLSTesterConfig;
+    gitScanner?: GitScannerConfig;
+    authGuard?: AuthGuardConfig;
+    nextConfig?: NextConfigAuditConfig;
+    edgeFunctions?: EdgeFunctionsConfig;
+    xssScanner?: XSSScannerConfig;
+    rules?: RuleConfig[];
+    plugins?: string[];
+    reporter?: ReporterConfig;
+    watcher?: WatcherConfig;
+    history?: HistoryConfig;
+}
+
+// ─── Scan ───
+export interface ScanOptions {
+    /** Varsayılan: process.cwd() */
+    projectRoot?: string;
+    /** Verilmezse projectRoot altındaki vibe-security.config.* / package.json#vibeSec okunur */
+    config?: VibeSecurityConfig;
+    /** RLS'i veritabanı yerine supabase/migrations/*.sql'den denetler */
+    offline?: boolean;
+    /** .next/static bundle'larını ve source map'leri tarar */
+    build?: boolean;
+    /**
+     * Ref verilirse sadece ref'ten (ortak atadan) bu yana değişen dosyalar taranır ve sadece değişen satırlardaki
+     * bulgular raporlanır; tarih verilirse sadece git geçmişi taramasını sınırlar
+     */
+    since?: string;
+    /** Sadece stage edilmiş değişiklikler; dosyalar çalışma ağacından değil git index'inden okunur */
+    staged?: boolean;
+    /** Bulgu metinlerinin dili; verilmezse config.locale, o da yoksa aktif dil */
+    locale?: string;
+    /** false ise .vibe-sec-baseline.json yok sayılır (varsayılan true) */
+    baseline?: boolean;
+    /** İzleme modunda taramalar arası önbellek (scan-cache.ts createScanSession) */
+    session?: ScanSession;
+}
+
+/** Kodda .from('tablo') çağrısı (scanner.ts findSupabaseFromCalls) */
+export interface TableUsage {
+    file: string;
+    line: number;
+    context: string;
+    /** Çağrı istemci bundle'ına giren bir dosyada */
+    client: boolean;
+}
+
+/** Tablonun sütunları ve public şemaya giden foreign key'leri (rls-recipes.ts sahiplik tahmini) */
+export interface TableSchema {
+    columns: { name: string; type: string }[];
+    foreignKeys: { column: string; refSchema: string; refTable: string; refColumn: string }[];
+}
+
+/** scanRLS / scanRLSOffline dönüşü */
+export interface TableState {
+    issues: Issue[];
+    /** Tablo → migration'daki tanım konumları (canlı veritabanında boş) */
+    filteredTables: Map<string, { file: string; line?: number }[]>;
+    /** View / materialized view / foreign table adları; RLS analizi yapılmaz, bilinmeyen tablo sayılmaz */
+    relations: Set<string>;
+    schemas: Map<string, TableSchema>;
+}
+
+/** Modül başına import ve sunucuya özel kullanım kanıtları (module-graph.ts parseModule) */
+export interface ModuleInfo {
+    directive: 'client' | 'server' | null;
+    imports: { specifier: string; line: number }[];
+    evidence: { reason: 'node-module' | 'service-role' | 'server-env'; line: number; detail: string }[];
+    /** import 'server-only' */
+    guarded: boolean;
+}
+
+/** scanGitHygiene dönüşü */
+export interface GitHygieneResult {
+    issues: Issue[];
+    repo: boolean;
+    historyScanned: boolean;
+}
+
+/**
+ * Taramalar arasında korunan durum; alanların açıklaması için bkz. scan-cache.ts createScanSession.
+ * rls / git null ise bir sonraki taramada yeniden okunur.
+ */
+export interface ScanSession {
+    files: Map<string, { hash: string; issues: Issue[]; tables: Map<string, TableUsage[]> }>;
+    rls: (TableState & { mode: 'db' | 'offline'; fallback: boolean }) | null;
+    rlsKey: string | null;
+    git: GitHygieneResult | null;
+    graph: Map<string, { hash: string; info: ModuleInfo }>;
+    previous: Issue[] | null;
+}
+
+export interface RouteInfo {
+    kind: string;
+    method: string;
+    route: string;
+    file: string;
+    line: number;
+    status: 'guarded' | 'middleware' | 'public' | 'no-data' | 'unguarded';
+    guard?: string;
+}
+
+/** middleware.ts özeti (auth-guard.ts loadMiddleware) */
+export interface MiddlewareInfo {
+    file: string;
+    /** config.matcher kalıpları; null ise middleware tüm route'larda çalışır */
+    matchers: string[] | null;
+    /** middleware (veya import ettiği yerel modüller) kimlik doğrulama yapıyor */
+    guarded: boolean;
+    covers: (route: string) => boolean;
+}
+
+export interface EdgeFunctionInfo {
+    name: string;
+    /** Giriş dosyası (index.ts) */
+    file: string;
+    /** supabase/config.toml [functions.<ad>] verify_jwt (varsayılan true) */
+    verifyJwt: boolean;
+    /** Fonksiyonun kendisinin çağırdığı ilk doğrulama (getUser, jwtVerify, constructEvent...) */
+    guard: string | null;
+    serviceRole: boolean;
+}
+
+export interface ScanResult {
+    /** Susturma, tekrar birleştirme ve baseline filtresinden sonra kalan bulgular */
+    issues: Issue[];
+    /** vibe-sec-ignore yorumlarıyla susturulanlar */
+    suppressed: Issue[];
+    /** Baseline'da kayıtlı olduğu için gizlenenler */
+    known: Issue[];
+    routes: RouteInfo[];
+    edgeFunctions: EdgeFunctionInfo[];
+    /** Kodda .from() ile kullanılan tablolar */
+    tables: Map<string, TableUsage[]>;
+    /** Tablo / nesne başına SQL reçetesi (rls-recipes.ts) */
+    recipes: Map<string, { plan: RLSPlan; sql: string }>;
+    /** Taranan kaynak dosyalar (mutlak yollar) ve istemci bundle'ına girenler */
+    files: string[];
+    clientFiles: Set<string>;
+    stats: ScanStats;
+}
+
+export interface ScanStats {
+    files: number;
+    rescanned: number;
+    envFiles: { file: string; keys: number }[];
+    valueIssues: number;
+    rules: number;
+    ruleErrors: string[];
+    ruleCounts: Record<string, number>;
+    rls: { mode: 'db' | 'offline'; cached: boolean; fallback: boolean; tables: number; codeTables: number; surface: number } | null;
+    boundary: number;
+    authGuard: { routes: number; issues: number; middleware: MiddlewareInfo | null } | null;
+    /** file: bulunan next.config.* (yoksa null); headers: next.config / middleware / vercel.json'da ayarlanan başlık sayısı */
+    nextConfig: { file: string | null; headers: number; issues: number } | null;
+    edgeFunctions: { functions: number; noVerify: number; issues: number } | null;
+    build: { filesScanned: number; leaks: number } | null;
+    git: { repo: boolean; historyScanned: boolean; issues: number };
+    duplicates: number;
+    /** --since <ref> / --staged modunda değişiklik kapsamı; tam taramada null */
+    diff: { label: string; base: string; files: number; changed: number } | null;
+}
+
+// ─── RLS ───
+/**
+ * Tablo için seçilen politika planı (rls-recipes.ts pickOwnership).
+ * db-surface reçetelerinde kind kural adıdır ('definer-view', 'public-bucket'...).
+ */
+export interface RLSPlan {
+    kind: string;
+    /** owner: auth.uid() ile karşılaştırılan sütun; membership: üyelik tablosuna bağlanan sütun */
+    column?: string;
+    /** Sütun foreign key'den değil addan / varsayılandan tahmin edildi */
+    inferred?: boolean;
+    membershipTable?: string;
+    membershipColumn?: string;
+    memberUserColumn?: string;
+}
+
+/** rls:test içinde bir rolün başka kullanıcının satırına denediği işlem */
+export interface RLSTestOutcome {
+    persona: string;
+    role: 'authenticated' | 'anon';
+    op: 'SELECT' | 'UPDATE' | 'DELETE' | 'INSERT';
+    allowed: boolean;
+    statement: string;
+    error?: string;
+}
+
+export interface RLSTestResult {
+    table: string;
+    plan: RLSPlan;
+    outcomes: RLSTestOutcome[];
+    /** Tablo test edilemediyse nedeni */
+    skipped?: string;
+}
+
+// ─── History ───
+/** .vibe-sec/history.jsonl satırı (scan-history.ts createHistoryRecord) */
+export interface HistoryRecord {
+    timestamp: string;
+    commit: string | null;
+    branch: string | null;
+    total: number;
+    severities: Record<Severity, number>;
+    categories: Record<string, number>;
+    /** Baseline ile gizlenen bulgu sayısı (severities / categories'e dahil değildir) */
+    known: number;
+    /** fingerprint → ruleId */
+    fingerprints: Record<string, string>;
+}
@@ -0,0 +1,396 @@
+import type { XSSScannerConfig } from './types';
+const ts = require('typescript');
+const { t } = require('./i18n');
+
+// ─── Taint Kaynakları ───
+// input: URL / arama parametreleri, location, tarayıcı depolaması — saldırgan bir link ile belirleyebilir
+// remote: fetch / axios / SWR ile gelen içerik
+// argument: bileşen prop'ları ve fonksiyon parametreleri (sadece dangerouslySetInnerHTML için)
+const KIND_ORDER = ['input', 'remote', 'argument'];
+const INPUT_HOOKS = ['useSearchParams', 'useParams', 'usePathname'];
+const REMOTE_HOOKS = ['useSWR', 'useQuery', 'useSuspenseQuery', 'useFetch'];
+const REMOTE_FUNCTIONS = ['fetch', 'axios'];
+const INPUT_CONTAINERS = ['searchParams', 'params', 'query', 'urlParams', 'URLSearchParams'];
+const LOCATION_ROOTS = ['location', 'window.location', 'document.location'];
+const INPUT_GLOBALS = ['document.URL', 'document.documentURI', 'document.referrer', 'window.name', 'document.cookie'];
+const STORAGE = ['localStorage', 'sessionStorage', 'window.localStorage', 'window.sessionStorage'];
+
+// DOMPurify.sanitize, sanitize-html, xss (filterXSS), escape yardımcıları; config.xssScanner.sanitizers ile genişletilir
+const DEFAULT_SANITIZERS = ['sanitize', 'sanitizeHtml', 'sanitizeUrl', 'filterXSS', 'xss', 'escape', 'escapeHtml', 'encodeURIComponent', 'Number', 'parseInt', 'parseFloat', 'Boolean'];
+const PASSTHROUGH_METHODS = ['trim', 'trimStart', 'trimEnd', 'toLowerCase', 'toUpperCase', 'toString', 'replace', 'replaceAll', 'slice', 'substring', 'concat', 'join', 'split', 'at', 'get', 'getAll', 'then'];
+const PASSTHROUGH_FUNCTIONS = ['String', 'decodeURIComponent', 'decodeURI', 'JSON.parse', 'JSON.stringify', 'atob'];
+// Alıcının verisini callback'in ilk parametresine geçiren metotlar: fetch(u).then(r => r.text()).then(code => ...), items.map(item => ...)
+const CALLBACK_METHODS = ['then', 'map', 'flatMap', 'forEach', 'filter', 'find', 'findLast', 'some', 'every'];
+
+// ─── Sink Tanımları ───
+// Her sink bir kural: xss/<sink> (etiketler: locales/*.ts xss.sinks)
+const XSS_SINK_RULES = ['dangerous-html', 'javascript-url', 'open-redirect', 'eval'];
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formAction', 'xlinkHref'];
+const HTML_PROPERTIES = ['innerHTML', 'outerHTML'];
+const REDIRECT_FUNCTIONS = ['redirect', 'permanentRedirect'];
+const EVAL_FUNCTIONS = ['eval', 'setTimeout', 'setInterval'];
+
+function scriptKindFor(fileName) {
+    if (fileName.endsWith('.tsx')) return ts.ScriptKind.TSX;
+    if (fileName.endsWith('.jsx')) return ts.ScriptKind.JSX;
+    if (/\.[mc]?js$/.test(fileName)) return ts.ScriptKind.JS;
+    return ts.ScriptKind.TS;
+}
+
+function shorten(text, max = 60) {
+    const oneLine = text.replace(/\s+/g, ' ').trim();
+    return oneLine.length > max ? oneLine.substring(0, max - 1) + '…' : oneLine;
+}
+
+function calleeName(expr) {
+    if (ts.isIdentifier(expr)) return expr.text;
+    if (ts.isPropertyAccessExpression(expr)) return expr.name.text;
+    return '';
+}
+
+function unwrap(expr) {
+    while (expr && (ts.isParenthesizedExpression(expr) || ts.isAsExpression(expr) || ts.isNonNullExpression(expr) ||
+        ts.isAwaitExpression(expr) || ts.isTypeAssertionExpression(expr) || ts.isSatisfiesExpression(expr))) expr = expr.expression;
+    return expr;
+}
+
+// ─── Taint ───
+// { path: string[], kind, prefix } — prefix: değerin başındaki sabit metin (`/users/${id}` → '/users/')
+function withStep(taint, step) {
+    const path = taint.path[taint.path.length - 1] === step ? taint.path : [...taint.path, step];
+    return { ...taint, path };
+}
+
+function strongest(taints) {
+    return taints.filter(Boolean).sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind))[0] || null;
+}
+
+function createScope(parent) {
+    return { vars: new Map(), parent };
+}
+
+function lookup(scope, name) {
+    for (let s = scope; s; s = s.parent) {
+        if (s.vars.has(name)) return s.vars.get(name);
+    }
+    return null;
+}
+
+function bindName(scope, nameNode, taint) {
+    if (ts.isIdentifier(nameNode)) {
+        scope.vars.set(nameNode.text, taint ? withStep(taint, nameNode.text) : null);
+        return;
+    }
+    // const { data } = useSWR(...), const [html] = useState(...)
+    for (const element of nameNode.elements || []) {
+        if (ts.isOmittedExpression(element)) continue;
+        bindName(scope, element.name, taint);
+    }
+}
+
+function sourceOf(expr, sf) {
+    const text = expr.getText(sf);
+    if (ts.isCallExpression(expr)) {
+        const callee = expr.expression;
+        const name = calleeName(callee);
+        if (ts.isIdentifier(callee) && INPUT_HOOKS.includes(name)) return { kind: 'input', label: `${name}()` };
+        if (ts.isIdentifier(callee) && REMOTE_HOOKS.includes(name)) return { kind: 'remote', label: `${name}()` };
+        if (ts.isIdentifier(callee) && REMOTE_FUNCTIONS.includes(name)) return { kind: 'remote', label: shorten(text, 40) };
+        if (ts.isPropertyAccessExpression(callee)) {
+            const receiver = unwrap(callee.expression);
+            const owner = receiver.getText(sf);
+            if (REMOTE_FUNCTIONS.includes(owner)) return { kind: 'remote', label: shorten(text, 40) };
+            if (STORAGE.includes(owner) && name === 'getItem') return { kind: 'input', label: shorten(text, 40) };
+            if ((name === 'get' || name === 'getAll') && (INPUT_CONTAINERS.includes(calleeName(receiver)) || (ts.isNewExpression(receiver) && receiver.expression.getText(sf) === 'URLSearchParams'))) {
+                return { kind: 'input', label: shorten(text, 40) };
+            }
+            // await res.json() / res.text()
+            if ((name === 'json' || name === 'text') && expr.arguments.length === 0) return { kind: 'remote', label: shorten(text, 40) };
+        }
+    }
+    if (ts.isPropertyAccessExpression(expr) || ts.isElementAccessExpression(expr)) {
+        const owner = unwrap(expr.expression).getText(sf);
+        if (LOCATION_ROOTS.includes(owner) || INPUT_GLOBALS.includes(text)) return { kind: 'input', label: shorten(text, 40) };
+        // Sayfa prop'u: searchParams.next, (await searchParams).next; pages router: router.query.next
+        if (['searchParams', 'router.query'].includes(owner)) return { kind: 'input', label: shorten(text, 40) };
+    }
+    if (INPUT_GLOBALS.includes(text)) return { kind: 'input', label: text };
+    return null;
+}
+
+function taintOf(expr, scope, ctx) {
+    if (!expr) return null;
+    const { sf, sanitizers } = ctx;
+
+    const source = sourceOf(expr, sf);
+    if (source) return { path: [source.label], kind: source.kind, prefix: '' };
+
+    if (ts.isIdentifier(expr)) return lookup(scope, expr.text);
+
+    if (ts.isParenthesizedExpression(expr) || ts.isAsExpression(expr) || ts.isNonNullExpression(expr) ||
+        ts.isAwaitExpression(expr) || ts.isTypeAssertionExpression(expr) || ts.isSatisfiesExpression(expr)) {
+        return taintOf(expr.expression, scope, ctx);
+    }
+
+    if (ts.isTemplateExpression(expr)) {
+        const hit = strongest(expr.templateSpans.map(span => taintOf(span.expression, scope, ctx)));
+        return hit ? { ...withStep(hit, 'template literal'), prefix: expr.head.text } : null;
+    }
+
+    if (ts.isBinaryExpression(expr)) {
+        const op = expr.operatorToken.kind;
+        if (op === ts.SyntaxKind.PlusToken) {
+            const left = taintOf(expr.left, scope, ctx);
+            const right = taintOf(expr.right, scope, ctx);
+            if (!left && !right) return null;
+            // 'https://site.com/' + x → ön ek sabit
+            const prefix = left ? left.prefix : ts.isStringLiteralLike(expr.left) ? expr.left.text : '';
+            return { ...withStep(strongest([left, right]), t('xss.concat')), prefix };
+        }
+        if (op === ts.SyntaxKind.BarBarToken || op === ts.SyntaxKind.QuestionQuestionToken) {
+            return taintOf(expr.left, scope, ctx) || taintOf(expr.right, scope, ctx);
+        }
+        return null;
+    }
+
+    if (ts.isConditionalExpression(expr)) {
+        // isSafeUrl(next) ? next : '/'
+        const guard = guardedNames(expr.condition, ctx);
+        return strongest([
+            taintOf(expr.whenTrue, cleared(scope, guard.truthy), ctx),
+            taintOf(expr.whenFalse, cleared(scope, guard.falsy), ctx),
+        ]);
+    }
+
+    if (ts.isPropertyAccessExpression(expr) || ts.isElementAccessExpression(expr)) {
+        if (ts.isPropertyAccessExpression(expr) && ['length', 'size'].includes(expr.name.text)) return null;
+        return taintOf(expr.expression, scope, ctx);
+    }
+
+    if (ts.isCallExpression(expr)) {
+        const callee = expr.expression;
+        const name = calleeName(callee);
+        if (sanitizers.includes(name) || sanitizers.includes(callee.getText(sf))) return null;
+        if (PASSTHROUGH_FUNCTIONS.includes(callee.getText(sf))) return taintOf(expr.arguments[0], scope, ctx);
+        if (ts.isPropertyAccessExpression(callee) && PASSTHROUGH_METHODS.includes(name)) {
+            return taintOf(callee.expression, scope, ctx);
+        }
+        return null;
+    }
+
+    return null;
+}
+
+// ─── Guards ───
+// Koşul doğruyken (truthy) / yanlışken (falsy) doğrulanmış sayılan değişkenler: isSafe(x), !isSafe(x), a && b, a || b
+function guardedNames(expr, ctx) {
+    expr = unwrap(expr);
+    if (ts.isPrefixUnaryExpression(expr) && expr.operator === ts.SyntaxKind.ExclamationToken) {
+        const inner = guardedNames(expr.operand, ctx);
+        return { truthy: inner.falsy, falsy: inner.truthy };
+    }
+    if (ts.isBinaryExpression(expr)) {
+        const left = guardedNames(expr.left, ctx);
+        const right = guardedNames(expr.right, ctx);
+        if (expr.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken) return { truthy: [...left.truthy, ...right.truthy], falsy: [] };
+        if (expr.operatorToken.kind === ts.SyntaxKind.BarBarToken) return { truthy: [], falsy: [...left.falsy, ...right.falsy] };
+    }
+    if (ts.isCallExpression(expr) && ctx.sanitizers.includes(calleeName(expr.expression))) {
+        const arg = expr.arguments[0] && unwrap(expr.arguments[0]);
+        if (arg && ts.isIdentifier(arg)) return { truthy: [arg.text], falsy: [] };
+    }
+    return { truthy: [], falsy: [] };
+}
+
+// Verilen değişkenleri temiz sayan alt kapsam
+function cleared(scope, names) {
+    if (names.length === 0) return scope;
+    const child = createScope(scope);
+    for (const name of names) child.vars.set(name, null);
+    return child;
+}
+
+// return / throw ile biten dal; if (!isSafe(x)) return; sonrasında x doğrulanmıştır
+function exits(statement) {
+    if (!statement) return false;
+    if (ts.isReturnStatement(statement) || ts.isThrowStatement(statement) || ts.isContinueStatement(statement) || ts.isBreakStatement(statement)) return true;
+    if (ts.isBlock(statement)) return exits(statement.statements[statement.statements.length - 1]);
+    if (ts.isIfStatement(statement)) return exits(statement.thenStatement) && exits(statement.elseStatement);
+    return false;
+}
+
+// javascript: ancak değerin başında kontrol edilebilir; sabit bir şema veya yol ön eki varsa URL güvenlidir
+function hasSafeUrlPrefix(taint) {
+    return /^(?:https?:\/\/[^/]+\/|\/[^/\\]|[.#?]|mailto:|tel:)/i.test(taint.prefix || '');
+}
+
+// ─── Sink Detection ───
+function jsxAttributeSink(node) {
+    const name = node.name.getText();
+    if (name === 'dangerouslySetInnerHTML') {
+        const value = node.initializer && ts.isJsxExpression(node.initializer) ? unwrap(node.initializer.expression) : null;
+        if (value && ts.isObjectLiteralExpression(value)) {
+            const html = value.properties.find(p => p.name && p.name.getText() === '__html');
+            if (html && ts.isPropertyAssignment(html)) return { rule: 'dangerous-html', expr: html.initializer, sink: 'dangerouslySetInnerHTML' };
+            if (html && ts.isShorthandPropertyAssignment(html)) return { rule: 'dangerous-html', expr: html.name, sink: 'dangerouslySetInnerHTML' };
+        }
+        return null;
+    }
+    if (URL_ATTRIBUTES.includes(name) && node.initializer && ts.isJsxExpression(node.initializer) && node.initializer.expression) {
+        return { rule: 'javascript-url', expr: node.initializer.expression, sink: `${name}={…}` };
+    }
+    return null;
+}
+
+function isLocation(expr, sf) {
+    return LOCATION_ROOTS.includes(unwrap(expr).getText(sf));
+}
+
+function callSinks(call, sf) {
+    const callee = call.expression;
+    const name = calleeName(callee);
+    const args = call.arguments;
+    const sink = `${shorten(callee.getText(sf), 40)}()`;
+    if (ts.isIdentifier(callee)) {
+        if (REDIRECT_FUNCTIONS.includes(name)) return [{ rule: 'open-redirect', expr: args[0], sink }];
+        if (EVAL_FUNCTIONS.includes(name)) return [{ rule: 'eval', expr: args[0], sink }];
+        return [];
+    }
+    if (!ts.isPropertyAccessExpression(callee)) return [];
+    const owner = unwrap(callee.expression).getText(sf);
+    if (['push', 'replace', 'prefetch'].includes(name) && /router$/i.test(owner)) return [{ rule: 'open-redirect', expr: args[0], sink }];
+    if (name === 'redirect' && owner === 'NextResponse') return [{ rule: 'open-redirect', expr: args[0], sink }];
+    if (['assign', 'replace'].includes(name) && isLocation(callee.expression, sf)) return [{ rule: 'open-redirect', expr: args[0], sink }];
+    if (name === 'open' && owner === 'window') return [{ rule: 'open-redirect', expr: args[0], sink }];
+    if (name === 'insertAdjacentHTML') return [{ rule: 'dangerous-html', expr: args[1], sink }];
+    if (['write', 'writeln'].includes(name) && owner === 'document') return [{ rule: 'dangerous-html', expr: args[0], sink }];
+    if (EVAL_FUNCTIONS.includes(name) && owner === 'window') return [{ rule: 'eval', expr: args[0], sink }];
+    return [];
+}
+
+function assignmentSink(node, sf) {
+    const left = node.left;
+    if (ts.isPropertyAccessExpression(left) && HTML_PROPERTIES.includes(left.name.text)) return { rule: 'dangerous-html', expr: node.right, sink: `.${left.name.text} =` };
+    // window.location = x, location.href = x
+    if (LOCATION_ROOTS.includes(left.getText(sf)) || (ts.isPropertyAccessExpression(left) && left.name.text === 'href' && isLocation(left.expression, sf))) {
+        return { rule: 'open-redirect', expr: node.right, sink: `${left.getText(sf)} =` };
+    }
+    return null;
+}
+
+// Sink'e göre hangi kaynaklar raporlanır ve hangi önem derecesiyle
+function classify(rule, taint) {
+    if (rule === 'dangerous-html') return taint.kind === 'argument' ? 'warning' : 'critical';
+    if (taint.kind === 'argument') return null;
+    if (rule === 'javascript-url' || rule === 'open-redirect') return hasSafeUrlPrefix(taint) ? null : rule === 'open-redirect' ? 'warning' : taint.kind === 'input' ? 'critical' : 'warning';
+    return 'critical';
+}
+
+// ─── Analyzer ───
+function isFunctionLike(node) {
+    return ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node) ||
+        ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node) || ts.isGetAccessorDeclaration(node) ||
+        ts.isSetAccessorDeclaration(node);
+}
+
+/**
+ * Tek bir bileşen dosyasını analiz eder ve kaynak → sink akışlarını döndürür.
+ * options.sanitizers: varsayılanlara ek sanitizer / allowlist yardımcı adları.
+ * Sanitizer'ın sadece dönüş değeri temizdir; doğrulama yardımcısı yalnızca akışı koruyorsa
+ * (if (!isSafeRedirect(next)) return; veya if (isSafeRedirect(next)) { ... }) değişkeni temiz sayar.
+ */
+function analyzeSource(fileName, content, options: XSSScannerConfig = {}) {
+    const sf = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, scriptKindFor(fileName));
+    const ctx = { sf, sanitizers: [...DEFAULT_SANITIZERS, ...(options.sanitizers || [])] };
+    const findings = [];
+    // CALLBACK_METHODS çağrılarında callback → ilk parametrenin taint'i
+    const callbackTaint = new Map();
+
+    const report = (candidate, scope, node) => {
+        if (!candidate || !candidate.expr) return;
+        const taint = taintOf(candidate.expr, scope, ctx);
+        if (!taint) return;
+        const severity = classify(candidate.rule, taint);
+        if (!severity) return;
+        findings.push({
+            rule: candidate.rule,
+            severity,
+            kind: taint.kind,
+            line: sf.getLineAndCharacterOfPosition(node.getStart(sf)).line + 1,
+            source: taint.path[0],
+            path: [...taint.path, candidate.sink],
+            sink: candidate.sink,
+            code: shorten(node.getText(sf), 120),
+        });
+    };
+
+    const visit = (node, scope) => {
+        if (isFunctionLike(node)) {
+            const fnScope = createScope(scope);
+            node.parameters.forEach((param, index) => {
+                const passed = index === 0 && callbackTaint.get(node);
+                bindName(fnScope, param.name, passed || { path: [t('xss.functionArgument')], kind: 'argument', prefix: '' });
+            });
+            if (node.body) visit(node.body, fnScope);
+            return;
+        }
+
+        if (ts.isVariableDeclaration(node)) {
+            if (node.initializer) visit(node.initializer, scope);
+            bindName(scope, node.name, node.initializer ? taintOf(node.initializer, scope, ctx) : null);
+            return;
+        }
+
+        if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+            visit(node.right, scope);
+            report(assignmentSink(node, sf), scope, node);
+            if (ts.isIdentifier(node.left)) {
+                const right = taintOf(node.right, scope, ctx);
+                let target = scope;
+                for (let s = scope; s; s = s.parent) {
+                    if (s.vars.has(node.left.text)) { target = s; break; }
+                }
+                target.vars.set(node.left.text, right ? withStep(right, node.left.text) : null);
+            }
+            return;
+        }
+
+        if (ts.isIfStatement(node)) {
+            visit(node.expression, scope);
+            const guard = guardedNames(node.expression, ctx);
+            visit(node.thenStatement, cleared(scope, guard.truthy));
+            if (node.elseStatement) visit(node.elseStatement, cleared(scope, guard.falsy));
+            // Erken çıkan dal: if (!isSafe(x)) return; → devamında koşul tersine dönmüştür
+            const after = exits(node.thenStatement) ? guard.falsy : exits(node.elseStatement) ? guard.truthy : [];
+            for (const name of after) scope.vars.set(name, null);
+            return;
+        }
+
+        if (ts.isJsxAttribute(node)) report(jsxAttributeSink(node), scope, node);
+
+        if (ts.isNewExpression(node) && node.expression.getText(sf) === 'Function') {
+            for (const arg of node.arguments || []) report({ rule: 'eval', expr: arg, sink: 'new Function()' }, scope, node);
+        }
+
+        if (ts.isCallExpression(node)) {
+            for (const candidate of callSinks(node, sf)) report(candidate, scope, node);
+            const callee = node.expression;
+            if (ts.isPropertyAccessExpression(callee) && CALLBACK_METHODS.includes(callee.name.text)) {
+                const receiver = taintOf(callee.expression, scope, ctx);
+                const callback = node.arguments[0];
+                if (receiver && callback && isFunctionLike(callback)) callbackTaint.set(callback, withStep(receiver, `.${callee.name.text}()`));
+            }
+        }
+
+        ts.forEachChild(node, child => visit(child, scope));
+    };
+
+    visit(sf, createScope(null));
+    return findings;
+}
+
+module.exports = {
+    DEFAULT_SANITIZERS,
+    XSS_SINK_RULES,
+    analyzeSource,
+};
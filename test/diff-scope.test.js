@@ -0,0 +1,102 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFileSync } = require('child_process');
+const { parseChangedLines, resolveDiffScope, inDiffScope } = require('../dist/diff-scope');
+
+// Geçici depo: src/a.ts ilk commit'te 5 satır, ikinci commit'te 4. satırı değişir
+function withRepo(fn) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-sec-diff-'));
+    const git = (...args) => execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args], { cwd: dir, stdio: 'pipe' }).toString();
+    const write = (file, content) => {
+        fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+        fs.writeFileSync(path.join(dir, file), content);
+    };
+    try {
+        git('init', '-q');
+        write('src/a.ts', 'a1\na2\na3\na4\na5\n');
+        write('src/b.ts', 'b1\n');
+        git('add', '-A');
+        git('commit', '-qm', 'init');
+        return fn(dir, git, write);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+// ─── Diff Parser ───
+test('unified=0 hunk başlıkları eklenen satırlara açılır, silinen dosyalar atlanır', () => {
+    const output = [
+        'diff --git a/src/a.ts b/src/a.ts', '--- a/src/a.ts', '+++ b/src/a.ts',
+        '@@ -2 +2 @@', '-x', '+y',
+        '@@ -5,0 +6,3 @@', '+1', '+2', '+3',
+        '@@ -9,2 +11,0 @@', '-z', '-w',
+        'diff --git a/old.ts b/old.ts', '--- a/old.ts', '+++ /dev/null', '@@ -1,2 +0,0 @@',
+        'diff --git a/ç.ts b/ç.ts', '--- /dev/null', '+++ b/ç.ts', '@@ -0,0 +1 @@', '+x',
+    ].join('\n');
+    const changed = parseChangedLines(output);
+    assert.deepStrictEqual([...changed.keys()], ['src/a.ts', 'ç.ts']);
+    assert.deepStrictEqual([...changed.get('src/a.ts')], [2, 6, 7, 8]);
+    assert.deepStrictEqual([...changed.get('ç.ts')], [1]);
+});
+
+// ─── Satır Filtresi ───
+test('sadece değişen dosya ve satırlardaki bulgular kapsamda kalır', () => {
+    const scope = { changed: new Map([['src/a.ts', new Set([4])], ['src/new.ts', null]]) };
+    const keep = (issue) => inDiffScope(issue, scope);
+    assert.strictEqual(keep({ file: 'src/a.ts', line: 4 }), true);
+    assert.strictEqual(keep({ file: 'src/a.ts', line: 3 }), false);
+    assert.strictEqual(keep({ file: 'src\\a.ts', line: 4 }), true);
+    assert.strictEqual(keep({ file: 'src/a.ts' }), true);
+    assert.strictEqual(keep({ file: 'src/new.ts', line: 99 }), true);
+    assert.strictEqual(keep({ file: 'src/b.ts', line: 1 }), false);
+    assert.strictEqual(keep({ line: 1 }), false);
+});
+
+// ─── Scope ───
+test('--since ortak atadan itibaren değişen satırları ve takip edilmeyen dosyaları verir', () => {
+    withRepo((dir, git, write) => {
+        const base = git('rev-parse', 'HEAD').trim();
+        write('src/a.ts', 'a1\na2\na3\nA4\na5\n');
+        git('commit', '-qam', 'change');
+        write('src/a.ts', 'a1\na2\na3\nA4\na5\na6\n');
+        write('src/new.ts', 'n1\n');
+        const scope = resolveDiffScope(dir, { since: base });
+        assert.strictEqual(scope.base, base.substring(0, 8));
+        assert.strictEqual(scope.overlay, null);
+        assert.deepStrictEqual([...scope.changed.get('src/a.ts')], [4, 6]);
+        assert.strictEqual(scope.changed.get('src/new.ts'), null);
+        assert.ok(!scope.changed.has('src/b.ts'));
+    });
+});
+
+test('--staged sadece index farkını alır ve dosyaları index hâliyle okur', () => {
+    withRepo((dir, git, write) => {
+        write('src/a.ts', 'a1\nA2\na3\na4\na5\n');
+        git('add', 'src/a.ts');
+        write('src/a.ts', 'a1\nA2\na3\na4\nA5\n');
+        write('src/b.ts', 'B1\n');
+        const scope = resolveDiffScope(dir, { staged: true });
+        assert.strictEqual(scope.base, 'index');
+        assert.deepStrictEqual([...scope.changed.keys()], ['src/a.ts']);
+        assert.deepStrictEqual([...scope.changed.get('src/a.ts')], [2]);
+        assert.strictEqual(scope.overlay.get(path.join(dir, 'src/a.ts')), 'a1\nA2\na3\na4\na5\n');
+        assert.strictEqual(scope.overlay.get(path.join(dir, 'src/b.ts')), 'b1\n');
+    });
+});
+
+test('tarih, geçersiz ref ya da git olmayan dizin için kapsam yoktur', () => {
+    withRepo(dir => {
+        assert.strictEqual(resolveDiffScope(dir, { since: '2 weeks ago' }), null);
+        assert.strictEqual(resolveDiffScope(dir, { since: 'no-such-branch' }), null);
+        assert.strictEqual(resolveDiffScope(dir, {}), null);
+    });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-sec-nogit-'));
+    try {
+        assert.strictEqual(resolveDiffScope(dir, { staged: true }), null);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,104 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { planFixes, applyFixes, formatDiff } = require('../dist/fixer');
+
+function withProject(files, fn) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-sec-fix-'));
+    try {
+        for (const [file, content] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+            fs.writeFileSync(path.join(dir, file), content);
+        }
+        return fn(dir);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+const afterOf = (changes, file) => changes.find(c => c.file === file)?.after;
+
+// ─── NEXT_PUBLIC_ Sırları ───
+test('NEXT_PUBLIC_ anahtarı .env ve process.env referanslarında yeniden adlandırılır', () => {
+    withProject({
+        '.env.local': 'NEXT_PUBLIC_OPENAI_API_KEY=sk-x\nOTHER=1\n',
+        'src/lib/ai.ts': 'const key = process.env.NEXT_PUBLIC_OPENAI_API_KEY;\nconst alt = process.env["NEXT_PUBLIC_OPENAI_API_KEY"];\n',
+    }, dir => {
+        const issues = [{ ruleId: 'api-key/openai', key: 'NEXT_PUBLIC_OPENAI_API_KEY', file: '.env.local', line: 1 }];
+        const { fixes, changes } = planFixes(dir, issues, { files: [path.join(dir, 'src/lib/ai.ts')] });
+        assert.deepStrictEqual(fixes.map(f => [f.id, f.files]), [['next-public', ['.env.local', path.join('src', 'lib', 'ai.ts')]]]);
+        assert.strictEqual(afterOf(changes, '.env.local'), 'OPENAI_API_KEY=sk-x\nOTHER=1\n');
+        assert.strictEqual(afterOf(changes, path.join('src', 'lib', 'ai.ts')), 'const key = process.env.OPENAI_API_KEY;\nconst alt = process.env["OPENAI_API_KEY"];\n');
+    });
+});
+
+// ─── .gitignore ───
+test('eksik .env kalıpları .gitignore sonuna eklenir, mevcutlar tekrar eklenmez', () => {
+    withProject({ '.gitignore': 'node_modules\n.env' }, dir => {
+        const issues = [
+            { ruleId: 'git-hygiene/env-not-ignored', pattern: '.env.local' },
+            { ruleId: 'git-hygiene/env-not-ignored', pattern: '.env' },
+        ];
+        const { changes, fixes } = planFixes(dir, issues);
+        assert.match(afterOf(changes, '.gitignore'), /^node_modules\n\.env\n\n# vibe-sec: .*\n\.env\.local\n$/);
+        assert.strictEqual(fixes[0].notes.length, 1);
+    });
+});
+
+// ─── PostgREST Filtreleri ───
+test('tek koşullu .or() ve .filter() çağrıları parametreli metotlara çevrilir', () => {
+    const source = [
+        "const a = await supabase.from('posts').select().or(`title.ilike.%${q}%`);",
+        "const b = await supabase.from('posts').select().filter('id', 'eq', `${id}`);",
+        "const c = await supabase.from('posts').select().or(`title.eq.${q},body.eq.${q}`);",
+        '',
+    ].join('\n');
+    withProject({ 'src/app/page.ts': source }, dir => {
+        const issues = [1, 2, 3].map(line => ({ ruleId: 'sql-injection/filter', file: 'src/app/page.ts', line }));
+        const { changes, fixes } = planFixes(dir, issues);
+        const after = afterOf(changes, 'src/app/page.ts').split('\n');
+        assert.strictEqual(after[0], "const a = await supabase.from('posts').select().ilike('title', `%${q}%`);");
+        assert.strictEqual(after[1], "const b = await supabase.from('posts').select().eq('id', id);");
+        assert.strictEqual(after[2], source.split('\n')[2]);
+        assert.deepStrictEqual(fixes[0].notes.map(n => n.split(': ')[0]), ['src/app/page.ts:3']);
+    });
+});
+
+test('sadece raporlanan satırlardaki filtreler değiştirilir', () => {
+    const source = "x.or(`title.eq.${q}`);\nx.or(`title.eq.${q}`);\n";
+    withProject({ 'src/a.ts': source }, dir => {
+        const { changes } = planFixes(dir, [{ ruleId: 'sql-injection/filter', file: 'src/a.ts', line: 2 }]);
+        assert.strictEqual(afterOf(changes, 'src/a.ts'), "x.or(`title.eq.${q}`);\nx.eq('title', q);\n");
+    });
+});
+
+// ─── Sağlayıcı Proxy ───
+test('istemci sağlayıcı çağrısı için API route oluşturulur ve URL yönlendirilir', () => {
+    withProject({ 'src/app/chat.tsx': "fetch('https://api.openai.com/v1/chat/completions', { method: 'POST' });\n" }, dir => {
+        const { changes } = planFixes(dir, [{ ruleId: 'api-key/openai', file: 'src/app/chat.tsx', line: 1 }]);
+        assert.strictEqual(afterOf(changes, 'src/app/chat.tsx'), "fetch('/api/openai', { method: 'POST' });\n");
+        const route = changes.find(c => c.file === path.join('src', 'app', 'api', 'openai', 'route.ts'));
+        assert.strictEqual(route.before, null);
+        assert.match(route.after, /process\.env\.OPENAI_API_KEY/);
+
+        applyFixes(dir, changes);
+        assert.strictEqual(fs.readFileSync(path.join(dir, 'src/app/chat.tsx'), 'utf-8'), "fetch('/api/openai', { method: 'POST' });\n");
+    });
+});
+
+// ─── Unified Diff ───
+test('değişiklikler bağlam satırlı hunk\'lar olarak yazılır', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l'].join('\n') + '\n';
+    const after = before.replace('b\n', 'B\n').replace('k\n', 'k\nk2\n');
+    assert.strictEqual(formatDiff({ file: 'x.txt', before, after }), [
+        '--- a/x.txt', '+++ b/x.txt',
+        '@@ -1,5 +1,5 @@', ' a', '-b', '+B', ' c', ' d', ' e',
+        '@@ -9,4 +9,5 @@', ' i', ' j', ' k', '+k2', ' l',
+    ].join('\n'));
+});
+
+test('yeni dosya /dev/null ile başlar', () => {
+    assert.strictEqual(formatDiff({ file: 'n.ts', before: null, after: 'x\ny\n' }), ['--- /dev/null', '+++ b/n.ts', '@@ -0,0 +1,2 @@', '+x', '+y'].join('\n'));
+});
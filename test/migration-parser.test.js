@@ -0,0 +1,95 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { splitStatements, replayMigrations, scanRLSOffline } = require('../dist/migration-parser');
+
+// Her test kendi supabase/migrations dizinini kurar; dosyalar ada göre sırayla oynatılır
+function withMigrations(files, fn) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-sec-migrations-'));
+    try {
+        fs.mkdirSync(path.join(dir, 'supabase', 'migrations'), { recursive: true });
+        for (const [name, sql] of Object.entries(files)) fs.writeFileSync(path.join(dir, 'supabase', 'migrations', name), sql);
+        return fn(dir);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+const policiesOf = (sql, table = 'posts') => withMigrations({ '001_init.sql': sql }, dir => replayMigrations(dir).get(table).policies);
+
+const POSTS = `create table public.posts (id uuid primary key, user_id uuid references auth.users(id), team_id uuid);
+alter table public.posts enable row level security;
+`;
+
+// ─── Statement Splitter ───
+test('yorumlar, string içindeki ; ve dollar-quoted gövdeler statement bölmez', () => {
+    const sql = "-- not\ncreate table a (x text default ';');\n\ncreate function f() returns void as $$ begin perform 1; end $$ language plpgsql;\n/* x; */ alter table a enable row level security;";
+    assert.deepStrictEqual(splitStatements(sql).map(s => s.line), [2, 4, 5]);
+    assert.match(splitStatements(sql)[1].text, /perform 1; end/);
+});
+
+// ─── Replay ───
+test('tablolar, sütunlar, foreign key ve RLS durumu sırayla uygulanır', () => {
+    withMigrations({
+        '001_init.sql': POSTS,
+        '002_more.sql': 'alter table public.posts add column title text;\nalter table posts force row level security;\ncreate table public.tmp (id int);\ndrop table public.tmp;',
+    }, dir => {
+        const tables = replayMigrations(dir);
+        assert.deepStrictEqual([...tables.keys()], ['posts']);
+        const posts = tables.get('posts');
+        assert.strictEqual(posts.rlsEnabled, true);
+        assert.strictEqual(posts.forceRls, true);
+        assert.deepStrictEqual(posts.columns.map(c => c.name), ['id', 'user_id', 'team_id', 'title']);
+        assert.deepStrictEqual(posts.foreignKeys.map(f => [f.column, f.refSchema, f.refTable]), [['user_id', 'auth', 'users']]);
+        assert.deepStrictEqual(posts.location, { file: 'supabase/migrations/001_init.sql', line: 1 });
+    });
+});
+
+test('CREATE / ALTER / DROP POLICY son politika durumunu verir', () => {
+    const policies = policiesOf(`${POSTS}
+create policy "own" on public.posts for select to authenticated using (auth.uid() = user_id);
+create policy "tmp" on public.posts for delete using (true);
+alter policy "own" on public.posts to anon, authenticated;
+alter policy "own" on public.posts rename to "own_rows";
+drop policy if exists "tmp" on public.posts;`);
+    assert.deepStrictEqual(policies.map(p => [p.name, p.cmd, p.roles, p.qual]), [['own_rows', 'SELECT', ['anon', 'authenticated'], 'auth.uid() = user_id']]);
+});
+
+// ─── Politika Rolleri (regresyon: d17494a) ───
+test('roller ve komut sadece USING / WITH CHECK öncesinden okunur', () => {
+    const [policy] = policiesOf(`${POSTS}
+create policy "team" on public.posts for update
+  using (team_id in (select team_id from members where added_to = auth.uid()))
+  with check (status = 'moved to archive for review');`);
+    assert.strictEqual(policy.cmd, 'UPDATE');
+    assert.deepStrictEqual(policy.roles, ['public']);
+    assert.strictEqual(policy.permissive, true);
+});
+
+test('AS RESTRICTIVE ve çoklu roller başlıktan okunur, ifadedeki sözcükler karışmaz', () => {
+    const [restrictive, permissive] = policiesOf(`${POSTS}
+create policy "tenant" on public.posts as restrictive for all to authenticated, service_role using (auth.uid() = user_id);
+create policy "read" on public.posts for select using (note = 'as restrictive to anon');`);
+    assert.deepStrictEqual([restrictive.permissive, restrictive.cmd, restrictive.roles], [false, 'ALL', ['authenticated', 'service_role']]);
+    assert.deepStrictEqual([permissive.permissive, permissive.cmd, permissive.roles], [true, 'SELECT', ['public']]);
+});
+
+// ─── Offline Scan ───
+test('offline tarama tablo konumlarını, şemaları ve view / foreign table ilişkilerini döndürür', () => {
+    withMigrations({
+        '001_init.sql': `${POSTS}
+create or replace view public.feed as select id from public.posts;
+create materialized view if not exists public.stats as select count(*) from public.posts;
+create foreign table public.remote_posts (id uuid) server remote;
+create view public.old as select 1;
+drop view if exists public.old;`,
+    }, dir => {
+        const { issues, filteredTables, relations, schemas } = scanRLSOffline(dir, []);
+        assert.deepStrictEqual([...filteredTables.keys()], ['posts']);
+        assert.deepStrictEqual([...relations].sort(), ['feed', 'remote_posts', 'stats']);
+        assert.deepStrictEqual(schemas.get('posts').columns.map(c => c.name), ['id', 'user_id', 'team_id']);
+        assert.deepStrictEqual(issues.map(i => [i.ruleId, i.file, i.line]), [['rls-check/no-policy', 'supabase/migrations/001_init.sql', 1]]);
+    });
+});
@@ -0,0 +1,68 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { analyzeTable } = require('../dist/rls-scanner');
+
+const policy = (overrides = {}) => ({
+    name: 'p', cmd: 'ALL', roles: ['authenticated'], qual: '(auth.uid() = user_id)', withCheck: null, permissive: true,
+    ...overrides,
+});
+const rules = (table, context = {}) => analyzeTable({ name: 'posts', rlsEnabled: true, forceRls: false, owner: 'postgres', ...table }, context).map(i => i.ruleId);
+
+// ─── Temel Durumlar ───
+test('RLS kapalıysa sadece rls-disabled raporlanır', () => {
+    assert.deepStrictEqual(rules({ rlsEnabled: false, policies: [policy({ qual: 'true' })] }), ['rls-check/rls-disabled']);
+});
+
+test('sahiplik kontrolü yapan politikalar temiz sayılır', () => {
+    assert.deepStrictEqual(rules({ policies: [policy()] }), ['rls-check/ok']);
+    assert.deepStrictEqual(rules({ policies: [] }), ['rls-check/no-policy']);
+});
+
+test('koşulsuz, anon yazma, WITH CHECK eksik ve eksik komut bulguları', () => {
+    assert.deepStrictEqual(rules({ policies: [policy({ cmd: 'SELECT', roles: ['anon'], qual: 'true' })] }), ['rls-check/tautological-policy', 'rls-check/missing-command']);
+    assert.deepStrictEqual(rules({ policies: [policy({ cmd: 'INSERT', roles: ['anon'], qual: null, withCheck: '1 = 1' })] }), ['rls-check/tautological-policy', 'rls-check/anon-write', 'rls-check/missing-command']);
+    assert.deepStrictEqual(rules({ policies: [policy({ cmd: 'UPDATE' })] }), ['rls-check/update-without-check', 'rls-check/missing-command']);
+    assert.deepStrictEqual(rules({ policies: [policy({ qual: "(status = 'published')" })] }), ['rls-check/no-auth-reference']);
+});
+
+test('uygulama rolü tablonun sahibiyse FORCE RLS istenir', () => {
+    assert.deepStrictEqual(rules({ policies: [policy()] }, { appRole: 'postgres' }), ['rls-check/force-rls-off']);
+    assert.deepStrictEqual(rules({ forceRls: true, policies: [policy()] }, { appRole: 'postgres' }), ['rls-check/ok']);
+});
+
+// ─── Permissive + Restrictive (regresyon: a590682) ───
+test('auth kontrolü yapan restrictive politika koşulsuz permissive politikayı sınırlar', () => {
+    const policies = [
+        policy({ name: 'read', cmd: 'SELECT', roles: ['public'], qual: 'true' }),
+        policy({ name: 'tenant', cmd: 'ALL', roles: ['public'], qual: '(auth.uid() = user_id)', permissive: false }),
+    ];
+    assert.deepStrictEqual(rules({ policies }), ['rls-check/missing-command']);
+});
+
+test('restrictive politika farklı komut ya da daha dar rol için sınırlamaz', () => {
+    const otherCommand = [
+        policy({ name: 'read', cmd: 'SELECT', roles: ['anon'], qual: 'true' }),
+        policy({ name: 'tenant', cmd: 'UPDATE', roles: ['public'], permissive: false }),
+    ];
+    assert.ok(rules({ policies: otherCommand }).includes('rls-check/tautological-policy'));
+
+    const narrowerRole = [
+        policy({ name: 'write', cmd: 'INSERT', roles: ['anon', 'authenticated'], qual: null, withCheck: 'true' }),
+        policy({ name: 'tenant', cmd: 'ALL', roles: ['authenticated'], permissive: false }),
+    ];
+    assert.ok(rules({ policies: narrowerRole }).includes('rls-check/anon-write'));
+});
+
+test('koşulsuz restrictive politika hiçbir şeyi sınırlamaz ve kendisi raporlanmaz', () => {
+    const policies = [
+        policy({ name: 'read', cmd: 'SELECT', roles: ['public'], qual: 'true' }),
+        policy({ name: 'noop', cmd: 'ALL', roles: ['public'], qual: 'true', permissive: false }),
+    ];
+    const found = analyzeTable({ name: 'posts', rlsEnabled: true, policies });
+    assert.deepStrictEqual(found.filter(i => i.ruleId === 'rls-check/tautological-policy').map(i => i.policy), ['read']);
+});
+
+test('sadece restrictive politikası olan tablo restrictive-only ile raporlanır', () => {
+    const policies = [policy({ name: 'tenant', permissive: false })];
+    assert.deepStrictEqual(rules({ policies }), ['rls-check/restrictive-only']);
+});
@@ -0,0 +1,96 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { normalizeRule, loadRules, runRules } = require('../dist/rule-engine');
+
+function withProject(files, fn) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-sec-rules-'));
+    try {
+        for (const [file, content] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+            fs.writeFileSync(path.join(dir, file), content);
+        }
+        return fn(dir, Object.keys(files).map(f => path.join(dir, f)));
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+const RESEND = {
+    id: 'api-key/resend', severity: 'critical', codeSeverity: 'warning', scope: 'client',
+    envKeys: ['RESEND_API_KEY'], codePatterns: ['new Resend\\('],
+    title: 'Resend: {match}', message: 'Sunucuya taşıyın ({file}).',
+};
+
+// ─── Normalization ───
+test('kural varsayılanları doldurulur ve geçersiz alanlar reddedilir', () => {
+    const rule = normalizeRule({ id: 'acme/no-eval', codePatterns: [/eval\(/g] }, 'config');
+    assert.deepStrictEqual([rule.severity, rule.scope, rule.category, rule.source], ['warning', 'all', 'acme', 'config']);
+    assert.strictEqual(rule.codeMatchers[0].flags, '');
+    assert.throws(() => normalizeRule({ id: 'acme/x', severity: 'high', codePatterns: ['x'] }, 'config'), /severity/);
+    assert.throws(() => normalizeRule({ id: 'acme/x' }, 'config'), /acme\/x/);
+});
+
+test('config kuralı aynı id ile yerleşik kuralı günceller ya da kapatır', () => {
+    const { rules, errors } = loadRules({ rules: [{ id: 'api-key/openai', severity: 'warning' }, { id: 'api-key/serper', enabled: false }, { id: 'bad' }] }, process.cwd());
+    const openai = rules.find(r => r.id === 'api-key/openai');
+    assert.strictEqual(openai.severity, 'warning');
+    assert.ok(openai.envMatchers.length > 0);
+    assert.match(openai.source, / \+ config$/);
+    assert.ok(!rules.some(r => r.id === 'api-key/serper'));
+    assert.strictEqual(errors.length, 1);
+});
+
+// ─── Runner ───
+test('env ve kod eşleşmeleri kendi önem dereceleri ve şablon metinleriyle raporlanır', () => {
+    withProject({
+        'src/components/Mail.tsx': '"use client";\nconst r = new Resend(key);\n',
+        'src/server/mail.ts': 'const r = new Resend(key);\n',
+    }, (dir, files) => {
+        const { rules } = loadRules({ rules: [RESEND] }, dir);
+        const envEntries = [{ key: 'NEXT_PUBLIC_RESEND_API_KEY', value: 're_x', line: 3, file: '.env.local' }, { key: 'RESEND_API_KEY', value: 're_x', line: 4, file: '.env.local' }];
+        const issues = runRules(rules.filter(r => r.id === 'api-key/resend'), { files, projectRoot: dir, envEntries });
+        assert.deepStrictEqual(issues.map(i => [i.severity, i.file, i.line, i.title]), [
+            ['critical', '.env.local', 3, 'Resend: NEXT_PUBLIC_RESEND_API_KEY'],
+            ['warning', 'src/components/Mail.tsx', 2, 'Resend: new Resend('],
+        ]);
+        assert.strictEqual(issues[1].message, 'Sunucuya taşıyın (src/components/Mail.tsx).');
+    });
+});
+
+test('clientFiles verilirse istemci kapsamı modül grafından gelir', () => {
+    withProject({ 'lib/mail.ts': 'const r = new Resend(key);\n' }, (dir, files) => {
+        const { rules } = loadRules({ rules: [RESEND] }, dir);
+        const resend = rules.filter(r => r.id === 'api-key/resend');
+        assert.strictEqual(runRules(resend, { files, projectRoot: dir }).length, 0);
+        assert.strictEqual(runRules(resend, { files, projectRoot: dir, clientFiles: new Set(files) }).length, 1);
+    });
+});
+
+test('visitor ve analyze kuralları ctx.report ile bulgu üretir', () => {
+    const visitor = {
+        id: 'acme/no-eval', severity: 'critical', files: ['**/*.ts'], title: 'eval',
+        visitor(node, ctx) {
+            if (ctx.ts.isCallExpression(node) && node.expression.getText(ctx.sourceFile) === 'eval') ctx.report({ node });
+        },
+    };
+    const analyze = {
+        id: 'acme/todo', severity: 'info', title: (m) => `TODO ${m.count}`,
+        analyze(ctx) {
+            const count = ctx.cached('todos', () => ctx.lines.filter(l => l.includes('TODO')).length);
+            if (count > 0) ctx.report({ line: 1, count, stableContext: 'todo' });
+        },
+    };
+    withProject({ 'src/a.ts': '// TODO\nconst x = 1;\neval(input);\n', 'src/b.js': 'eval(input);\n' }, (dir, files) => {
+        const rules = [visitor, analyze].map(r => normalizeRule(r, 'test'));
+        const issues = runRules(rules, { files, projectRoot: dir });
+        assert.deepStrictEqual(issues.map(i => [i.ruleId, i.file, i.line, i.title]), [
+            ['acme/todo', 'src/a.ts', 1, 'TODO 1'],
+            ['acme/no-eval', 'src/a.ts', 3, 'eval'],
+        ]);
+        assert.strictEqual(issues[1].context, 'eval(input);');
+        assert.strictEqual(issues[0].stableContext, 'todo');
+    });
+});
@@ -0,0 +1,55 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { analyzeSource } = require('../dist/sql-analyzer');
+
+const rules = (code) => analyzeSource('route.ts', code).map(f => f.rule);
+
+// ─── Kaynak → Sink Akışı ───
+test('istek parametresi değişken ve template literal üzerinden sorguya ulaşır', () => {
+    const code = `
+        export async function GET(req) {
+            const id = req.query.id;
+            await db.query(\`SELECT * FROM users WHERE id = \${id}\`);
+        }`;
+    const [finding, ...rest] = analyzeSource('route.ts', code);
+    assert.strictEqual(rest.length, 0);
+    assert.strictEqual(finding.rule, 'raw-query');
+    assert.strictEqual(finding.line, 4);
+    assert.deepStrictEqual([finding.path[0], finding.path[1], finding.path.at(-1)], ['req.query', 'id', 'db.query()']);
+    assert.match(finding.code, /^db\.query\(/);
+});
+
+test('string birleştirme ve istek gövdesi okuyucuları taint taşır', () => {
+    const code = `
+        export async function POST(request) {
+            const body = await request.json();
+            const q = "DELETE FROM t WHERE name = '" + body.name + "'";
+            await pool.query(q);
+        }`;
+    const [finding] = analyzeSource('route.ts', code);
+    assert.strictEqual(finding.rule, 'raw-query');
+    assert.deepStrictEqual([finding.path[0], finding.path.at(-1)], ['request.json()', 'pool.query()']);
+});
+
+test('her sink kendi kuralıyla raporlanır', () => {
+    assert.deepStrictEqual(rules(`export async function GET(req) { await prisma.$queryRawUnsafe('SELECT ' + req.query.id); }`), ['raw-unsafe']);
+    assert.deepStrictEqual(rules(`export async function GET(req) { await knex('users').whereRaw(\`name = '\${req.query.name}'\`); }`), ['knex-raw']);
+    assert.deepStrictEqual(rules(`export async function GET(req) { await supabase.rpc('run_sql', { sql: \`SELECT \${req.query.x}\` }); }`), ['rpc']);
+    assert.deepStrictEqual(rules(`
+        export async function GET(request) {
+            const q = request.nextUrl.searchParams.get('q');
+            await supabase.from('posts').select().or(\`title.ilike.%\${q}%\`);
+        }`), ['filter']);
+});
+
+test('dışa aktarılan fonksiyon argümanı da kaynak sayılır', () => {
+    assert.deepStrictEqual(rules(`export async function findUser(name) { return db.query(\`SELECT * FROM users WHERE name = '\${name}'\`); }`), ['raw-query']);
+});
+
+// ─── Güvenli Kalıplar ───
+test('sanitizer, parametreli sorgu, güvenli tag ve sabitler raporlanmaz', () => {
+    assert.deepStrictEqual(rules(`export async function GET(req) { const id = Number(req.query.id); await db.query(\`SELECT * FROM users WHERE id = \${id}\`); }`), []);
+    assert.deepStrictEqual(rules(`export async function GET(req) { await db.query('SELECT * FROM users WHERE id = $1', [req.query.id]); }`), []);
+    assert.deepStrictEqual(rules(`export async function GET(req) { await prisma.$queryRaw\`SELECT * FROM users WHERE id = \${req.query.id}\`; }`), []);
+    assert.deepStrictEqual(rules(`const TABLE = 'users'; export async function GET() { await db.query(\`SELECT * FROM \${TABLE}\`); }`), []);
+});
@@ -0,0 +1,94 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const {
+    fingerprintIssue, assignFingerprints, dedupeIssues, writeBaseline, loadBaseline, filterBaseline, applySuppressions,
+} = require('../dist/suppressions');
+
+const issue = (overrides = {}) => ({
+    severity: 'critical', category: 'sql-injection', ruleId: 'sql-injection/raw-query',
+    title: 'Ham SQL', message: '', file: 'src/db.ts', line: 10, context: 'db.query(`SELECT ${id}`)',
+    ...overrides,
+});
+
+// ─── Fingerprint ───
+test('fingerprint satır numarasından ve çevrilen metinlerden bağımsız', () => {
+    const base = fingerprintIssue(issue());
+    assert.strictEqual(fingerprintIssue(issue({ line: 42 })), base);
+    assert.strictEqual(fingerprintIssue(issue({ title: 'Raw SQL', message: 'translated' })), base);
+    assert.strictEqual(fingerprintIssue(issue({ context: '  db.query(`SELECT ${id}`)  ' })), base);
+    assert.notStrictEqual(fingerprintIssue(issue({ file: 'src/other.ts' })), base);
+    assert.notStrictEqual(fingerprintIssue(issue({ ruleId: 'sql-injection/rpc' })), base);
+});
+
+test('stableContext varsa çevrilen context yerine kullanılır', () => {
+    const tr = issue({ context: 'girdi → sorgu', stableContext: 'db.query(sql)' });
+    const en = issue({ context: 'input → query', stableContext: 'db.query(sql)' });
+    assert.strictEqual(fingerprintIssue(tr), fingerprintIssue(en));
+});
+
+// ─── Tekrar Numarası ───
+test('aynı kural, dosya ve bağlamdaki tekrarlar satır sırasına göre ayrışır', () => {
+    const [first, second, third] = assignFingerprints([issue({ line: 30 }), issue({ line: 10 }), issue({ line: 20 })]);
+    assert.strictEqual(second.fingerprint, fingerprintIssue(issue()));
+    assert.strictEqual(new Set([first.fingerprint, second.fingerprint, third.fingerprint]).size, 3);
+
+    // Araya satır eklenmesi sırayı değiştirmedikçe fingerprint'ler korunur
+    const shifted = assignFingerprints([issue({ line: 12 }), issue({ line: 25 }), issue({ line: 40 })]);
+    assert.deepStrictEqual(shifted.map(i => i.fingerprint), [second, third, first].map(i => i.fingerprint));
+});
+
+test('önceden fingerprint verilmiş bulgular değişmez, aynı satırdaki tekrarlar birleşir', () => {
+    const [fixed] = assignFingerprints([issue({ fingerprint: 'abc' })]);
+    assert.strictEqual(fixed.fingerprint, 'abc');
+
+    const merged = dedupeIssues([issue({ severity: 'warning' }), issue(), issue({ line: 11 })]);
+    assert.strictEqual(merged.length, 2);
+    assert.strictEqual(merged.find(i => i.line === 10).severity, 'critical');
+});
+
+// ─── Baseline ───
+test('baseline yazılıp okunduğunda kayıtlı bulgular gizlenir, yeni tekrar raporlanır', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-sec-baseline-'));
+    try {
+        writeBaseline(dir, dedupeIssues([issue()]));
+        const baseline = loadBaseline(dir);
+        const { fresh, known } = filterBaseline(dedupeIssues([issue({ line: 14 }), issue({ line: 50 })]), baseline);
+        assert.deepStrictEqual(known.map(i => i.line), [14]);
+        assert.deepStrictEqual(fresh.map(i => i.line), [50]);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
+
+test('baseline dosyası yoksa tüm bulgular yeni sayılır', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-sec-baseline-'));
+    try {
+        const baseline = loadBaseline(dir);
+        assert.strictEqual(baseline, null);
+        assert.strictEqual(filterBaseline([issue()], baseline).fresh.length, 1);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
+
+// ─── Inline Suppression ───
+test('vibe-sec-ignore-next-line sadece adı verilen kuralı susturur', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-sec-ignore-'));
+    try {
+        fs.mkdirSync(path.join(dir, 'src'));
+        fs.writeFileSync(path.join(dir, 'src', 'db.ts'), [
+            '// vibe-sec-ignore-next-line sql-injection -- sabit tablo adı',
+            'db.query(`SELECT ${table}`);',
+            '// vibe-sec-ignore-next-line api-key',
+            'db.query(`SELECT ${id}`);',
+        ].join('\n'));
+        const { kept, suppressed } = applySuppressions([issue({ line: 2 }), issue({ line: 4 })], dir);
+        assert.deepStrictEqual(suppressed.map(i => [i.line, i.suppression.reason]), [[2, 'sabit tablo adı']]);
+        assert.deepStrictEqual(kept.map(i => i.line), [4]);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,58 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { crossReferenceTables, crossReferenceRpc } = require('../dist/table-usage');
+const { fingerprintIssue, assignFingerprints } = require('../dist/suppressions');
+
+const NO_POLICY = {
+    severity: 'warning', category: 'rls-check', ruleId: 'rls-check/no-policy', table: 'posts',
+    title: 'no policy', message: 'posts: politika yok.', file: 'supabase/migrations/001_init.sql', line: 3,
+};
+
+const usagesAt = (...usages) => new Map([['posts', usages]]);
+
+// ─── Çağrı Noktasına Taşıma ───
+test('istemci kullanımı bulguyu ilk istemci çağrısına taşır ve önemini yükseltir', () => {
+    const [issue] = crossReferenceTables([NO_POLICY], new Map(), usagesAt(
+        { file: 'src/server/posts.ts', line: 4, client: false },
+        { file: 'src/app/feed.tsx', line: 12, client: true },
+    ));
+    assert.deepStrictEqual([issue.file, issue.line, issue.severity], ['src/app/feed.tsx', 12, 'critical']);
+    assert.deepStrictEqual(issue.usages, ['src/app/feed.tsx:12 (client)', 'src/server/posts.ts:4']);
+    assert.ok(issue.message.startsWith(NO_POLICY.message));
+});
+
+// ─── Fingerprint (regresyon: 70132d3) ───
+test('taşınan bulgunun fingerprint\'i taşımadan önceki konumdan hesaplanır', () => {
+    const original = fingerprintIssue(NO_POLICY);
+    const relocated = (...usages) => assignFingerprints(crossReferenceTables([NO_POLICY], new Map(), usagesAt(...usages)))[0];
+    const first = relocated({ file: 'src/app/feed.tsx', line: 12, client: true });
+    const moved = relocated({ file: 'src/app/home.tsx', line: 40, client: true }, { file: 'src/lib/db.ts', line: 2, client: false });
+    assert.strictEqual(first.fingerprint, original);
+    assert.strictEqual(moved.fingerprint, original);
+});
+
+test('rpc çağrısına taşınan bulgu da önceki fingerprint\'i korur', () => {
+    const definer = { ...NO_POLICY, ruleId: 'db-surface/definer-function', table: undefined, rpc: 'admin_reset', context: 'security definer' };
+    const [issue] = crossReferenceRpc([definer], new Map([['admin_reset', [{ file: 'src/app/admin.tsx', line: 8, client: true }]]]));
+    assert.deepStrictEqual([issue.file, issue.line, issue.severity], ['src/app/admin.tsx', 8, 'critical']);
+    assert.strictEqual(issue.fingerprint, fingerprintIssue(definer));
+});
+
+// ─── Bilinmeyen Tablolar ───
+test('unknown-table fingerprint\'i sadece tabloya bağlıdır', () => {
+    const unknown = (file, line) => crossReferenceTables([], new Map(), new Map([['ghost', [{ file, line, context: ".from('ghost')", client: false }]]]), { dbAvailable: true })[0];
+    const a = unknown('src/a.ts', 3);
+    const b = unknown('src/b.ts', 90);
+    assert.strictEqual(a.ruleId, 'rls-check/unknown-table');
+    assert.deepStrictEqual([a.file, a.line], ['src/a.ts', 3]);
+    assert.strictEqual(a.fingerprint, b.fingerprint);
+    assert.strictEqual(a.fingerprint, fingerprintIssue({ ruleId: 'rls-check/unknown-table', table: 'ghost' }));
+});
+
+test('view / foreign table ilişkileri ve whitelist bilinmeyen tablo sayılmaz', () => {
+    const codeTables = new Map(['posts', 'feed', 'remote_posts', 'audit', 'ghost'].map(table => [table, [{ file: 'src/a.ts', line: 1, client: false }]]));
+    const dbTables = new Map([['posts', []], ['unused', [{ file: 'supabase/migrations/001_init.sql', line: 9 }]]]);
+    const issues = crossReferenceTables([], dbTables, codeTables, { dbAvailable: true, relations: new Set(['feed', 'remote_posts']), whitelisted: ['audit'] });
+    assert.deepStrictEqual(issues.map(i => [i.ruleId, i.table]), [['rls-check/unknown-table', 'ghost'], ['rls-check/unused-table', 'unused']]);
+    assert.deepStrictEqual(crossReferenceTables([], dbTables, codeTables, { relations: new Set() }), []);
+});
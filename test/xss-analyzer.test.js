@@ -0,0 +1,59 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { analyzeSource } = require('../dist/xss-analyzer');
+
+const rules = (code, options = {}) => analyzeSource('page.tsx', code, options).map(f => f.rule);
+
+// ─── Sanitizer ───
+test('sanitizer dönüş değeri temiz, atılan dönüş değeri değişkeni temizlemez', () => {
+    const code = `
+        export function Post({ html }) {
+            const clean = DOMPurify.sanitize(html);
+            return <><div dangerouslySetInnerHTML={{ __html: clean }} /><div dangerouslySetInnerHTML={{ __html: html }} /></>;
+        }`;
+    const findings = analyzeSource('page.tsx', code);
+    assert.deepStrictEqual(findings.map(f => f.rule), ['dangerous-html']);
+    assert.match(findings[0].code, /__html: html/);
+});
+
+test('doğrulama yardımcısı sadece akışı koruduğunda temizler', () => {
+    const options = { sanitizers: ['isSafeRedirect'] };
+    const guarded = `
+        export function Login() {
+            const next = useSearchParams().get('next');
+            const go = () => {
+                if (!isSafeRedirect(next)) return;
+                router.push(next);
+            };
+            const branch = () => { if (isSafeRedirect(next)) { router.push(next); } };
+            const ternary = () => router.push(isSafeRedirect(next) ? next : '/');
+        }`;
+    assert.deepStrictEqual(rules(guarded, options), []);
+
+    const unguarded = `
+        export function Login() {
+            const next = useSearchParams().get('next');
+            isSafeRedirect(next);
+            router.push(next);
+        }`;
+    assert.deepStrictEqual(rules(unguarded, options), ['open-redirect']);
+});
+
+// ─── Callback Kaynakları ───
+test('then() callback parametresi alıcının taint değerini taşır', () => {
+    const code = `
+        export function Widget({ u }) {
+            fetch(u).then(r => r.text()).then(code => eval(code));
+        }`;
+    const findings = analyzeSource('page.tsx', code);
+    assert.deepStrictEqual(findings.map(f => [f.rule, f.severity]), [['eval', 'critical']]);
+});
+
+test('map() callback öğesi uzak içerikten gelir', () => {
+    const code = `
+        export function Links() {
+            const { data } = useSWR('/api/links');
+            return data.items.map(item => <a href={item.url}>{item.title}</a>);
+        }`;
+    assert.deepStrictEqual(rules(code), ['javascript-url']);
+});
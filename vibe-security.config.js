@@ -1,4 +1,4 @@
-/** @type {import('./src/security-watchdog/types').VibeSecurityConfig} */
+/** @type {import('./src/types').VibeSecurityConfig} */
 const vibeSecurityConfig = {
   /**
    * Etkinleştirme — sadece development ortamında aktif olur.
@@ -77,6 +77,18 @@ const vibeSecurityConfig = {
     ],
   },
 
+  /**
+   * Git Hijyen Denetçisi Ayarları
+   * Takip edilen .env dosyalarını, .gitignore kurallarını ve commit geçmişini denetler.
+   */
+  gitScanner: {
+    /** Commit geçmişinde .env dosyası ve gizli anahtar imzası ara */
+    history: true,
+
+    /** Geçmişte taranacak en fazla commit sayısı (--since ile ayrıca sınırlanabilir) */
+    maxCommits: 500,
+  },
+
   /**
    * Supabase RLS Denetçisi Ayarları
    * Kod içindeki supabase.from() çağrılarını tarar ve
@@ -108,8 +120,87 @@ const vibeSecurityConfig = {
      * (örn: public erişime açık olması gereken tablolar)
      */
     whitelistedTables: [],
+
+    /**
+     * public dışında PostgREST üzerinden açılan şemalar (supabase/config.toml [api].schemas)
+     * Veritabanındaki pgrst.db_schemas ayarıyla birleştirilir; bu şemalardaki view, fonksiyon
+     * ve RLS'siz tablolar da denetlenir. Örnek: ['api']
+     */
+    exposedSchemas: [],
+  },
+
+  /**
+   * RLS Davranış Testi (vibe-sec rls:test)
+   * anon / authenticated rollerini taklit ederek başka kullanıcının satırlarına erişimi dener.
+   * Her tablo ROLLBACK edilen bir transaction içinde test edilir.
+   */
+  rlsTester: {
+    /** Test veritabanı — yoksa --db, VIBE_SEC_TEST_DATABASE_URL veya DATABASE_URL kullanılır */
+    databaseUrl: process.env.VIBE_SEC_TEST_DATABASE_URL || '',
+
+    /** localhost dışında güvenilen shadow veritabanı host'ları (ör. docker-compose servis adı) */
+    allowedHosts: [],
   },
 
+  /**
+   * Auth Guard Denetçisi Ayarları
+   * app/.../route.ts handler'larını, "use server" action'larını ve pages/api endpoint'lerini
+   * veri erişiminden önce kimlik doğrulama yapıp yapmadıklarına göre denetler.
+   * middleware.ts matcher'ı kapsanan route'ları belirlemek için okunur.
+   */
+  authGuard: {
+    /** Etkinleştirme */
+    enabled: true,
+
+    /**
+     * supabase.auth.getUser()/getSession() dışında guard sayılacak fonksiyon adları
+     * Örnek: ['requireAdmin', 'assertSession']
+     */
+    guards: [],
+
+    /** Bilinçli olarak herkese açık route'lar (glob) — ör. ['/api/webhooks/**', '/api/health'] */
+    publicRoutes: [],
+  },
+
+  /**
+   * XSS / Open Redirect Tarayıcı Ayarları
+   * .tsx/.jsx bileşenlerinde dangerouslySetInnerHTML, href={...}, router.push/redirect() ve eval
+   * sink'lerine URL parametresi veya uzak içerik akışını izler.
+   */
+  xssScanner: {
+    /**
+     * DOMPurify.sanitize, sanitizeHtml, filterXSS, encodeURIComponent dışında temiz sayılacak fonksiyonlar
+     * Örnek: ['safeRedirect', 'isAllowedUrl'] — if (!isAllowedUrl(next)) return; kalıbı da tanınır
+     */
+    sanitizers: [],
+  },
+
+  /**
+   * Özel Kurallar
+   * Yerleşik kurallarla aynı şekli kullanır. Aynı id ile yazılan kural yerleşik kuralı günceller,
+   * { id: 'api-key/serper', enabled: false } kuralı kapatır. Aktif kurallar: vibe-sec rules list
+   *
+   * Örnek:
+   *   {
+   *     id: 'api-key/resend',
+   *     severity: 'critical',          // env eşleşmeleri
+   *     codeSeverity: 'warning',       // kod eşleşmeleri
+   *     scope: 'client',               // 'client' | 'server' | 'all'
+   *     envKeys: ['RESEND_API_KEY'],
+   *     codePatterns: ['api\\.resend\\.com', 'new Resend\\('],
+   *     title: '🔑 Resend anahtarı istemci tarafında: {match}',
+   *     message: 'E-posta gönderimini API Route üzerinden yapın.',
+   *     fix: 'app/api/email/route.ts içine taşıyın.',
+   *   }
+   */
+  rules: [],
+
+  /**
+   * Kural paketleri (npm modülleri) — kural dizisi veya { rules: [...] } export etmelidir
+   * Örnek: ['vibe-sec-plugin-billing']
+   */
+  plugins: [],
+
   /**
    * Raporlama Ayarları
    */
@@ -123,8 +214,18 @@ const vibeSecurityConfig = {
     /** Overlay'in otomatik kapanma süresi (ms). 0 = manuel kapatma gerekir */
     overlayAutoCloseMs: 0,
 
-    /** Ses uyarısı (tarayıcı) */
+    /** Ses uyarısı (tarayıcı) — yeni kritik bulgu geldiğinde */
     soundAlert: false,
+
+    /**
+     * Overlay sunucusunun portu (vibe-sec --watch ile açılır).
+     * Next.js: next.config.js içinde withVibeSec(nextConfig) ya da
+     * layout'a <script src="http://127.0.0.1:3799/client.js"> ekleyin.
+     */
+    overlayPort: 3799,
+
+    /** Dosya bağlantılarının açılacağı editör: 'vscode' | 'cursor' | 'windsurf' | 'zed' | 'webstorm' */
+    editor: 'vscode',
   },
 
   /**